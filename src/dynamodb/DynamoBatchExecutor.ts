@@ -0,0 +1,106 @@
+import {
+    AttributeValue,
+    BatchGetItemCommand,
+    BatchWriteItemCommand,
+    DynamoDBClient,
+    WriteRequest
+} from "@aws-sdk/client-dynamodb";
+import {DynamoExpression} from "./types/DynamoExpression";
+import {chunk, computeBackoffDelay, mapWithConcurrency, sleep} from "./DynamoConcurrency";
+import {DynamoCommandObserver} from "./DynamoObservability";
+import {
+    DynamoBatchGetOptions,
+    DynamoBatchOptions,
+    DynamoRawBatchGetResult,
+    DynamoRawBatchWriteResult
+} from "./types/DynamoBatch";
+
+export const MAX_BATCH_GET_KEYS = 100;
+export const MAX_BATCH_WRITE_REQUESTS = 25;
+
+/**
+ * Sends marshalled keys and write requests in chunks that fit DynamoDB's batch limits
+ * and retries whatever DynamoDB reports as unprocessed.
+ */
+export class DynamoBatchExecutor {
+    constructor(private readonly observer: DynamoCommandObserver = new DynamoCommandObserver()) {
+    }
+
+    async batchGet(
+        tableName: string,
+        keys: Record<string, AttributeValue>[],
+        client: DynamoDBClient,
+        options: DynamoBatchGetOptions = {},
+        projection: DynamoExpression = {}
+    ): Promise<DynamoRawBatchGetResult> {
+        const results = await mapWithConcurrency(
+            chunk(keys, MAX_BATCH_GET_KEYS),
+            options.concurrency ?? 4,
+            async (chunkKeys) => {
+                const items: Record<string, AttributeValue>[] = [];
+                const unprocessedKeys = await this.withRetries(chunkKeys, options, async (pending) => {
+                    const command = new BatchGetItemCommand(this.observer.withConsumedCapacity({
+                        RequestItems: {
+                            [tableName]: {
+                                Keys: pending,
+                                ConsistentRead: options.consistentRead,
+                                ProjectionExpression: projection.ProjectionExpression,
+                                ExpressionAttributeNames: projection.ExpressionAttributeNames
+                            }
+                        }
+                    }));
+                    const response = await this.observer.observe(command, () => client.send(command));
+                    items.push(...(response?.Responses?.[tableName] || []));
+                    return response?.UnprocessedKeys?.[tableName]?.Keys || [];
+                });
+                return {items, unprocessedKeys};
+            }
+        );
+
+        return {
+            items: results.flatMap(result => result.items),
+            unprocessedKeys: results.flatMap(result => result.unprocessedKeys)
+        };
+    }
+
+    async batchWrite(
+        tableName: string,
+        requests: WriteRequest[],
+        client: DynamoDBClient,
+        options: DynamoBatchOptions = {}
+    ): Promise<DynamoRawBatchWriteResult> {
+        const results = await mapWithConcurrency(
+            chunk(requests, MAX_BATCH_WRITE_REQUESTS),
+            options.concurrency ?? 4,
+            (chunkRequests) => this.withRetries(chunkRequests, options, async (pending) => {
+                const command = new BatchWriteItemCommand(
+                    this.observer.withConsumedCapacity({RequestItems: {[tableName]: pending}})
+                );
+                const response = await this.observer.observe(command, () => client.send(command));
+                return response?.UnprocessedItems?.[tableName] || [];
+            })
+        );
+
+        return {unprocessed: results.flat()};
+    }
+
+    /** Calls `send` with the pending entries until nothing is left or the retries are used up. */
+    private async withRetries<T>(
+        entries: T[],
+        options: DynamoBatchOptions,
+        send: (pending: T[]) => Promise<T[]>
+    ): Promise<T[]> {
+        const maxRetries = options.maxRetries ?? 5;
+        let pending = entries;
+
+        for (let attempt = 0; pending.length; attempt++) {
+            if (attempt > 0) {
+                if (attempt > maxRetries) break;
+                await sleep(computeBackoffDelay(attempt - 1, options));
+            }
+            pending = await send(pending);
+        }
+
+        return pending;
+    }
+}
@@ -0,0 +1,130 @@
+import {DynamoCacheEntry, DynamoCacheOptions, IDynamoCacheStore} from "./types/DynamoCache";
+import {IDynamoLogger} from "./types/DynamoObservability";
+import {consoleLogger} from "./DynamoObservability";
+
+/** In-process store that evicts the least recently used entry beyond `maxEntries`. */
+export class DynamoLruCacheStore implements IDynamoCacheStore {
+    private readonly entries = new Map<string, { entry: DynamoCacheEntry; expiresAt: number }>();
+
+    constructor(private readonly maxEntries = 1000) {
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: string): DynamoCacheEntry | undefined {
+        const stored = this.entries.get(key);
+        if (!stored) return undefined;
+        this.entries.delete(key);
+        if (stored.expiresAt <= Date.now()) return undefined;
+        this.entries.set(key, stored);
+        return stored.entry;
+    }
+
+    set(key: string, entry: DynamoCacheEntry, ttlMs: number): void {
+        this.entries.delete(key);
+        this.entries.set(key, {entry, expiresAt: Date.now() + ttlMs});
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key);
+    }
+}
+
+/** Serializes a query with sorted object keys, so equal queries share a cache key. */
+export function normalizeQuery(query: unknown): string {
+    return JSON.stringify(query, (_, value) => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+        : value);
+}
+
+/**
+ * Read-through cache for `DynamoDBService` reads. Concurrent reads of the same key share
+ * one request. Writes through a service drop the written items and every cached query of
+ * the table; reads that were in flight during a write are not cached.
+ *
+ * Query invalidation is tracked per process: with an external store, queries cached by
+ * other processes stay until they expire.
+ */
+export class DynamoCache {
+    private readonly store: IDynamoCacheStore;
+    private readonly logger: IDynamoLogger;
+    private readonly generations = new Map<string, number>();
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+
+    constructor(private readonly options: DynamoCacheOptions = {}) {
+        this.store = options.store ?? new DynamoLruCacheStore();
+        this.logger = options.logger ?? consoleLogger;
+    }
+
+    async getItem<T>(tableName: string, identity: string, load: () => Promise<T | undefined>): Promise<T | undefined> {
+        return this.read(tableName, `${tableName}:item:${identity}`, load, item => this.ttlOf(item));
+    }
+
+    async getQuery<T extends { data: unknown[] }>(tableName: string, query: object, load: () => Promise<T>): Promise<T> {
+        const key = `${tableName}:query:${this.generation(tableName)}:${normalizeQuery(query)}`;
+        return (await this.read(tableName, key, load, result => result!.data.length
+            ? result!.data.reduce<number>((ttlMs, item) => Math.min(ttlMs, this.ttlOf(item)), Infinity)
+            : this.ttlOf(undefined)))!;
+    }
+
+    /** Drops the cached items with the given key identities and all cached queries of the table. */
+    async invalidate(tableName: string, identities: string[]): Promise<void> {
+        this.generations.set(tableName, this.generation(tableName) + 1);
+        await Promise.all(identities.map(identity => this.attempt('delete', () =>
+            this.store.delete(`${tableName}:item:${identity}`))));
+    }
+
+    private async read<T>(
+        tableName: string,
+        key: string,
+        load: () => Promise<T | undefined>,
+        ttlOf: (value: T | undefined) => number
+    ): Promise<T | undefined> {
+        const hit = await this.attempt('get', () => this.store.get(key));
+        if (hit) {
+            return structuredClone(hit.value) as T | undefined;
+        }
+
+        const generation = this.generation(tableName);
+        const flightKey = `${generation}:${key}`;
+        let pending = this.inFlight.get(flightKey) as Promise<T | undefined> | undefined;
+        if (!pending) {
+            pending = load().then(async value => {
+                const ttlMs = ttlOf(value);
+                if (ttlMs > 0 && this.generation(tableName) === generation) {
+                    await this.attempt('set', () => this.store.set(key, {value: structuredClone(value)}, ttlMs));
+                }
+                return value;
+            }).finally(() => this.inFlight.delete(flightKey));
+            this.inFlight.set(flightKey, pending);
+        }
+        return structuredClone(await pending);
+    }
+
+    private ttlOf(item: unknown): number {
+        const type = (item as Record<string, unknown> | undefined)?.[this.options.typeAttribute ?? 'entityType'];
+        return (typeof type === 'string' ? this.options.entityTtlMs?.[type] : undefined) ?? this.options.ttlMs ?? 60_000;
+    }
+
+    private generation(tableName: string): number {
+        return this.generations.get(tableName) ?? 0;
+    }
+
+    private async attempt<T>(operation: string, run: () => T | Promise<T>): Promise<T | undefined> {
+        try {
+            return await run();
+        } catch (error) {
+            this.logger.error(`DynamoDB cache ${operation} failed`, {error});
+            return undefined;
+        }
+    }
+}
+
+export function resolveCache(cache?: DynamoCacheOptions | DynamoCache): DynamoCache | undefined {
+    return !cache || cache instanceof DynamoCache ? cache : new DynamoCache(cache);
+}
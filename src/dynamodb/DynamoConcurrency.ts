@@ -0,0 +1,43 @@
+export interface DynamoBackoffOptions {
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Exponential backoff with full jitter: a random delay in `[0, min(max, base * 2^attempt))`. */
+export function computeBackoffDelay(attempt: number, options: DynamoBackoffOptions = {}): number {
+    const {baseDelayMs = 50, maxDelayMs = 2000} = options;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+}
+
+/** Runs `fn` for every item with at most `concurrency` calls in flight, keeping result order. */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({length: Math.max(1, Math.min(concurrency, items.length))}, worker));
+    return results;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
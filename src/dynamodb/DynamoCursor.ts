@@ -0,0 +1,63 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {createHmac, timingSafeEqual} from "crypto";
+import {DynamoValidationError} from "@denis_bruns/core";
+
+const CURSOR_VERSION = 1;
+const KEY_VALUE_TYPES = ['S', 'N', 'B'];
+
+function sign(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function encodeCursor(key: Record<string, AttributeValue>, secret?: string): string {
+    const payload = Buffer.from(JSON.stringify({v: CURSOR_VERSION, k: key})).toString('base64url');
+    return secret ? `${payload}.${sign(payload, secret)}` : payload;
+}
+
+/**
+ * Decodes a cursor into an `ExclusiveStartKey`. With `keyAttributes`, the key must consist of
+ * exactly these attributes with scalar values, so unsigned cursors cannot smuggle in other data.
+ */
+export function decodeCursor(cursor: string, secret?: string, keyAttributes?: string[]): Record<string, AttributeValue> {
+    if (typeof cursor !== 'string' || !cursor) {
+        throw new DynamoValidationError('Cursor must be a non-empty string');
+    }
+
+    const [payload, signature, ...rest] = cursor.split('.');
+    if (rest.length) {
+        throw new DynamoValidationError('Malformed cursor');
+    }
+
+    if (secret) {
+        const expected = Buffer.from(sign(payload, secret));
+        const actual = Buffer.from(signature ?? '');
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            throw new DynamoValidationError('Cursor signature is invalid');
+        }
+    } else if (signature !== undefined) {
+        throw new DynamoValidationError('Signed cursor given but no cursor secret is configured');
+    }
+
+    let decoded: any;
+    try {
+        decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        throw new DynamoValidationError('Malformed cursor');
+    }
+
+    if (!decoded || decoded.v !== CURSOR_VERSION || !decoded.k || typeof decoded.k !== 'object') {
+        throw new DynamoValidationError('Malformed cursor');
+    }
+
+    if (keyAttributes) {
+        const attributes = Object.keys(decoded.k);
+        const isKeyValue = (value: unknown) => !!value && typeof value === 'object'
+            && Object.keys(value).length === 1 && KEY_VALUE_TYPES.some(type => type in value);
+        if (attributes.length !== keyAttributes.length
+            || !keyAttributes.every(attribute => attributes.includes(attribute) && isKeyValue(decoded.k[attribute]))) {
+            throw new DynamoValidationError('Cursor does not match the keys of the table or index');
+        }
+    }
+
+    return decoded.k;
+}
@@ -1,9 +1,21 @@
 import {DynamoExpression} from './types/DynamoExpression';
-import {toDynamoDBValue} from "./DynamoUtils";
-import {validateFieldName, validateValue} from "./DynamoValidator";
-import {IFilterQuery, DynamoValidationError} from "@denis_bruns/core";
+import {DynamoFilterGroup, DynamoFilterNode, IDynamoFilter} from "./types/DynamoFilter";
+import {DynamoKeySchema} from "./types/DynamoIndex";
+import {defaultMarshaller, IDynamoMarshaller} from "./DynamoMarshaller";
+import {defaultValidationPolicy, DynamoValidationPolicy} from "./DynamoValidator";
+import {DynamoValidationError} from "@denis_bruns/core";
 import {BaseExpressionBuilder} from "@denis_bruns/database-core";
 
+const SORT_KEY_OPERATORS = ["=", "<", "<=", ">", ">=", "between", "begins_with"];
+const VALUELESS_OPERATORS = ["exists", "not exists"];
+const COMPARISON_OPERATORS = ["=", "!=", "<", "<=", ">", ">=", "begins_with"];
+const LIST_OPERATORS = ["in", "not in", "between"];
+const ATTRIBUTE_TYPES = ["S", "SS", "N", "NS", "B", "BS", "BOOL", "NULL", "L", "M"];
+const SIZE_COMPARISONS = ["=", "!=", "<", "<=", ">", ">="];
+const MAX_IN_OPERANDS = 100;
+const MAX_GROUP_DEPTH = 10;
+const PROJECTION_PART_REGEX = /^([^[\]]+)((?:\[\d+])*)$/;
+
 export class DynamoDBExpressionBuilder extends BaseExpressionBuilder<DynamoExpression> {
     private readonly operatorMap: Record<string, string> = {
         "<": "<",
@@ -18,32 +30,152 @@ export class DynamoDBExpressionBuilder extends BaseExpressionBuilder<DynamoExpre
         "not like": "NOT contains"
     };
 
-    buildFilterExpression(filters: IFilterQuery[]): DynamoExpression {
+    private readonly tableKeys: DynamoKeySchema;
+
+    constructor(
+        pkName: string,
+        skName?: string,
+        private readonly marshaller: IDynamoMarshaller = defaultMarshaller,
+        private readonly validation: DynamoValidationPolicy = defaultValidationPolicy
+    ) {
+        super(pkName);
+        this.tableKeys = {pkName, skName};
+    }
+
+    /**
+     * `keys` selects the key schema used for the key condition, e.g. the one of a
+     * secondary index. Defaults to the table's own keys. Key conditions are only taken
+     * from filters ANDed at the top level; filter groups may not reference key attributes
+     * once a key condition is used, as DynamoDB rejects those in a query filter.
+     */
+    buildFilterExpression(filters: DynamoFilterNode[], keys: DynamoKeySchema = this.tableKeys): DynamoExpression {
         if (!filters.length) return {};
 
-        filters.forEach(filter => {
-            validateFieldName(filter.field);
-            validateValue(filter.value);
-        });
+        filters.forEach(filter => this.validateNode(filter));
 
         const expr: DynamoExpression = {
             ExpressionAttributeNames: {},
             ExpressionAttributeValues: {}
         };
 
-        const {pkFilter, remainingFilters} = this.extractPartitionKeyFilter(filters);
-
-        if (pkFilter) {
+        const {keyConditions, filters: nonKeyFilters} = this.splitKeyConditions(filters, keys);
+        if (keyConditions.length) {
+            const [pkFilter, ...skFilters] = keyConditions;
             this.addPartitionKeyExpression(expr, pkFilter);
+            if (skFilters.length) {
+                this.addSortKeyExpression(expr, skFilters);
+            }
+
+            nonKeyFilters.filter(isFilterGroup).forEach(group => {
+                const keyField = collectFilters(group)
+                    .find(filter => filter.field === keys.pkName || filter.field === keys.skName);
+                if (keyField) {
+                    throw new DynamoValidationError(
+                        `Key attribute ${keyField.field} cannot be used in a filter group of a query`
+                    );
+                }
+            });
         }
 
-        if (remainingFilters.length) {
-            this.addFilterExpressions(expr, remainingFilters);
+        if (nonKeyFilters.length) {
+            this.addFilterExpressions(expr, nonKeyFilters);
         }
 
         return expr;
     }
 
+    /**
+     * Splits top-level filters into the key conditions of `keys` (partition key equality
+     * first, then sort key filters) and the filters applied after reading. Without a
+     * partition key equality there are no key conditions.
+     */
+    splitKeyConditions(
+        filters: DynamoFilterNode[],
+        keys: DynamoKeySchema = this.tableKeys
+    ): { keyConditions: IDynamoFilter[]; filters: DynamoFilterNode[] } {
+        const conjuncts = splitConjuncts(filters);
+        const pkFilter = conjuncts.find((filter): filter is IDynamoFilter =>
+            !isFilterGroup(filter) && filter.field === keys.pkName && filter.operator === "=");
+        if (!pkFilter) {
+            return {keyConditions: [], filters: conjuncts};
+        }
+
+        const remainingFilters = conjuncts.filter(filter => filter !== pkFilter);
+        const skFilters = remainingFilters.filter((filter): filter is IDynamoFilter =>
+            !isFilterGroup(filter) && !!keys.skName && filter.field === keys.skName);
+        return {
+            keyConditions: [pkFilter, ...skFilters],
+            filters: remainingFilters.filter(filter => !skFilters.includes(filter as IDynamoFilter))
+        };
+    }
+
+    /**
+     * Builds a `ConditionExpression` for writes. Unlike `buildFilterExpression`, key
+     * attributes are compared like any other attribute.
+     */
+    buildConditionExpression(conditions: DynamoFilterNode[]): DynamoExpression {
+        if (!conditions.length) return {};
+
+        conditions.forEach(condition => this.validateNode(condition));
+
+        const expr: DynamoExpression = {
+            ExpressionAttributeNames: {},
+            ExpressionAttributeValues: {}
+        };
+        const counter = {next: 0};
+        expr.ConditionExpression = conditions
+            .map(condition => this.buildNodeExpression(expr, condition, counter))
+            .join(" AND ");
+
+        return expr;
+    }
+
+    /** Builds a `FilterExpression` from all filters, without extracting key conditions. */
+    buildScanFilterExpression(filters: DynamoFilterNode[]): DynamoExpression {
+        const {ConditionExpression, ...expr} = this.buildConditionExpression(filters);
+        return ConditionExpression ? {...expr, FilterExpression: ConditionExpression} : expr;
+    }
+
+    /**
+     * Builds a `ProjectionExpression` from attribute paths. Paths may reach into maps with
+     * dots and into lists with indexes, e.g. `address.city` or `orders[0].total`.
+     */
+    buildProjectionExpression(fields: string[]): DynamoExpression {
+        const uniqueFields = [...new Set(fields)];
+        if (!uniqueFields.length) return {};
+
+        const expr: DynamoExpression = {ExpressionAttributeNames: {}};
+        const normalized = uniqueFields.map((field, index) => {
+            const parts = field.split(".").map(part => {
+                const match = PROJECTION_PART_REGEX.exec(part);
+                if (!match) {
+                    throw new DynamoValidationError(`Invalid projection path: ${field}`);
+                }
+                return {name: match[1], indexes: match[2]};
+            });
+            this.validation.validateFieldName(parts.map(part => part.name).join("."));
+
+            const path = parts
+                .map((part, idx) => {
+                    expr.ExpressionAttributeNames![`#prj${index}_${idx}`] = part.name;
+                    return `#prj${index}_${idx}${part.indexes}`;
+                })
+                .join(".");
+            return {field, path};
+        });
+
+        const contains = (outer: string, inner: string) => inner.startsWith(`${outer}.`) || inner.startsWith(`${outer}[`);
+        uniqueFields.forEach((field, i) => {
+            const other = uniqueFields.slice(i + 1).find(candidate => contains(field, candidate) || contains(candidate, field));
+            if (other !== undefined) {
+                throw new DynamoValidationError(`Projection paths overlap: ${field} and ${other}`);
+            }
+        });
+
+        expr.ProjectionExpression = normalized.map(({path}) => path).join(", ");
+        return expr;
+    }
+
     protected buildSubExpression(
         expr: DynamoExpression,
         field: string,
@@ -60,52 +192,231 @@ export class DynamoDBExpressionBuilder extends BaseExpressionBuilder<DynamoExpre
             .map((_, idx) => `#key${index}_${idx}`)
             .join(".");
 
+        const valueRef = `:val${index}`;
         switch (operator) {
             case 'like':
-                expr.ExpressionAttributeValues![`:val${index}`] = toDynamoDBValue(value);
-                return `contains(${path}, :val${index})`;
+                expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
+                return `contains(${path}, ${valueRef})`;
             case 'not like':
-                expr.ExpressionAttributeValues![`:val${index}`] = toDynamoDBValue(value);
-                return `NOT contains(${path}, :val${index})`;
+                expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
+                return `NOT contains(${path}, ${valueRef})`;
             case 'in':
-            case 'not in':
-                if (!Array.isArray(value)) {
-                    value = [value];
+            case 'not in': {
+                const values = Array.isArray(value) ? value : [value];
+                if (!values.length || values.length > MAX_IN_OPERANDS) {
+                    throw new DynamoValidationError(`${operator} expects between 1 and ${MAX_IN_OPERANDS} values`);
                 }
-                const conditions = value.map((v: any, i: any) => {
-                    expr.ExpressionAttributeValues![`:val${index}_${i}`] = toDynamoDBValue(v);
-                    return `${path} = :val${index}_${i}`;
+                const refs = values.map((v: any, i: number) => {
+                    expr.ExpressionAttributeValues![`${valueRef}_${i}`] = this.marshaller.marshall(v);
+                    return `${valueRef}_${i}`;
                 });
-                return operator === 'in'
-                    ? `(${conditions.join(' OR ')})`
-                    : `NOT (${conditions.join(' OR ')})`;
-            default:
-                expr.ExpressionAttributeValues![`:val${index}`] = toDynamoDBValue(value);
+                const condition = `${path} IN (${refs.join(", ")})`;
+                return operator === 'in' ? condition : `NOT (${condition})`;
+            }
+            case 'between':
+                if (!Array.isArray(value) || value.length !== 2) {
+                    throw new DynamoValidationError('between expects a [lower, upper] value pair');
+                }
+                expr.ExpressionAttributeValues![`${valueRef}_0`] = this.marshaller.marshall(value[0]);
+                expr.ExpressionAttributeValues![`${valueRef}_1`] = this.marshaller.marshall(value[1]);
+                return `${path} BETWEEN ${valueRef}_0 AND ${valueRef}_1`;
+            case 'begins_with':
+                if (typeof value !== "string" && !(value instanceof Uint8Array)) {
+                    throw new DynamoValidationError('begins_with expects a string or binary value');
+                }
+                expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
+                return `begins_with(${path}, ${valueRef})`;
+            case 'exists':
+                return `attribute_exists(${path})`;
+            case 'not exists':
+                return `attribute_not_exists(${path})`;
+            case 'type':
+                if (!ATTRIBUTE_TYPES.includes(value)) {
+                    throw new DynamoValidationError(`type expects one of ${ATTRIBUTE_TYPES.join(", ")}`);
+                }
+                expr.ExpressionAttributeValues![valueRef] = {S: value};
+                return `attribute_type(${path}, ${valueRef})`;
+            default: {
+                if (operator.startsWith("size ")) {
+                    return this.buildSizeCondition(expr, path, operator, value, valueRef);
+                }
+                expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
                 const dynOp = this.operatorMap[operator];
                 if (!dynOp) {
                     throw new DynamoValidationError(`Unsupported operator: ${operator}`);
                 }
-                return `${path} ${dynOp} :val${index}`;
+                return `${path} ${dynOp} ${valueRef}`;
+            }
+        }
+    }
+
+    private buildSizeCondition(
+        expr: DynamoExpression,
+        path: string,
+        operator: string,
+        value: any,
+        valueRef: string
+    ): string {
+        const comparison = operator.slice("size ".length);
+        if (!SIZE_COMPARISONS.includes(comparison)) {
+            throw new DynamoValidationError(`Unsupported operator: ${operator}`);
         }
+        if (!Number.isInteger(value) || value < 0) {
+            throw new DynamoValidationError(`${operator} expects a non-negative integer`);
+        }
+        expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
+        return `size(${path}) ${this.operatorMap[comparison]} ${valueRef}`;
+    }
+
+    /** Operators without a value must not get one; all others need a valid value. */
+    private validateFilter(filter: IDynamoFilter): void {
+        this.validation.validateFieldName(filter.field);
+        this.validation.validateOperator(filter.field, filter.operator);
+        if (!VALUELESS_OPERATORS.includes(filter.operator)) {
+            this.validation.validateValue(filter.value);
+            this.operands(filter).forEach(operand =>
+                this.validation.validateType(filter.field, this.marshaller.marshall(operand)));
+        } else if (filter.value !== undefined) {
+            throw new DynamoValidationError(`${filter.operator} takes no value`);
+        }
+    }
+
+    /** Values compared with the attribute itself, as opposed to its size, type or elements. */
+    private operands(filter: IDynamoFilter): any[] {
+        if (COMPARISON_OPERATORS.includes(filter.operator)) return [filter.value];
+        if (LIST_OPERATORS.includes(filter.operator) && Array.isArray(filter.value)) return filter.value;
+        return [];
     }
 
     private addPartitionKeyExpression(
         expr: DynamoExpression,
-        pkFilter: IFilterQuery
+        pkFilter: IDynamoFilter
     ): void {
         expr.KeyConditionExpression = "#pk = :pkVal";
         expr.ExpressionAttributeNames!["#pk"] = pkFilter.field;
-        expr.ExpressionAttributeValues![":pkVal"] = toDynamoDBValue(pkFilter.value);
+        expr.ExpressionAttributeValues![":pkVal"] = this.marshaller.marshall(pkFilter.value);
+    }
+
+    /**
+     * Queries cannot filter on key attributes, so every sort key filter has to fit into
+     * a single key condition. A `>=` and a `<=` filter are merged into `BETWEEN`.
+     */
+    private addSortKeyExpression(
+        expr: DynamoExpression,
+        skFilters: IDynamoFilter[]
+    ): void {
+        skFilters.forEach(filter => {
+            if (!SORT_KEY_OPERATORS.includes(filter.operator)) {
+                throw new DynamoValidationError(
+                    `Operator ${filter.operator} cannot be used on sort key ${filter.field} in a key condition`
+                );
+            }
+        });
+
+        let skFilter: IDynamoFilter;
+        if (skFilters.length === 1) {
+            skFilter = skFilters[0];
+        } else {
+            const lower = skFilters.find(filter => filter.operator === ">=");
+            const upper = skFilters.find(filter => filter.operator === "<=");
+            if (skFilters.length !== 2 || !lower || !upper) {
+                throw new DynamoValidationError(
+                    `Only one sort key condition, or a >= and <= pair, is supported on ${skFilters[0].field}`
+                );
+            }
+            skFilter = {field: lower.field, operator: "between", value: [lower.value, upper.value]};
+        }
+
+        expr.ExpressionAttributeNames!["#sk"] = skFilter.field;
+
+        switch (skFilter.operator) {
+            case "between":
+                if (!Array.isArray(skFilter.value) || skFilter.value.length !== 2) {
+                    throw new DynamoValidationError('between expects a [lower, upper] value pair');
+                }
+                expr.ExpressionAttributeValues![":skVal0"] = this.marshaller.marshall(skFilter.value[0]);
+                expr.ExpressionAttributeValues![":skVal1"] = this.marshaller.marshall(skFilter.value[1]);
+                expr.KeyConditionExpression += " AND #sk BETWEEN :skVal0 AND :skVal1";
+                break;
+            case "begins_with":
+                if (typeof skFilter.value !== "string") {
+                    throw new DynamoValidationError('begins_with expects a string value');
+                }
+                expr.ExpressionAttributeValues![":skVal"] = this.marshaller.marshall(skFilter.value);
+                expr.KeyConditionExpression += " AND begins_with(#sk, :skVal)";
+                break;
+            default:
+                expr.ExpressionAttributeValues![":skVal"] = this.marshaller.marshall(skFilter.value);
+                expr.KeyConditionExpression += ` AND #sk ${skFilter.operator} :skVal`;
+        }
     }
 
     private addFilterExpressions(
         expr: DynamoExpression,
-        filters: IFilterQuery[]
+        filters: DynamoFilterNode[]
     ): void {
-        const subExpressions = filters.map((filter, i) =>
-            this.buildSubExpression(expr, filter.field, filter.operator, filter.value, i)
-        );
+        const counter = {next: 0};
+        const subExpressions = filters.map(filter => this.buildNodeExpression(expr, filter, counter));
 
         expr.FilterExpression = subExpressions.join(" AND ");
     }
-}
\ No newline at end of file
+
+    /** `counter` keeps placeholder indexes unique across all groups of one expression. */
+    private buildNodeExpression(expr: DynamoExpression, node: DynamoFilterNode, counter: { next: number }): string {
+        if (!isFilterGroup(node)) {
+            return this.buildSubExpression(expr, node.field, node.operator, node.value, counter.next++);
+        }
+        if ('not' in node) {
+            return `NOT (${this.buildNodeExpression(expr, node.not, counter)})`;
+        }
+
+        const [children, joiner] = 'and' in node ? [node.and, " AND "] : [node.or, " OR "];
+        const parts = children.map(child => this.buildNodeExpression(expr, child, counter));
+        return parts.length === 1 ? parts[0] : `(${parts.join(joiner)})`;
+    }
+
+    private validateNode(node: DynamoFilterNode, depth = 1): void {
+        if (!isFilterGroup(node)) {
+            this.validateFilter(node);
+            return;
+        }
+        if (depth > MAX_GROUP_DEPTH) {
+            throw new DynamoValidationError(`Filter groups may be nested at most ${MAX_GROUP_DEPTH} levels deep`);
+        }
+        if ('not' in node) {
+            this.validateNode(node.not, depth + 1);
+            return;
+        }
+        const children = 'and' in node ? node.and : node.or;
+        if (!Array.isArray(children) || !children.length) {
+            throw new DynamoValidationError('Filter groups need at least one filter');
+        }
+        children.forEach(child => this.validateNode(child, depth + 1));
+    }
+}
+
+export function isFilterGroup(node: DynamoFilterNode): node is DynamoFilterGroup {
+    return 'and' in node || 'or' in node || 'not' in node;
+}
+
+/** Flattens top-level AND groups, the only filters a key condition may be taken from. */
+export function splitConjuncts(nodes: DynamoFilterNode[]): DynamoFilterNode[] {
+    return nodes.flatMap(node => isFilterGroup(node) && 'and' in node ? splitConjuncts(node.and) : [node]);
+}
+
+/** All filters of a group, at any depth. */
+export function collectFilters(node: DynamoFilterNode): IDynamoFilter[] {
+    if (!isFilterGroup(node)) return [node];
+    if ('not' in node) return collectFilters(node.not);
+    return ('and' in node ? node.and : node.or).flatMap(collectFilters);
+}
+
+/** Whether sort key filters fit into a key condition: one supported operator, or a `>=` and `<=` pair. */
+export function isSortKeyCondition(skFilters: IDynamoFilter[]): boolean {
+    if (skFilters.length === 1) {
+        return SORT_KEY_OPERATORS.includes(skFilters[0].operator);
+    }
+    return skFilters.length === 2
+        && skFilters.some(filter => filter.operator === ">=")
+        && skFilters.some(filter => filter.operator === "<=");
+}
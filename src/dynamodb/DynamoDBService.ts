@@ -1,30 +1,769 @@
-import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {
+    AttributeValue,
+    DeleteItemCommand,
+    DynamoDBClient,
+    GetItemCommand,
+    PutItemCommand,
+    TransactGetItem,
+    TransactWriteItem,
+    UpdateItemCommand,
+    WriteRequest
+} from "@aws-sdk/client-dynamodb";
 import {DynamoExpression} from './types/DynamoExpression';
 import {DynamoQueryExecutor} from './DynamoQueryExecutor';
-import {DynamoDBExpressionBuilder} from "./DynamoDBExpressionBuilder";
-import {validateFieldName, validatePagination} from "./DynamoValidator";
-import {fromDynamoDBValue, mapDynamoDBItemToType} from "./DynamoUtils";
-import {IGenericFilterQuery, IPaginatedResponse, IPaginationQuery, DynamoValidationError} from "@denis_bruns/core";
+import {DynamoBatchExecutor} from "./DynamoBatchExecutor";
+import {DynamoDBExpressionBuilder, isFilterGroup, isSortKeyCondition, splitConjuncts} from "./DynamoDBExpressionBuilder";
+import {DynamoUpdateExpressionBuilder, DynamoUpdatePatch} from "./DynamoUpdateExpressionBuilder";
+import {DynamoValidationPolicy, resolveValidationPolicy, validatePagination} from "./DynamoValidator";
+import {DynamoMarshallerOptions, IDynamoMarshaller, resolveMarshaller} from "./DynamoMarshaller";
+import {decodeCursor, encodeCursor} from "./DynamoCursor";
+import {
+    DynamoReadBudget,
+    DynamoReadOptions,
+    IDynamoFilterQuery,
+    IDynamoPaginatedResponse
+} from "./types/DynamoPagination";
+import {DynamoExplainResult, DynamoExplainWarning} from "./types/DynamoExplain";
+import {DynamoCommandHooks, IDynamoLogger} from "./types/DynamoObservability";
+import {DynamoCommandObserver} from "./DynamoObservability";
+import {DynamoRetryOptions} from "./types/DynamoRetry";
+import {DynamoValidationOptions} from "./types/DynamoValidation";
+import {DynamoLifecycleOptions} from "./types/DynamoLifecycle";
+import {DynamoRetryPolicy, resolveRetryPolicy} from "./DynamoRetryPolicy";
+import {DynamoCacheOptions} from "./types/DynamoCache";
+import {DynamoCache, resolveCache} from "./DynamoCache";
+import {DynamoFilterNode, IDynamoFilter} from "./types/DynamoFilter";
+import {DynamoIndexDefinition, DynamoKeySchema} from "./types/DynamoIndex";
+import {
+    DynamoDeleteOptions,
+    DynamoGetOptions,
+    DynamoKeyInput,
+    DynamoPutOptions,
+    DynamoTransactionDeleteOptions,
+    DynamoTransactionWriteOptions,
+    DynamoUpdateOptions,
+    DynamoWriteOptions
+} from "./types/DynamoWrite";
+import {
+    DynamoBatchGetOptions,
+    DynamoBatchGetResult,
+    DynamoBatchWriteOptions,
+    DynamoBatchWriteResult
+} from "./types/DynamoBatch";
+import {DynamoConcurrencyError, toDynamoError} from "./DynamoErrors";
+import {DynamoParallelScanOptions, DynamoParallelScanResult, DynamoScanQuery} from "./types/DynamoScan";
+import {IPaginationQuery, DynamoValidationError} from "@denis_bruns/core";
 import {BaseDatabaseService} from "@denis_bruns/database-core";
 
+export interface DynamoDBServiceOptions {
+    /** Name of the table's sort key. Filters on it are turned into key conditions. */
+    skName?: string;
+    /**
+     * Secondary indexes of the table. A query without a partition key equality on the table
+     * uses the first index whose partition key has an equality filter.
+     */
+    indexes?: DynamoIndexDefinition[];
+    /** When set, continuation cursors are HMAC-signed and verified with this secret. */
+    cursorSecret?: string;
+    /** Default safety limits for reads that follow `LastEvaluatedKey`. */
+    readBudget?: DynamoReadBudget;
+    /**
+     * Numeric attribute used for optimistic locking. Every write then requires the
+     * stored version to match the expected one and increments it.
+     */
+    versionAttribute?: string;
+    /**
+     * Marshaller, or options for a `DynamoMarshaller`, used for keys, written items,
+     * expression values and read items. Defaults to the backward compatible one.
+     */
+    marshaller?: IDynamoMarshaller | DynamoMarshallerOptions;
+    /**
+     * Refuses queries that would scan the table instead of querying the table or an index.
+     * Queries with `allowScan` and `parallelScan` are exempt. See `explain`.
+     */
+    strict?: boolean;
+    /** Receives errors and warnings instead of the console. */
+    logger?: IDynamoLogger;
+    /** Called before and after every command the service sends. */
+    hooks?: DynamoCommandHooks;
+    /** Retries on top of the SDK's; pass a `DynamoRetryPolicy` to share its budget between services. */
+    retry?: DynamoRetryOptions | DynamoRetryPolicy;
+    /** Limits and allowlists for field names and values; pass a `DynamoValidationPolicy` to share one. */
+    validation?: DynamoValidationOptions | DynamoValidationPolicy;
+    /** Turns `delete` into a soft delete that TTL purges later. */
+    lifecycle?: DynamoLifecycleOptions;
+    /**
+     * Serves `getById` and `fetchWithFiltersAndPagination` from a cache that writes through
+     * the service invalidate; pass a `DynamoCache` to share one between services.
+     * Consistent and projected reads bypass it.
+     */
+    cache?: DynamoCacheOptions | DynamoCache;
+}
+
 export class DynamoDBService extends BaseDatabaseService<DynamoExpression, DynamoDBClient> {
     protected readonly expressionBuilder: DynamoDBExpressionBuilder;
+    protected readonly queryExecutor: DynamoQueryExecutor;
+    protected readonly updateExpressionBuilder: DynamoUpdateExpressionBuilder;
+    protected readonly batchExecutor: DynamoBatchExecutor;
+    protected readonly marshaller: IDynamoMarshaller;
+    protected readonly options: DynamoDBServiceOptions;
+    /** Sends commands past the configured hooks; also used by `DynamoTransaction`. */
+    readonly observer: DynamoCommandObserver;
+    readonly validation: DynamoValidationPolicy;
+    readonly cache?: DynamoCache;
 
-    constructor(tableName: string, pkName: string = "id") {
-        const expressionBuilder = new DynamoDBExpressionBuilder(pkName);
-        const queryExecutor = new DynamoQueryExecutor();
+    constructor(tableName: string, pkName: string = "id", options: DynamoDBServiceOptions = {}) {
+        const observer = new DynamoCommandObserver(options.logger, options.hooks, resolveRetryPolicy(options.retry));
+        const marshaller = resolveMarshaller(options.marshaller, options.logger);
+        const validation = resolveValidationPolicy(options.validation);
+        const expressionBuilder = new DynamoDBExpressionBuilder(pkName, options.skName, marshaller, validation);
+        const queryExecutor = new DynamoQueryExecutor(options.readBudget, observer);
         super(tableName, pkName, expressionBuilder, queryExecutor);
         this.expressionBuilder = expressionBuilder;
+        this.queryExecutor = queryExecutor;
+        this.updateExpressionBuilder = new DynamoUpdateExpressionBuilder(marshaller, validation);
+        this.batchExecutor = new DynamoBatchExecutor(observer);
+        this.marshaller = marshaller;
+        this.options = options;
+        this.observer = observer;
+        this.validation = validation;
+        this.cache = resolveCache(options.cache);
+    }
+
+    async fetchWithFiltersAndPagination<T>(
+        query: IDynamoFilterQuery,
+        client: DynamoDBClient
+    ): Promise<IDynamoPaginatedResponse<T>> {
+        try {
+            return this.cache
+                ? await this.cache.getQuery(this.tableName, query, () => this.fetchPage<T>(query, client))
+                : await this.fetchPage<T>(query, client);
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Describes how `fetchWithFiltersAndPagination` would read `query`, without sending
+     * anything: the first command, which filters are key conditions, the work done in
+     * memory and warnings about reads that cost more than they return.
+     */
+    async explain(query: IDynamoFilterQuery): Promise<DynamoExplainResult> {
+        try {
+            const {params, limit, offset, pagination} = await this.prepareQueryParameters(query);
+            const cursor = this.isCursorQuery(query);
+            const plan: DynamoExplainResult = {
+                operation: 'None',
+                tableName: this.tableName,
+                keyConditions: [],
+                postFilters: [],
+                paginationMode: cursor ? 'cursor' : 'offset',
+                sortsInMemory: false,
+                slicesInMemory: false,
+                allowed: true,
+                warnings: []
+            };
+            if (limit === 0) {
+                return plan;
+            }
+
+            const read = this.readPlan(query, params, limit, offset, pagination);
+            const {keyConditions, filters} = params.KeyConditionExpression
+                ? this.expressionBuilder.splitKeyConditions(this.filterNodes(query), this.keySchemaFor(params.IndexName))
+                : {keyConditions: [], filters: splitConjuncts(this.filterNodes(query))};
+            Object.assign(plan, {
+                operation: params.KeyConditionExpression ? 'Query' : 'Scan',
+                indexName: params.IndexName,
+                command: this.queryExecutor.buildFirstPageCommand(read.params, read.options),
+                keyConditions,
+                postFilters: filters,
+                sortsInMemory: this.sortsInMemory(params, pagination),
+                slicesInMemory: !cursor && offset > 0,
+                allowed: !this.options.strict || !!query.allowScan || !!params.KeyConditionExpression
+            });
+            plan.warnings = this.explainWarnings(plan, pagination, offset);
+            return plan;
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    async getById<T>(
+        key: DynamoKeyInput,
+        client: DynamoDBClient,
+        options: DynamoGetOptions = {}
+    ): Promise<T | undefined> {
+        try {
+            const projection = this.expressionBuilder.buildProjectionExpression(options.fields || []);
+            const command = new GetItemCommand(this.observer.withConsumedCapacity({
+                TableName: this.tableName,
+                Key: this.buildKey(key),
+                ConsistentRead: options.consistentRead,
+                ProjectionExpression: projection.ProjectionExpression,
+                ExpressionAttributeNames: projection.ExpressionAttributeNames
+            }));
+            const load = async () => {
+                const response = await this.observer.observe(command, () => client.send(command));
+                return response?.Item ? this.marshaller.unmarshallItem<T>(response.Item) : undefined;
+            };
+            return this.cache && !options.consistentRead && !options.fields?.length
+                ? await this.cache.getItem(this.tableName, this.keyIdentity(command.input.Key!), load)
+                : await load();
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Writes a new item. Fails with a `DynamoConditionalCheckFailedError` when an item
+     * with the same key already exists. Versioned items start at version 1.
+     */
+    async create<T extends object>(
+        item: T,
+        client: DynamoDBClient,
+        options: DynamoWriteOptions = {}
+    ): Promise<T> {
+        try {
+            const versioned = this.withVersion(item, 1);
+            const command = new PutItemCommand(this.observer.withConsumedCapacity({
+                ...this.buildPutInput(item, options, true),
+                ...this.conditionFailureInput(options)
+            }));
+            await this.observer.observe(command, () => client.send(command));
+            await this.invalidateCache([command.input.Item!]);
+            return versioned as T;
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates or replaces an item. Returns the previous item when `returnValues` is `ALL_OLD`.
+     * With versioning, the item's version attribute is the expected stored version;
+     * items without one may only replace items without one.
+     */
+    async put<T extends object>(
+        item: T,
+        client: DynamoDBClient,
+        options: DynamoPutOptions = {}
+    ): Promise<T | undefined> {
+        try {
+            const command = new PutItemCommand(this.observer.withConsumedCapacity({
+                ...this.buildPutInput(item, options),
+                ...this.versionFailureInput(options),
+                ReturnValues: options.returnValues
+            }));
+            const response = await this.observer.observe(command, () => client.send(command));
+            await this.invalidateCache([command.input.Item!]);
+            return response?.Attributes ? this.marshaller.unmarshallItem<T>(response.Attributes) : undefined;
+        } catch (error) {
+            this.handleError(this.toVersionConflict(error, item, () => this.expectedVersion(options, item)));
+            throw error;
+        }
+    }
+
+    /**
+     * Applies a partial patch to an item, leaving all other attributes untouched.
+     * See `DynamoUpdateExpressionBuilder` for paths, removals and update actions.
+     * Key attributes in the patch are ignored. With versioning, `expectedVersion` (or the
+     * version attribute in the patch) is required.
+     */
+    async update<T>(
+        key: DynamoKeyInput,
+        patch: DynamoUpdatePatch<T>,
+        client: DynamoDBClient,
+        options: DynamoUpdateOptions = {}
+    ): Promise<T | undefined> {
+        try {
+            const command = new UpdateItemCommand(this.observer.withConsumedCapacity({
+                ...this.buildUpdateInput(key, patch, options),
+                ...this.versionFailureInput(options),
+                ReturnValues: options.returnValues ?? 'ALL_NEW'
+            }));
+            const response = await this.observer.observe(command, () => client.send(command));
+            await this.invalidateCache([command.input.Key!]);
+            return response?.Attributes ? this.marshaller.unmarshallItem<T>(response.Attributes) : undefined;
+        } catch (error) {
+            this.handleError(this.toVersionConflict(error, key, () => this.expectedVersion(options, patch)));
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes an item. Returns the deleted item when `returnValues` is `ALL_OLD`.
+     * With versioning, `expectedVersion` is required. With a `lifecycle`, the item is marked
+     * as deleted instead, which fails for missing and already deleted items; pass
+     * `permanent` to remove it.
+     */
+    async delete<T>(
+        key: DynamoKeyInput,
+        client: DynamoDBClient,
+        options: DynamoDeleteOptions = {}
+    ): Promise<T | undefined> {
+        try {
+            const input = {...this.versionFailureInput(options), ReturnValues: options.returnValues};
+            let response: { Attributes?: Record<string, AttributeValue> } | undefined;
+            if (this.softDeletes(options)) {
+                const command = new UpdateItemCommand(
+                    this.observer.withConsumedCapacity({...this.buildSoftDeleteInput(key, options), ...input})
+                );
+                response = await this.observer.observe(command, () => client.send(command));
+            } else {
+                const command = new DeleteItemCommand(
+                    this.observer.withConsumedCapacity({...this.buildDeleteInput(key, options), ...input})
+                );
+                response = await this.observer.observe(command, () => client.send(command));
+            }
+            await this.invalidateCache([this.buildKey(key)]);
+            return response?.Attributes ? this.marshaller.unmarshallItem<T>(response.Attributes) : undefined;
+        } catch (error) {
+            this.handleError(this.toVersionConflict(error, key, () => this.expectedVersion(options)));
+            throw error;
+        }
+    }
+
+    /** Brings back a soft-deleted item and returns it. Fails for items that are not deleted. */
+    async restore<T>(
+        key: DynamoKeyInput,
+        client: DynamoDBClient,
+        options: DynamoWriteOptions = {}
+    ): Promise<T | undefined> {
+        try {
+            const {deletedAttribute, ttlAttribute} = this.lifecycle();
+            const command = new UpdateItemCommand(this.observer.withConsumedCapacity({
+                ...this.buildUpdateInput(key, {[deletedAttribute]: undefined, [ttlAttribute]: undefined}, {
+                    ...options,
+                    conditions: [{field: deletedAttribute, operator: 'exists'}, ...(options.conditions || [])]
+                }),
+                ...this.versionFailureInput(options),
+                ReturnValues: 'ALL_NEW'
+            }));
+            const response = await this.observer.observe(command, () => client.send(command));
+            await this.invalidateCache([command.input.Key!]);
+            return response?.Attributes ? this.marshaller.unmarshallItem<T>(response.Attributes) : undefined;
+        } catch (error) {
+            this.handleError(this.toVersionConflict(error, key, () => this.expectedVersion(options)));
+            throw error;
+        }
+    }
+
+    /**
+     * Reads many items by key in chunks of 100. Duplicate keys are read once; the order
+     * of the returned items is not guaranteed.
+     */
+    async batchGet<T>(
+        keys: DynamoKeyInput[],
+        client: DynamoDBClient,
+        options: DynamoBatchGetOptions = {}
+    ): Promise<DynamoBatchGetResult<T>> {
+        try {
+            const uniqueKeys = new Map<string, Record<string, AttributeValue>>();
+            keys.map(key => this.buildKey(key)).forEach(key => uniqueKeys.set(this.keyIdentity(key), key));
+
+            const result = await this.batchExecutor.batchGet(
+                this.tableName,
+                [...uniqueKeys.values()],
+                client,
+                options,
+                this.expressionBuilder.buildProjectionExpression(options.fields || [])
+            );
+            return {
+                items: result.items.map(item => this.marshaller.unmarshallItem<T>(item)),
+                unprocessedKeys: result.unprocessedKeys.map(key => this.marshaller.unmarshallItem<Record<string, any>>(key))
+            };
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Puts and deletes items in chunks of 25 requests. Batch writes are not atomic and
+     * accept no conditions; every key may appear only once. With versioning, batch writes
+     * must opt out of the version check with `ignoreVersionCheck`; with a `lifecycle`, deletes
+     * must be marked `permanent`.
+     */
+    async batchWrite<T extends object>(
+        puts: T[],
+        deletes: DynamoKeyInput[],
+        client: DynamoDBClient,
+        options: DynamoBatchWriteOptions = {}
+    ): Promise<DynamoBatchWriteResult<T>> {
+        try {
+            if (this.options.versionAttribute && !options.ignoreVersionCheck) {
+                throw new DynamoValidationError(
+                    'Batch writes cannot check versions; use put, update, delete or a transaction instead'
+                );
+            }
+            if (deletes.length && this.softDeletes(options)) {
+                throw new DynamoValidationError(
+                    'Batch deletes cannot soft-delete; use delete or a transaction, or pass permanent'
+                );
+            }
+
+            const requests: WriteRequest[] = [
+                ...puts.map(item => ({PutRequest: {Item: this.marshallItem(item)}})),
+                ...deletes.map(key => ({DeleteRequest: {Key: this.buildKey(key)}}))
+            ];
+
+            const seen = new Set<string>();
+            requests.forEach(request => {
+                const identity = this.keyIdentity(request.PutRequest?.Item ?? request.DeleteRequest!.Key!);
+                if (seen.has(identity)) {
+                    throw new DynamoValidationError(`Duplicate key in batch write: ${identity}`);
+                }
+                seen.add(identity);
+            });
+
+            const result = await this.batchExecutor.batchWrite(this.tableName, requests, client, options);
+            await this.invalidateCache(requests.map(request => request.PutRequest?.Item ?? request.DeleteRequest!.Key!));
+            return {
+                unprocessedPuts: result.unprocessed
+                    .filter(request => request.PutRequest?.Item)
+                    .map(request => this.marshaller.unmarshallItem<T>(request.PutRequest!.Item!)),
+                unprocessedDeletes: result.unprocessed
+                    .filter(request => request.DeleteRequest?.Key)
+                    .map(request => this.marshaller.unmarshallItem<Record<string, any>>(request.DeleteRequest!.Key!))
+            };
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /** Drops the cached reads of the given keys, or whole items, and all cached queries of the table. */
+    async invalidateCache(keys: Record<string, AttributeValue>[]): Promise<void> {
+        await this.cache?.invalidate(this.tableName, keys.map(key => this.keyIdentity(key)));
+    }
+
+    /** Builds the `Put` of a `TransactWriteItems` request, see `DynamoTransaction`. */
+    toTransactPut(item: object, options: DynamoTransactionWriteOptions = {}, requireNew = false): TransactWriteItem {
+        return {
+            Put: {
+                ...this.buildPutInput(item, options, requireNew),
+                ...this.conditionFailureInput(options)
+            }
+        };
+    }
+
+    toTransactUpdate<T>(
+        key: DynamoKeyInput,
+        patch: DynamoUpdatePatch<T>,
+        options: DynamoTransactionWriteOptions = {}
+    ): TransactWriteItem {
+        return {
+            Update: {
+                ...this.buildUpdateInput(key, patch, options),
+                ...this.conditionFailureInput(options)
+            }
+        };
+    }
+
+    /** A soft delete becomes an `Update` on services with a `lifecycle`. */
+    toTransactDelete(key: DynamoKeyInput, options: DynamoTransactionDeleteOptions = {}): TransactWriteItem {
+        if (this.softDeletes(options)) {
+            return {
+                Update: {
+                    ...this.buildSoftDeleteInput(key, options),
+                    ...this.conditionFailureInput(options)
+                }
+            };
+        }
+        return {
+            Delete: {
+                ...this.buildDeleteInput(key, options),
+                ...this.conditionFailureInput(options)
+            }
+        };
+    }
+
+    toTransactConditionCheck(
+        key: DynamoKeyInput,
+        conditions: DynamoFilterNode[],
+        options: Omit<DynamoTransactionWriteOptions, 'conditions'> = {}
+    ): TransactWriteItem {
+        const expr = this.mergeConditions({}, conditions);
+        if (!expr.ConditionExpression) {
+            throw new DynamoValidationError('A condition check needs at least one condition');
+        }
+        return {
+            ConditionCheck: {
+                TableName: this.tableName,
+                Key: this.buildKey(key),
+                ConditionExpression: expr.ConditionExpression,
+                ...this.expressionInput(expr),
+                ...this.conditionFailureInput(options)
+            }
+        };
+    }
+
+    /** Maps a raw item with this service's marshaller, e.g. one read in a transaction. */
+    unmarshallItem<T>(item: Record<string, AttributeValue>): T {
+        return this.marshaller.unmarshallItem<T>(item);
+    }
+
+    toTransactGet(key: DynamoKeyInput): TransactGetItem {
+        return {
+            Get: {
+                TableName: this.tableName,
+                Key: this.buildKey(key)
+            }
+        };
+    }
+
+    /**
+     * Scans the whole table (or `query.indexName`) in parallel segments, applying the
+     * query's filters and projection. Pagination settings are ignored. Pass the last
+     * reported checkpoint back in to resume an interrupted scan.
+     */
+    async parallelScan<T>(
+        query: DynamoScanQuery,
+        client: DynamoDBClient,
+        options: DynamoParallelScanOptions<T>
+    ): Promise<DynamoParallelScanResult<T>> {
+        const {onItems} = options;
+        const result = await this.parallelScanRaw(query, client, {
+            ...options,
+            onItems: onItems && ((items, segment) =>
+                onItems(items.map(item => this.marshaller.unmarshallItem<T>(item)), segment))
+        });
+
+        return {
+            ...result,
+            items: result.items.map(item => this.marshaller.unmarshallItem<T>(item))
+        };
     }
 
-    protected async prepareQueryParameters(query: IGenericFilterQuery): Promise<{
+    /** Like `parallelScan`, but passes items on as DynamoDB returns them, without unmarshalling. */
+    async parallelScanRaw(
+        query: DynamoScanQuery,
+        client: DynamoDBClient,
+        options: DynamoParallelScanOptions<Record<string, AttributeValue>>
+    ): Promise<DynamoParallelScanResult<Record<string, AttributeValue>>> {
+        try {
+            const expr = this.expressionBuilder.buildScanFilterExpression(this.filterNodes(query));
+            expr.TableName = this.tableName;
+            if (query.indexName) {
+                this.keySchemaFor(query.indexName);
+                expr.IndexName = query.indexName;
+            }
+            if (query.fields?.length) {
+                this.addProjection(expr, query.fields, {});
+            }
+            return await this.queryExecutor.parallelScan(expr, client, options);
+        } catch (error) {
+            this.handleError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Checks an item as writes do, without sending it: field names, values, the validation
+     * policy's types and the key attributes. Throws a `DynamoValidationError`.
+     */
+    validateItem(item: object): void {
+        this.marshallItem(item);
+    }
+
+    private async fetchPage<T>(query: IDynamoFilterQuery, client: DynamoDBClient): Promise<IDynamoPaginatedResponse<T>> {
+        const {params, limit, offset, page, pagination} = await this.prepareQueryParameters(query);
+        if (limit === 0) {
+            return {data: [], total: 0, page, limit};
+        }
+
+        this.assertScanAllowed(query, params);
+
+        if (this.isCursorQuery(query)) {
+            return await this.fetchCursorPage<T>(query, params, limit, page, pagination, client);
+        }
+
+        const read = this.readPlan(query, params, limit, offset, pagination);
+        const result = await this.queryExecutor.executeQueryPages(read.params, client, read.options);
+
+        return {
+            data: this.processResults<T>(result.items, limit, offset, pagination),
+            total: result.items.length,
+            page,
+            limit,
+            hasMore: !!result.lastEvaluatedKey || result.items.length > offset + limit,
+            truncated: !!result.stoppedBy,
+            stoppedBy: result.stoppedBy
+        };
+    }
+
+    private async fetchCursorPage<T>(
+        query: IDynamoFilterQuery,
+        params: DynamoExpression,
+        limit: number,
+        page: number,
+        pagination: IPaginationQuery,
+        client: DynamoDBClient
+    ): Promise<IDynamoPaginatedResponse<T>> {
+        const read = this.readPlan(query, params, limit, 0, pagination);
+        const result = await this.queryExecutor.executeQueryPages(read.params, client, read.options);
+
+        const data = result.items.map(item => this.marshaller.unmarshallItem<T>(item));
+        return {
+            data,
+            total: data.length,
+            page,
+            limit,
+            nextCursor: result.lastEvaluatedKey
+                ? encodeCursor(result.lastEvaluatedKey, this.options.cursorSecret)
+                : undefined,
+            hasMore: !!result.lastEvaluatedKey,
+            truncated: !!result.stoppedBy,
+            stoppedBy: result.stoppedBy
+        };
+    }
+
+    /** The parameters and read options `fetchWithFiltersAndPagination` reads with. */
+    private readPlan(
+        query: IDynamoFilterQuery,
+        params: DynamoExpression,
+        limit: number,
+        offset: number,
+        pagination: IPaginationQuery
+    ): { params: DynamoExpression; options: DynamoReadOptions } {
+        if (this.isCursorQuery(query)) {
+            if (this.sortsInMemory(params, pagination)) {
+                throw new DynamoValidationError(
+                    'Cursor pagination can only sort by the sort key of a query on the table or index'
+                );
+            }
+            // Limit each request to the items still missing, so LastEvaluatedKey always
+            // points right behind the last item we return.
+            return {
+                params: {
+                    ...params,
+                    ExclusiveStartKey: query.cursor
+                        ? decodeCursor(query.cursor, this.options.cursorSecret, this.cursorKeyAttributes(params.IndexName))
+                        : undefined
+                },
+                options: {targetItemCount: limit, limitPagesToTarget: true}
+            };
+        }
+
+        // In-memory sorting needs every matching item, otherwise reading can
+        // stop as soon as the requested page is covered.
+        return {
+            params,
+            options: {targetItemCount: this.sortsInMemory(params, pagination) ? undefined : offset + limit}
+        };
+    }
+
+    private explainWarnings(
+        plan: DynamoExplainResult,
+        pagination: IPaginationQuery,
+        offset: number
+    ): DynamoExplainWarning[] {
+        const warnings: DynamoExplainWarning[] = [];
+        if (plan.operation === 'Scan') {
+            const source = plan.indexName ? `index ${plan.indexName}` : `table ${this.tableName}`;
+            warnings.push({
+                code: 'FULL_SCAN',
+                message: `Reads every item of ${source}; filter on the partition key of the table or of an index to query instead`
+            });
+        } else if (plan.postFilters.length) {
+            warnings.push({
+                code: 'POST_FILTER',
+                message: `${plan.postFilters.length} filter(s) are applied after reading; items they drop still consume read capacity`
+            });
+        }
+        if (plan.sortsInMemory) {
+            warnings.push({
+                code: 'IN_MEMORY_SORT',
+                message: `Sorting by ${pagination.sortBy} reads every matching item and sorts them in memory`
+            });
+        }
+        if (plan.slicesInMemory) {
+            warnings.push({
+                code: 'OFFSET_SLICING',
+                message: `Offset pagination reads and drops the first ${offset} items; use cursor pagination for deep pages`
+            });
+        }
+        return warnings;
+    }
+
+    private assertScanAllowed(query: IDynamoFilterQuery, params: DynamoExpression): void {
+        if (this.options.strict && !query.allowScan && !params.KeyConditionExpression) {
+            throw new DynamoValidationError(
+                `Refusing to scan table ${this.tableName} in strict mode; filter on the partition key `
+                + `of the table or of an index, or set allowScan`
+            );
+        }
+    }
+
+    private sortsInMemory(params: DynamoExpression, pagination?: IPaginationQuery): boolean {
+        if (!pagination?.sortBy) return false;
+        return !(params.KeyConditionExpression && pagination.sortBy === this.keySchemaFor(params.IndexName).skName);
+    }
+
+    /** Attributes of a `LastEvaluatedKey`: the table's keys, plus the index's keys when reading an index. */
+    private cursorKeyAttributes(indexName?: string): string[] {
+        const table = this.keySchemaFor();
+        const index = indexName ? this.keySchemaFor(indexName) : table;
+        return [...new Set([table.pkName, table.skName, index.pkName, index.skName])]
+            .filter((attribute): attribute is string => !!attribute);
+    }
+
+    /** Key attributes of the table, or of `indexName`. */
+    keySchemaFor(indexName?: string): DynamoKeySchema {
+        if (!indexName) {
+            return {pkName: this.pkName, skName: this.options.skName};
+        }
+        const index = this.options.indexes?.find(candidate => candidate.name === indexName);
+        if (!index) {
+            throw new DynamoValidationError(`Unknown index: ${indexName}`);
+        }
+        return index;
+    }
+
+    /**
+     * Picks the index to read from. The table wins when its partition key is filtered by
+     * equality and its sort key has a key condition. Otherwise an index, local or global,
+     * with a partition key equality and a sort key condition is preferred, then the table
+     * when its partition key is filtered, then an index whose sort key is not filtered;
+     * the remaining filters are applied after reading.
+     */
+    protected selectIndex(filters: IDynamoFilter[], indexName?: string): DynamoIndexDefinition | undefined {
+        if (indexName) {
+            this.keySchemaFor(indexName);
+            return this.options.indexes!.find(index => index.name === indexName);
+        }
+
+        const hasEquality = (field: string) =>
+            filters.some(filter => filter.field === field && filter.operator === '=');
+        const skFiltersOf = (skName?: string) => filters.filter(filter => !!skName && filter.field === skName);
+        const hasSortKeyCondition = (skName?: string) => {
+            const skFilters = skFiltersOf(skName);
+            return skFilters.length > 0 && isSortKeyCondition(skFilters);
+        };
+
+        const candidates = (this.options.indexes || []).filter(index => hasEquality(index.pkName));
+        const preferred = candidates.find(index => hasSortKeyCondition(index.skName));
+        if (hasEquality(this.pkName) && (hasSortKeyCondition(this.options.skName) || !preferred)) {
+            return undefined;
+        }
+        return preferred || candidates.find(index => !skFiltersOf(index.skName).length);
+    }
+
+    private isCursorQuery(query: IDynamoFilterQuery): boolean {
+        return query?.paginationMode === 'cursor' || (query?.cursor !== undefined && query?.paginationMode !== 'offset');
+    }
+
+    protected async prepareQueryParameters(query: IDynamoFilterQuery): Promise<{
         params: DynamoExpression;
         limit: number;
         offset: number;
         page: number;
         pagination: IPaginationQuery;
     }> {
-        const {pagination = {}, filters = []} = query;
+        const {pagination = {}} = query;
         validatePagination(pagination);
 
         const {limit, offset, page} = this.calculatePaginationValues(pagination);
@@ -38,11 +777,22 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
             };
         }
 
+        const filters = this.filterNodes(query);
+        const index = this.selectIndex(
+            splitConjuncts(filters).filter((filter): filter is IDynamoFilter => !isFilterGroup(filter)),
+            query.indexName
+        );
         const expr = this.buildQueryParams(
-            this.expressionBuilder.buildFilterExpression(filters),
+            this.expressionBuilder.buildFilterExpression(filters, index ?? this.keySchemaFor()),
             pagination
         );
         expr.TableName = this.tableName;
+        if (index) {
+            expr.IndexName = index.name;
+        }
+        if (query.fields?.length) {
+            this.addProjection(expr, query.fields, pagination);
+        }
 
         return {
             params: expr,
@@ -53,6 +803,29 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
         };
     }
 
+    /**
+     * The query's `filters` and `where` group, combined by AND. With a `lifecycle`, soft-deleted
+     * items and expired items TTL has not purged yet are excluded unless `includeDeleted` is set.
+     */
+    private filterNodes(query: Pick<IDynamoFilterQuery, 'filters' | 'where' | 'includeDeleted'>): DynamoFilterNode[] {
+        const nodes = [...(query.filters || []), ...(query.where ? [query.where] : [])];
+        if (!this.options.lifecycle || query.includeDeleted) {
+            return nodes;
+        }
+
+        const {deletedAttribute, ttlAttribute} = this.lifecycle();
+        return [
+            ...nodes,
+            {field: deletedAttribute, operator: 'not exists'},
+            {
+                or: [
+                    {field: ttlAttribute, operator: 'not exists'},
+                    {field: ttlAttribute, operator: '>', value: Math.floor(Date.now() / 1000)}
+                ]
+            }
+        ];
+    }
+
     protected processResults<T>(
         items: any[],
         limit: number,
@@ -68,13 +841,9 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
             const sortKey = pagination.sortBy;
             const scanForward = pagination.sortDirection !== 'desc';
 
-            items.slice(0, 5).forEach((item, index) => {
-                const val = fromDynamoDBValue(item[sortKey] || {S: ""});
-            });
-
             results = [...items].sort((a, b) => {
-                let aVal = a[sortKey] ? fromDynamoDBValue(a[sortKey]) : "";
-                let bVal = b[sortKey] ? fromDynamoDBValue(b[sortKey]) : "";
+                let aVal = this.sortValue(a[sortKey]);
+                let bVal = this.sortValue(b[sortKey]);
 
                 if (typeof aVal === "string" && typeof bVal === "string") {
                     return scanForward ? aVal.localeCompare(bVal) : bVal.localeCompare(aVal);
@@ -90,17 +859,279 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
 
         const endIndex = offset + limit;
         const sliced = results.slice(offset, endIndex);
-        return sliced.map(item => mapDynamoDBItemToType<T>(item));
+        return sliced.map(item => this.marshaller.unmarshallItem<T>(item));
+    }
+
+    /** Strings and numbers compare natively, everything else by its string form. */
+    private sortValue(value?: AttributeValue): any {
+        if (!value) return "";
+        if (value.S !== undefined) return value.S;
+        if (value.N !== undefined) return Number(value.N);
+        return String(this.marshaller.unmarshall(value));
     }
 
+    /** Logs the error and rethrows it, SDK errors mapped to the matching `DynamoError`. */
     protected handleError(error: any): void {
         if (error instanceof DynamoValidationError) {
-            console.error("Validation error:", error.message);
+            this.observer.logger.error("Validation error", {message: error.message, tableName: this.tableName});
             throw error;
         } else {
-            console.error("Error in DynamoDB operation:", error);
-            throw error;
+            this.observer.logger.error("Error in DynamoDB operation", {error, tableName: this.tableName});
+            throw toDynamoError(error, {
+                tableName: this.tableName,
+                unmarshallItem: item => this.marshaller.unmarshallItem<Record<string, any>>(item)
+            });
+        }
+    }
+
+    protected buildKey(key: DynamoKeyInput): Record<string, AttributeValue> {
+        const {pkName, skName} = this.keySchemaFor();
+        const isKeyObject = typeof key === 'object' && key !== null && !(key instanceof Uint8Array);
+        const keyValues: Record<string, any> = isKeyObject
+            ? key
+            : {[pkName]: key};
+
+        return [pkName, skName].reduce<Record<string, AttributeValue>>((result, name) => {
+            if (!name) return result;
+            if (keyValues[name] === undefined || keyValues[name] === null) {
+                throw new DynamoValidationError(`Key attribute ${name} is missing`);
+            }
+            this.validation.validateValue(keyValues[name]);
+            result[name] = this.marshaller.marshall(keyValues[name]);
+            return result;
+        }, {});
+    }
+
+    protected buildPutInput(item: object, options: DynamoWriteOptions, requireNew = false) {
+        const expected = requireNew ? undefined : this.expectedVersion(options, item);
+        const expr: DynamoExpression = requireNew
+            ? {ConditionExpression: "attribute_not_exists(#pk)", ExpressionAttributeNames: {"#pk": this.pkName}}
+            : this.versionCondition(expected);
+        return {
+            TableName: this.tableName,
+            Item: this.marshallItem(this.withVersion(item, (expected ?? 0) + 1)),
+            ...this.expressionInput(this.mergeConditions(expr, options.conditions))
+        };
+    }
+
+    protected buildUpdateInput(key: DynamoKeyInput, patch: DynamoUpdatePatch<any>, options: DynamoWriteOptions) {
+        const {pkName, skName} = this.keySchemaFor();
+        const versionAttribute = this.options.versionAttribute;
+        const attributes = Object.fromEntries(
+            Object.entries(patch || {})
+                .filter(([field]) => field !== pkName && field !== skName && field !== versionAttribute)
+        );
+
+        let versionExpr: DynamoExpression = {};
+        if (versionAttribute) {
+            const expected = this.requireExpectedVersion(options, patch);
+            attributes[versionAttribute] = expected + 1;
+            versionExpr = this.versionCondition(expected);
         }
+
+        const expr = this.mergeConditions(
+            this.andCondition(this.updateExpressionBuilder.buildUpdateExpression(attributes), versionExpr),
+            options.conditions
+        );
+        return {
+            TableName: this.tableName,
+            Key: this.buildKey(key),
+            UpdateExpression: expr.UpdateExpression,
+            ...this.expressionInput(expr)
+        };
+    }
+
+    protected buildDeleteInput(key: DynamoKeyInput, options: DynamoWriteOptions) {
+        const versionExpr = this.options.versionAttribute
+            ? this.versionCondition(this.requireExpectedVersion(options))
+            : {};
+        return {
+            TableName: this.tableName,
+            Key: this.buildKey(key),
+            ...this.expressionInput(this.mergeConditions(versionExpr, options.conditions))
+        };
+    }
+
+    /** Marks the item as deleted, provided it exists and is not deleted yet. */
+    protected buildSoftDeleteInput(key: DynamoKeyInput, options: DynamoWriteOptions) {
+        const {deletedAttribute, ttlAttribute, retentionSeconds} = this.lifecycle();
+        const now = Date.now();
+        const patch: Record<string, unknown> = {[deletedAttribute]: new Date(now).toISOString()};
+        if (retentionSeconds !== undefined) {
+            patch[ttlAttribute] = Math.floor(now / 1000) + retentionSeconds;
+        }
+        return this.buildUpdateInput(key, patch, {
+            ...options,
+            conditions: [
+                {field: this.pkName, operator: 'exists'},
+                {field: deletedAttribute, operator: 'not exists'},
+                ...(options.conditions || [])
+            ]
+        });
+    }
+
+    private softDeletes(options: Pick<DynamoDeleteOptions, 'permanent'>): boolean {
+        return !!this.options.lifecycle && !options.permanent;
+    }
+
+    private lifecycle() {
+        const lifecycle = this.options.lifecycle;
+        if (!lifecycle) {
+            throw new DynamoValidationError(`Service for ${this.tableName} has no lifecycle configured`);
+        }
+        return {
+            deletedAttribute: lifecycle.deletedAttribute ?? 'deletedAt',
+            ttlAttribute: lifecycle.ttlAttribute ?? 'expiresAt',
+            retentionSeconds: lifecycle.retentionSeconds
+        };
+    }
+
+    private withVersion(item: object, version: number): object {
+        const versionAttribute = this.options.versionAttribute;
+        return versionAttribute ? {...item, [versionAttribute]: version} : item;
+    }
+
+    /** The expected version is taken from the options or else from the item or patch. */
+    private expectedVersion(options: DynamoWriteOptions, itemOrPatch?: object): number | undefined {
+        const versionAttribute = this.options.versionAttribute;
+        if (!versionAttribute) return undefined;
+
+        const version = options.expectedVersion ?? (itemOrPatch as Record<string, any>)?.[versionAttribute];
+        if (version !== undefined && !Number.isInteger(version)) {
+            throw new DynamoValidationError(`Version attribute ${versionAttribute} must be an integer`);
+        }
+        return version;
+    }
+
+    private requireExpectedVersion(options: DynamoWriteOptions, patch?: object): number {
+        const expected = this.expectedVersion(options, patch);
+        if (!Number.isInteger(expected)) {
+            throw new DynamoValidationError(
+                `expectedVersion is required for writes to versioned table ${this.tableName}`
+            );
+        }
+        return expected!;
+    }
+
+    /** `undefined` expects an item without version, e.g. one written before versioning was enabled. */
+    private versionCondition(expected: number | undefined): DynamoExpression {
+        const versionAttribute = this.options.versionAttribute;
+        if (!versionAttribute) return {};
+        if (expected === undefined) {
+            return {
+                ConditionExpression: "attribute_not_exists(#ver)",
+                ExpressionAttributeNames: {"#ver": versionAttribute}
+            };
+        }
+        return {
+            ConditionExpression: "#ver = :expectedVer",
+            ExpressionAttributeNames: {"#ver": versionAttribute},
+            ExpressionAttributeValues: {":expectedVer": this.marshaller.marshall(expected)}
+        };
+    }
+
+    private versionFailureInput(options: DynamoWriteOptions) {
+        return this.options.versionAttribute
+            ? {ReturnValuesOnConditionCheckFailure: 'ALL_OLD' as const}
+            : this.conditionFailureInput(options);
+    }
+
+    /**
+     * Turns a failed condition into a `DynamoConcurrencyError` when the stored version
+     * differs from the expected one. Failures of caller conditions are left untouched.
+     */
+    private toVersionConflict(error: any, key: DynamoKeyInput, expectedVersion: () => number | undefined): unknown {
+        const versionAttribute = this.options.versionAttribute;
+        if (!versionAttribute || error?.name !== 'ConditionalCheckFailedException') {
+            return error;
+        }
+
+        const expected = expectedVersion();
+        const stored = error.Item ? this.marshaller.unmarshallItem<Record<string, any>>(error.Item) : undefined;
+        const actual = stored?.[versionAttribute];
+        if (stored ? actual === expected : expected === undefined) {
+            return error;
+        }
+        return new DynamoConcurrencyError(
+            this.tableName,
+            this.marshaller.unmarshallItem<Record<string, any>>(this.buildKey(key)),
+            expected,
+            actual,
+            error
+        );
+    }
+
+    private conditionFailureInput(options: DynamoWriteOptions) {
+        return options.returnItemOnConditionFailure
+            ? {ReturnValuesOnConditionCheckFailure: 'ALL_OLD' as const}
+            : {};
+    }
+
+    private keyIdentity(item: Record<string, AttributeValue>): string {
+        const {pkName, skName} = this.keySchemaFor();
+        return JSON.stringify([item[pkName], skName ? item[skName] : undefined]);
+    }
+
+    protected marshallItem(item: object): Record<string, AttributeValue> {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            throw new DynamoValidationError('Item must be an object');
+        }
+
+        const marshalled: Record<string, AttributeValue> = {};
+        for (const [field, value] of Object.entries(item)) {
+            if (value === undefined) continue;
+            this.validation.validateFieldName(field);
+            if (value !== null) this.validation.validateValue(value);
+            marshalled[field] = this.marshaller.marshall(value);
+            this.validation.validateType(field, marshalled[field]);
+        }
+        this.buildKey(item as Record<string, any>);
+        return marshalled;
+    }
+
+    private mergeConditions(expr: DynamoExpression, conditions: DynamoFilterNode[] = []): DynamoExpression {
+        return this.andCondition(expr, this.expressionBuilder.buildConditionExpression(conditions));
+    }
+
+    private andCondition(expr: DynamoExpression, condition: DynamoExpression): DynamoExpression {
+        if (!condition.ConditionExpression) {
+            return expr;
+        }
+
+        return {
+            ...expr,
+            ConditionExpression: expr.ConditionExpression
+                ? `${expr.ConditionExpression} AND (${condition.ConditionExpression})`
+                : condition.ConditionExpression,
+            ExpressionAttributeNames: {...expr.ExpressionAttributeNames, ...condition.ExpressionAttributeNames},
+            ExpressionAttributeValues: {...expr.ExpressionAttributeValues, ...condition.ExpressionAttributeValues}
+        };
+    }
+
+    private expressionInput(expr: DynamoExpression): Pick<
+        DynamoExpression,
+        'ConditionExpression' | 'ExpressionAttributeNames' | 'ExpressionAttributeValues'
+    > {
+        const isEmpty = (record?: object) => !record || !Object.keys(record).length;
+        return {
+            ConditionExpression: expr.ConditionExpression,
+            ExpressionAttributeNames: isEmpty(expr.ExpressionAttributeNames) ? undefined : expr.ExpressionAttributeNames,
+            ExpressionAttributeValues: isEmpty(expr.ExpressionAttributeValues) ? undefined : expr.ExpressionAttributeValues
+        };
+    }
+
+    /** Sorting in memory needs the sort attribute, so it is projected as well. */
+    private addProjection(expr: DynamoExpression, fields: string[], pagination: IPaginationQuery): void {
+        const projectedFields = this.sortsInMemory(expr, pagination) && !fields.includes(pagination.sortBy!)
+            ? [...fields, pagination.sortBy!]
+            : fields;
+        const projection = this.expressionBuilder.buildProjectionExpression(projectedFields);
+
+        expr.ProjectionExpression = projection.ProjectionExpression;
+        expr.ExpressionAttributeNames = {
+            ...expr.ExpressionAttributeNames,
+            ...projection.ExpressionAttributeNames
+        };
     }
 
     private buildQueryParams(expr: DynamoExpression, pagination?: IPaginationQuery): DynamoExpression {
@@ -119,9 +1150,7 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
             params.KeyConditionExpression = KeyConditionExpression;
 
             if (pagination?.sortBy) {
-                validateFieldName(pagination.sortBy);
-                params.ExpressionAttributeNames = params.ExpressionAttributeNames || {};
-                params.ExpressionAttributeNames['#sortKey'] = pagination.sortBy;
+                this.validation.validateFieldName(pagination.sortBy);
                 params.ScanIndexForward = pagination.sortDirection !== 'desc';
             }
         }
@@ -145,11 +1174,11 @@ export class DynamoDBService extends BaseDatabaseService<DynamoExpression, Dynam
 
 export function fetchWithFiltersAndPaginationDynamoDb<T>(
     tableName: string,
-    query: IGenericFilterQuery,
+    query: IDynamoFilterQuery,
     dynamoDBClient: DynamoDBClient,
     pkName = "id",
     _service?: DynamoDBService,
-): Promise<IPaginatedResponse<T>> {
+): Promise<IDynamoPaginatedResponse<T>> {
     if(_service) {
         return _service.fetchWithFiltersAndPagination<T>(query, dynamoDBClient);
     }else{
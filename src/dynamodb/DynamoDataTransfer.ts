@@ -0,0 +1,365 @@
+import {AttributeValue, DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {createInterface} from "readline";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "./DynamoDBService";
+import {mapDynamoDBItemToType} from "./DynamoUtils";
+import {sleep} from "./DynamoConcurrency";
+import {
+    DynamoCsvColumnType,
+    DynamoExportOptions,
+    DynamoExportResult,
+    DynamoImportOptions,
+    DynamoImportResult,
+    DynamoRejectedRow,
+    DynamoTransferFormat,
+    DynamoTransferSink,
+    DynamoTransferSource
+} from "./types/DynamoTransfer";
+
+const FORMATS: DynamoTransferFormat[] = ['dynamodb-json', 'jsonl', 'csv'];
+const UNSAFE_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+interface TransferRow {
+    line: number;
+    text: string;
+}
+
+/** Writes sets as arrays, binary values as base64 and big integers as strings. */
+function jsonReplacer(this: any, key: string, value: unknown): unknown {
+    const original = this[key];
+    if (original instanceof Uint8Array) return Buffer.from(original).toString('base64');
+    if (original instanceof Set) return [...original];
+    if (typeof original === 'bigint') return original.toString();
+    return value;
+}
+
+function toWriter(sink: DynamoTransferSink): (chunk: string) => Promise<void> {
+    if (typeof sink === 'function') {
+        return async chunk => sink(chunk);
+    }
+    return async chunk => {
+        if (!sink.write(chunk)) {
+            await new Promise<void>(resolve => sink.once('drain', resolve));
+        }
+    };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && !(value instanceof Set) && !(value instanceof Uint8Array);
+}
+
+/** Flattens nested maps and lists into `address.city` and `tags[0]` paths. */
+export function flattenItem(item: Record<string, unknown>): Record<string, unknown> {
+    const flat: Record<string, unknown> = {};
+    const visit = (value: unknown, path: string) => {
+        if (isPlainObject(value) && Object.keys(value).length) {
+            Object.entries(value).forEach(([name, nested]) => visit(nested, path ? `${path}.${name}` : name));
+        } else if (Array.isArray(value) && value.length) {
+            value.forEach((nested, index) => visit(nested, `${path}[${index}]`));
+        } else {
+            flat[path] = value;
+        }
+    };
+    visit(item, '');
+    return flat;
+}
+
+function parsePath(path: string): (string | number)[] {
+    const segments = [...path.matchAll(/([^.[\]]+)|\[(\d+)]/g)].map(([, name, index]) => name ?? Number(index));
+    if (!segments.length || typeof segments[0] === 'number' || segments.some(segment => UNSAFE_SEGMENTS.includes(String(segment)))) {
+        throw new DynamoValidationError(`Invalid CSV column: ${path}`);
+    }
+    return segments;
+}
+
+/** Reverses `flattenItem`. */
+export function unflattenItem(flat: Record<string, unknown>): Record<string, any> {
+    const item: Record<string, any> = {};
+    Object.entries(flat).forEach(([path, value]) => {
+        const segments = parsePath(path);
+        let parent: any = item;
+        segments.slice(0, -1).forEach((segment, index) => {
+            parent[segment] ??= typeof segments[index + 1] === 'number' ? [] : {};
+            parent = parent[segment];
+        });
+        parent[segments[segments.length - 1]] = value;
+    });
+    return item;
+}
+
+function formatCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'string' ? value
+        : value instanceof Uint8Array ? Buffer.from(value).toString('base64')
+            : typeof value === 'object' ? JSON.stringify(value, jsonReplacer)
+                : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: unknown[]): string {
+    return cells.map(formatCell).join(',') + '\n';
+}
+
+export function parseCsvRow(text: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell) {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell);
+            cell = '';
+        } else if (char !== '\r') {
+            cell += char;
+        }
+    }
+    if (quoted) {
+        throw new DynamoValidationError('Unterminated quoted CSV cell');
+    }
+    cells.push(cell);
+    return cells;
+}
+
+function parseCell(column: string, cell: string, type: DynamoCsvColumnType = 'string'): unknown {
+    switch (type) {
+        case 'number': {
+            const value = Number(cell);
+            if (Number.isNaN(value)) throw new DynamoValidationError(`Column ${column} is not a number: ${cell}`);
+            return value;
+        }
+        case 'boolean':
+            if (cell !== 'true' && cell !== 'false') throw new DynamoValidationError(`Column ${column} is not a boolean: ${cell}`);
+            return cell === 'true';
+        case 'json':
+            return JSON.parse(cell);
+        default:
+            return cell;
+    }
+}
+
+/** Turns base64 binary values of DynamoDB JSON back into bytes. */
+function decodeBinary(value: AttributeValue): AttributeValue {
+    const binary = value.B as unknown;
+    if (typeof binary === 'string') return {B: Buffer.from(binary, 'base64')};
+    if (value.BS) return {BS: value.BS.map((entry: unknown) => typeof entry === 'string' ? Buffer.from(entry, 'base64') : entry as Uint8Array)};
+    if (value.M) return {M: Object.fromEntries(Object.entries(value.M).map(([name, nested]) => [name, decodeBinary(nested)]))};
+    if (value.L) return {L: value.L.map(decodeBinary)};
+    return value;
+}
+
+async function* readLines(source: DynamoTransferSource): AsyncGenerator<string> {
+    if (typeof (source as NodeJS.ReadableStream).pipe === 'function') {
+        yield* createInterface({input: source as NodeJS.ReadableStream, crlfDelay: Infinity});
+    } else {
+        yield* source as Iterable<string> | AsyncIterable<string>;
+    }
+}
+
+/** Skips blank lines and joins CSV rows whose quoted cells span lines. */
+async function* readRows(source: DynamoTransferSource, format: DynamoTransferFormat): AsyncGenerator<TransferRow> {
+    let line = 0;
+    let pending: TransferRow | undefined;
+    for await (const text of readLines(source)) {
+        line++;
+        if (pending) {
+            pending.text += `\n${text}`;
+        } else if (!text.trim()) {
+            continue;
+        } else {
+            pending = {line, text};
+        }
+        if (format !== 'csv' || (pending.text.match(/"/g)?.length ?? 0) % 2 === 0) {
+            yield pending;
+            pending = undefined;
+        }
+    }
+    if (pending) {
+        yield pending;
+    }
+}
+
+/**
+ * Streams the items of a table to files and back, for fixtures, backups of small tables and
+ * copies between environments. Exports scan with `parallelScan`; imports validate every row,
+ * write with `batchWrite` and report the rows they reject instead of failing.
+ *
+ *     await new DynamoDataTransfer(users).export(createWriteStream('users.csv'), client, {format: 'csv'});
+ *     await new DynamoDataTransfer(users).import(createReadStream('users.csv'), client, {
+ *         format: 'csv',
+ *         columnTypes: {age: 'number'},
+ *         rejected: createWriteStream('users.rejected.jsonl')
+ *     });
+ */
+export class DynamoDataTransfer {
+    constructor(private readonly service: DynamoDBService) {
+    }
+
+    /**
+     * Writes the matching items in the given format while scanning. Without `columns`, the CSV
+     * header is taken from the first page; attributes of later items that are not in it are
+     * left out, logged and reported as `droppedColumns`.
+     */
+    async export(output: DynamoTransferSink, client: DynamoDBClient, options: DynamoExportOptions): Promise<DynamoExportResult> {
+        const {format} = options;
+        this.assertFormat(format);
+        const write = toWriter(output);
+        const dropped = new Set<string>();
+        let header = options.columns;
+        let itemsExported = 0;
+        let written = header && format === 'csv' ? write(csvLine(header)) : Promise.resolve();
+
+        await this.service.parallelScanRaw(options.query ?? {filters: []}, client, {
+            totalSegments: options.totalSegments ?? 1,
+            onItems: items => {
+                itemsExported += items.length;
+                let chunk = '';
+                if (format !== 'csv') {
+                    chunk = items.map(item => this.formatItem(item, format)).join('');
+                } else if (items.length) {
+                    const rows = items.map(item => flattenItem(mapDynamoDBItemToType(item)));
+                    if (!header) {
+                        header = [...new Set(rows.flatMap(row => Object.keys(row)))];
+                        chunk = csvLine(header);
+                    }
+                    const columns = header;
+                    rows.forEach(row => Object.keys(row)
+                        .filter(column => !columns.includes(column))
+                        .forEach(column => dropped.add(column)));
+                    chunk += rows.map(row => csvLine(columns.map(column => row[column]))).join('');
+                }
+                written = written.then(() => chunk ? write(chunk) : undefined);
+                return written;
+            }
+        });
+        await written;
+
+        if (dropped.size) {
+            this.service.observer.logger.warn("CSV export dropped attributes missing from the header", {
+                columns: [...dropped]
+            });
+            return {itemsExported, droppedColumns: [...dropped]};
+        }
+        return {itemsExported};
+    }
+
+    /**
+     * Imports rows in the given format. Rows that cannot be parsed, fail validation or stay
+     * unprocessed after the batch retries are counted and written to `rejected`.
+     */
+    async import(input: DynamoTransferSource, client: DynamoDBClient, options: DynamoImportOptions): Promise<DynamoImportResult> {
+        const {format, columnTypes = {}, batchSize = 25, maxItemsPerSecond, rejected, ...batchOptions} = options;
+        this.assertFormat(format);
+        const reject = rejected && toWriter(rejected);
+        const result: DynamoImportResult = {rowsRead: 0, itemsImported: 0, itemsRejected: 0};
+        const {pkName, skName} = this.service.keySchemaFor();
+        const keyOf = (item: Record<string, any>) => JSON.stringify([item[pkName], skName ? item[skName] : undefined]);
+        const started = Date.now();
+        let itemsSent = 0;
+        let header: string[] | undefined;
+        let batch: { row: TransferRow; item: Record<string, any> }[] = [];
+
+        const rejectRow = async (row: TransferRow, reason: string) => {
+            result.itemsRejected++;
+            const rejectedRow: DynamoRejectedRow = {line: row.line, reason, row: row.text};
+            await reject?.(JSON.stringify(rejectedRow) + '\n');
+        };
+        const flush = async () => {
+            if (!batch.length) return;
+            const rows = batch;
+            batch = [];
+            if (maxItemsPerSecond) {
+                await sleep(Math.max(0, started + itemsSent / maxItemsPerSecond * 1000 - Date.now()));
+            }
+            itemsSent += rows.length;
+
+            const {unprocessedPuts} = await this.service.batchWrite(rows.map(({item}) => item), [], client, batchOptions);
+            const unprocessed = new Set(unprocessedPuts.map(keyOf));
+            for (const row of rows) {
+                if (unprocessed.has(keyOf(row.item))) {
+                    await rejectRow(row.row, 'Unprocessed by DynamoDB after retries');
+                } else {
+                    result.itemsImported++;
+                }
+            }
+        };
+
+        for await (const row of readRows(input, format)) {
+            if (format === 'csv' && !header) {
+                header = parseCsvRow(row.text);
+                header.forEach(parsePath);
+                continue;
+            }
+            result.rowsRead++;
+
+            let item: Record<string, any>;
+            try {
+                item = this.parseRow(row.text, format, header, columnTypes);
+                this.service.validateItem(item);
+            } catch (error) {
+                await rejectRow(row, (error as Error).message);
+                continue;
+            }
+            if (batch.some(entry => keyOf(entry.item) === keyOf(item))) {
+                await flush();
+            }
+            batch.push({row, item});
+            if (batch.length >= batchSize) {
+                await flush();
+            }
+        }
+        await flush();
+        return result;
+    }
+
+    private formatItem(item: Record<string, AttributeValue>, format: 'dynamodb-json' | 'jsonl'): string {
+        return format === 'dynamodb-json'
+            ? JSON.stringify({Item: item}, jsonReplacer) + '\n'
+            : JSON.stringify(mapDynamoDBItemToType(item), jsonReplacer) + '\n';
+    }
+
+    private parseRow(
+        text: string,
+        format: DynamoTransferFormat,
+        header: string[] | undefined,
+        columnTypes: Record<string, DynamoCsvColumnType>
+    ): Record<string, any> {
+        if (format === 'csv') {
+            const cells = parseCsvRow(text);
+            if (cells.length !== header!.length) {
+                throw new DynamoValidationError(`Expected ${header!.length} cells, got ${cells.length}`);
+            }
+            return unflattenItem(Object.fromEntries(header!
+                .map((column, index) => [column, cells[index]])
+                .filter(([, cell]) => cell !== '')
+                .map(([column, cell]) => [column, parseCell(column, cell, columnTypes[column])])));
+        }
+
+        const parsed = JSON.parse(text);
+        if (!isPlainObject(parsed)) {
+            throw new DynamoValidationError('Row is not a JSON object');
+        }
+        if (format === 'jsonl') {
+            return parsed;
+        }
+        const typed = (parsed.Item ?? parsed) as Record<string, AttributeValue>;
+        return mapDynamoDBItemToType(Object.fromEntries(Object.entries(typed).map(([name, value]) => [name, decodeBinary(value)])));
+    }
+
+    private assertFormat(format: DynamoTransferFormat): void {
+        if (!FORMATS.includes(format)) {
+            throw new DynamoValidationError(`Unknown transfer format: ${format}`);
+        }
+    }
+}
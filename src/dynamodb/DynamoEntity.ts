@@ -0,0 +1,384 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoDBService} from "./DynamoDBService";
+import {collectFilters} from "./DynamoDBExpressionBuilder";
+import {DynamoUpdatePatch} from "./DynamoUpdateExpressionBuilder";
+import {validateFieldName} from "./DynamoValidator";
+import {DynamoEntityDefinition, DynamoEntityQuery, DynamoKeyTemplates} from "./types/DynamoEntity";
+import {IDynamoFilter} from "./types/DynamoFilter";
+import {DynamoKeySchema} from "./types/DynamoIndex";
+import {IDynamoFilterQuery, IDynamoPaginatedResponse} from "./types/DynamoPagination";
+import {
+    DynamoDeleteOptions,
+    DynamoGetOptions,
+    DynamoPutOptions,
+    DynamoUpdateOptions,
+    DynamoWriteOptions
+} from "./types/DynamoWrite";
+import {DynamoValidationError} from "@denis_bruns/core";
+
+const TEMPLATE_FIELD_REGEX = /\{([^{}]*)}/g;
+
+type TemplatePart = { literal: string } | { field: string };
+
+/** A parsed key template, e.g. `ORDER#{createdAt}#{orderId}`. */
+class DynamoKeyTemplate {
+    readonly parts: TemplatePart[] = [];
+
+    constructor(readonly template: string) {
+        let lastIndex = 0;
+        for (const match of template.matchAll(TEMPLATE_FIELD_REGEX)) {
+            if (match.index! > lastIndex) {
+                this.parts.push({literal: template.slice(lastIndex, match.index)});
+            }
+            validateFieldName(match[1]);
+            this.parts.push({field: match[1]});
+            lastIndex = match.index! + match[0].length;
+        }
+        if (lastIndex < template.length) {
+            this.parts.push({literal: template.slice(lastIndex)});
+        }
+    }
+
+    get fields(): string[] {
+        return this.parts.flatMap(part => 'field' in part ? [part.field] : []);
+    }
+
+    /**
+     * Renders the template up to its first field missing from `values`. `complete` tells
+     * whether every field was present.
+     */
+    renderPrefix(values: Record<string, any>): { value: string; complete: boolean } {
+        let value = "";
+        for (const part of this.parts) {
+            if ('literal' in part) {
+                value += part.literal;
+                continue;
+            }
+            const fieldValue = values[part.field];
+            if (fieldValue === undefined || fieldValue === null) {
+                return {value, complete: false};
+            }
+            if (!["string", "number", "bigint"].includes(typeof fieldValue)) {
+                throw new DynamoValidationError(`Key field ${part.field} must be a string or number`);
+            }
+            value += String(fieldValue);
+        }
+        return {value, complete: true};
+    }
+
+    render(values: Record<string, any>): string {
+        const {value, complete} = this.renderPrefix(values);
+        if (!complete) {
+            const missing = this.fields.filter(field => values[field] === undefined || values[field] === null);
+            throw new DynamoValidationError(`Key template ${this.template} is missing ${missing.join(", ")}`);
+        }
+        return value;
+    }
+}
+
+interface ParsedKeyTemplates {
+    schema: DynamoKeySchema;
+    pk: DynamoKeyTemplate;
+    sk?: DynamoKeyTemplate;
+}
+
+/**
+ * One entity type of a single-table design. Items are written with key attributes rendered
+ * from the entity's fields and a type attribute holding the entity name; reads return only
+ * items of this entity, reduced to the declared attributes.
+ */
+export class DynamoEntity<T extends object> {
+    readonly name: string;
+    readonly typeAttribute: string;
+    private readonly attributes: ReadonlySet<string>;
+    private readonly keyTemplates: ParsedKeyTemplates;
+    private readonly indexTemplates: Record<string, ParsedKeyTemplates>;
+
+    constructor(readonly service: DynamoDBService, definition: DynamoEntityDefinition<T>) {
+        if (!definition.name) {
+            throw new DynamoValidationError('Entity name cannot be empty');
+        }
+        this.name = definition.name;
+        this.typeAttribute = definition.typeAttribute ?? 'entityType';
+        this.attributes = new Set(definition.attributes);
+
+        this.keyTemplates = this.parseKeyTemplates(definition.keys, service.keySchemaFor());
+        this.indexTemplates = Object.fromEntries(
+            Object.entries(definition.indexes || {})
+                .map(([indexName, templates]) =>
+                    [indexName, this.parseKeyTemplates(templates, service.keySchemaFor(indexName))])
+        );
+
+        const reserved = [this.typeAttribute, ...this.keyAttributes()];
+        [...this.attributes, this.typeAttribute].forEach(attribute => service.validation.validateFieldName(attribute));
+        reserved.forEach(attribute => {
+            if (this.attributes.has(attribute)) {
+                throw new DynamoValidationError(
+                    `Attribute ${attribute} of entity ${this.name} collides with a key or type attribute`
+                );
+            }
+        });
+    }
+
+    /** The table key of the entity with the given fields. */
+    key(fields: Partial<T>): Record<string, string> {
+        return this.renderKey(this.keyTemplates, fields);
+    }
+
+    /** The stored item of an entity: declared attributes plus key and type attributes. */
+    toItem(entity: T): Record<string, any> {
+        const undeclared = Object.keys(entity).filter(attribute => !this.attributes.has(attribute));
+        if (undeclared.length) {
+            throw new DynamoValidationError(`Undeclared attributes for entity ${this.name}: ${undeclared.join(", ")}`);
+        }
+
+        const indexKeys = Object.values(this.indexTemplates)
+            .filter(templates => this.coversTemplates(templates, entity))
+            .map(templates => this.renderKey(templates, entity));
+
+        return Object.assign(
+            {},
+            entity,
+            ...indexKeys,
+            this.key(entity),
+            {[this.typeAttribute]: this.name}
+        );
+    }
+
+    /** Reduces a stored item to the declared attributes. */
+    fromItem(item: Record<string, any>): T {
+        return Object.fromEntries(
+            Object.entries(item).filter(([attribute]) => this.attributes.has(attribute))
+        ) as T;
+    }
+
+    /** Whether `attribute` is one of the declared attributes. */
+    declares(attribute: string): boolean {
+        return this.attributes.has(attribute);
+    }
+
+    isEntity(item: Record<string, any> | undefined): boolean {
+        return item?.[this.typeAttribute] === this.name;
+    }
+
+    async create(entity: T, client: DynamoDBClient, options: DynamoWriteOptions = {}): Promise<T> {
+        return this.fromItem(await this.service.create(this.toItem(entity), client, options));
+    }
+
+    /** Creates or replaces the entity; returns the previous one when `returnValues` is `ALL_OLD`. */
+    async put(entity: T, client: DynamoDBClient, options: DynamoPutOptions = {}): Promise<T | undefined> {
+        const previous = await this.service.put(this.toItem(entity), client, options);
+        return this.isEntity(previous) ? this.fromItem(previous!) : undefined;
+    }
+
+    /** Reads the entity with the given key fields. Items of other entities count as missing. */
+    async get(key: Partial<T>, client: DynamoDBClient, options: DynamoGetOptions = {}): Promise<T | undefined> {
+        const item = await this.service.getById<Record<string, any>>(this.key(key), client, {
+            ...options,
+            fields: options.fields && [...options.fields, this.typeAttribute]
+        });
+        return this.isEntity(item) ? this.fromItem(item!) : undefined;
+    }
+
+    /**
+     * Patches an existing entity; updates never create items. Fields of the table key templates
+     * cannot change; changing a field of an index key template requires all fields of that
+     * template in the patch or key.
+     */
+    async update(
+        key: Partial<T>,
+        patch: DynamoUpdatePatch<T>,
+        client: DynamoDBClient,
+        options: DynamoUpdateOptions = {}
+    ): Promise<T | undefined> {
+        const updated = await this.service.update<Record<string, any>>(
+            this.key(key),
+            this.toItemPatch(key, patch),
+            client,
+            {
+                ...options,
+                conditions: [...(options.conditions || []), {field: this.typeAttribute, operator: '=', value: this.name}]
+            }
+        );
+        return updated && this.isEntity(updated) ? this.fromItem(updated) : undefined;
+    }
+
+    async delete(key: Partial<T>, client: DynamoDBClient, options: DynamoDeleteOptions = {}): Promise<T | undefined> {
+        const deleted = await this.service.delete<Record<string, any>>(this.key(key), client, options);
+        return deleted && this.isEntity(deleted) ? this.fromItem(deleted) : undefined;
+    }
+
+    /** Queries items of this entity, see `DynamoEntityQuery`. */
+    async query(query: DynamoEntityQuery<T>, client: DynamoDBClient): Promise<IDynamoPaginatedResponse<T>> {
+        const response = await this.service.fetchWithFiltersAndPagination<Record<string, any>>(
+            this.toQuery(query),
+            client
+        );
+        return {
+            ...response,
+            data: response.data.filter(item => this.isEntity(item)).map(item => this.fromItem(item))
+        };
+    }
+
+    /** Translates an entity query into a service query with key conditions and a type filter. */
+    toQuery(query: DynamoEntityQuery<T>): IDynamoFilterQuery {
+        const {key, index, filters = [], fields, pagination = {}, ...rest} = query;
+        [...filters, ...(rest.where ? collectFilters(rest.where) : [])]
+            .forEach(filter => this.assertDeclared(filter.field));
+        fields?.forEach(field => this.assertDeclared(field));
+
+        return {
+            ...rest,
+            pagination,
+            indexName: index,
+            filters: [
+                ...this.keyConditions(key, index),
+                ...filters,
+                {field: this.typeAttribute, operator: '=', value: this.name}
+            ],
+            fields: fields && [...fields, this.typeAttribute]
+        };
+    }
+
+    /** Key conditions for all items of this entity that share the given key fields. */
+    keyConditions(key: Partial<T>, index?: string): IDynamoFilter[] {
+        const templates = index ? this.indexTemplates[index] : this.keyTemplates;
+        if (!templates) {
+            throw new DynamoValidationError(`Entity ${this.name} has no key templates for index ${index}`);
+        }
+
+        const conditions: IDynamoFilter[] = [
+            {field: templates.schema.pkName, operator: '=', value: templates.pk.render(key)}
+        ];
+        if (templates.sk) {
+            const {value, complete} = templates.sk.renderPrefix(key);
+            if (complete) {
+                conditions.push({field: templates.schema.skName!, operator: '=', value});
+            } else if (value) {
+                conditions.push({field: templates.schema.skName!, operator: 'begins_with', value});
+            }
+        }
+        return conditions;
+    }
+
+    private toItemPatch(key: Partial<T>, patch: DynamoUpdatePatch<T>): DynamoUpdatePatch<any> {
+        const paths = Object.keys(patch || {});
+        const roots = paths.map(path => path.split(".")[0]);
+        roots.forEach(root => this.assertDeclared(root));
+
+        const keyFields = [...this.keyTemplates.pk.fields, ...(this.keyTemplates.sk?.fields || [])];
+        const changedKeyField = roots.find(root => keyFields.includes(root));
+        if (changedKeyField) {
+            throw new DynamoValidationError(`Key field ${changedKeyField} of entity ${this.name} cannot be updated`);
+        }
+
+        const values: Record<string, any> = {...key, ...patch};
+        const itemPatch: DynamoUpdatePatch<any> = {...patch};
+        Object.values(this.indexTemplates).forEach(templates => {
+            const fields = [...templates.pk.fields, ...(templates.sk?.fields || [])];
+            if (!fields.some(field => roots.includes(field))) return;
+            if (!this.coversTemplates(templates, values)) {
+                throw new DynamoValidationError(
+                    `Updating ${fields.filter(field => roots.includes(field)).join(", ")} requires ${fields.join(", ")}`
+                );
+            }
+            Object.assign(itemPatch, this.renderKey(templates, values));
+        });
+        return itemPatch;
+    }
+
+    private assertDeclared(path: string): void {
+        const root = path.split(/[.[]/)[0];
+        if (!this.attributes.has(root)) {
+            throw new DynamoValidationError(`Attribute ${root} is not declared for entity ${this.name}`);
+        }
+    }
+
+    private parseKeyTemplates(templates: DynamoKeyTemplates, schema: DynamoKeySchema): ParsedKeyTemplates {
+        if (!!templates.sk !== !!schema.skName) {
+            throw new DynamoValidationError(
+                `Key templates of entity ${this.name} must match the key schema ${schema.pkName}${schema.skName ? `, ${schema.skName}` : ''}`
+            );
+        }
+        const parsed: ParsedKeyTemplates = {
+            schema,
+            pk: new DynamoKeyTemplate(templates.pk),
+            sk: templates.sk ? new DynamoKeyTemplate(templates.sk) : undefined
+        };
+        [...parsed.pk.fields, ...(parsed.sk?.fields || [])]
+            .forEach(field => this.assertDeclared(field));
+        return parsed;
+    }
+
+    private coversTemplates(templates: ParsedKeyTemplates, values: Record<string, any>): boolean {
+        return [templates.pk, templates.sk].every(template => !template || template.renderPrefix(values).complete);
+    }
+
+    private renderKey(templates: ParsedKeyTemplates, values: Record<string, any>): Record<string, string> {
+        const key: Record<string, string> = {[templates.schema.pkName]: templates.pk.render(values)};
+        if (templates.sk) {
+            key[templates.schema.skName!] = templates.sk.render(values);
+        }
+        return key;
+    }
+
+    private keyAttributes(): string[] {
+        return [this.keyTemplates, ...Object.values(this.indexTemplates)]
+            .flatMap(templates => [templates.schema.pkName, templates.schema.skName])
+            .filter((name): name is string => !!name);
+    }
+}
+
+export type DynamoEntityType<E> = E extends DynamoEntity<infer T> ? T : never;
+
+/** Items grouped by entity, under the names the entities were passed with. */
+export type DynamoEntityGroups<E extends Record<string, DynamoEntity<any>>> = {
+    [K in keyof E]: DynamoEntityType<E[K]>[]
+};
+
+/** Sorts mixed items into their entities. Items of none of the entities are dropped. */
+export function groupByEntity<E extends Record<string, DynamoEntity<any>>>(
+    entities: E,
+    items: Record<string, any>[]
+): DynamoEntityGroups<E> {
+    const groups = Object.fromEntries(Object.keys(entities).map(name => [name, []])) as Record<string, any[]>;
+    items.forEach(item => {
+        const name = Object.keys(entities).find(candidate => entities[candidate].isEntity(item));
+        if (name) {
+            groups[name].push(entities[name].fromItem(item));
+        }
+    });
+    return groups as DynamoEntityGroups<E>;
+}
+
+/**
+ * Reads all entities of one item collection, e.g. a tenant with its users and orders, and
+ * groups them by entity. The partition key is rendered from `key` with the first entity's
+ * template; all entities must belong to the same service.
+ */
+export async function queryEntities<E extends Record<string, DynamoEntity<any>>>(
+    entities: E,
+    key: Record<string, any>,
+    client: DynamoDBClient,
+    query: Omit<DynamoEntityQuery<any>, 'key' | 'filters' | 'fields'> = {}
+): Promise<Omit<IDynamoPaginatedResponse<never>, 'data'> & { data: DynamoEntityGroups<E> }> {
+    const members = Object.values(entities);
+    if (!members.length) {
+        throw new DynamoValidationError('queryEntities needs at least one entity');
+    }
+    const service = members[0].service;
+    if (members.some(entity => entity.service !== service)) {
+        throw new DynamoValidationError('All entities of a query must belong to the same service');
+    }
+
+    const {index, pagination = {}, ...rest} = query;
+    const [pkCondition] = members[0].keyConditions(key, index);
+    const response = await service.fetchWithFiltersAndPagination<Record<string, any>>(
+        {...rest, pagination, indexName: index, filters: [pkCondition]},
+        client
+    );
+    return {
+        ...response,
+        data: groupByEntity(entities, response.data)
+    };
+}
@@ -0,0 +1,188 @@
+import {mapDynamoDBItemToType} from "./DynamoUtils";
+
+export type DynamoTransactionOperationType = 'put' | 'update' | 'delete' | 'conditionCheck' | 'get';
+
+export interface DynamoTransactionCancellationReason {
+    /** Position of the operation in the transaction. */
+    index: number;
+    operation: DynamoTransactionOperationType;
+    tableName: string;
+    /** DynamoDB's reason code, e.g. `ConditionalCheckFailed`, `TransactionConflict` or `None`. */
+    code: string;
+    message?: string;
+    /** The stored item, when requested with `returnItemOnConditionFailure`. */
+    item?: Record<string, any>;
+}
+
+/** Cancellation reason codes that may clear up when the transaction is sent again. */
+const RETRYABLE_CANCELLATION_CODES = new Set(['TransactionConflict', 'ThrottlingError', 'ProvisionedThroughputExceeded']);
+
+/** True when some operation failed and all failures are transient. */
+export function isRetryableCancellation(codes: string[]): boolean {
+    const failed = codes.filter(code => code !== 'None');
+    return failed.length > 0 && failed.every(code => RETRYABLE_CANCELLATION_CODES.has(code));
+}
+
+/**
+ * Base of the errors this library raises for failed DynamoDB requests. Input rejected
+ * before anything is sent is reported as `DynamoValidationError` instead.
+ */
+export abstract class DynamoError extends Error {
+    protected constructor(message: string, readonly tableName?: string, cause?: unknown) {
+        super(message, {cause});
+        this.name = 'DynamoError';
+    }
+
+    /** Whether sending the same request again may succeed. */
+    get retryable(): boolean {
+        return false;
+    }
+}
+
+/** The table, an index or the account exceeded its throughput or request rate. */
+export class DynamoThrottlingError extends DynamoError {
+    constructor(message: string, tableName?: string, cause?: unknown) {
+        super(message, tableName, cause);
+        this.name = 'DynamoThrottlingError';
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+export class DynamoConditionalCheckFailedError extends DynamoError {
+    constructor(
+        message: string,
+        tableName?: string,
+        /** The stored item, when requested with `returnItemOnConditionFailure`. */
+        readonly item?: Record<string, any>,
+        cause?: unknown
+    ) {
+        super(message, tableName, cause);
+        this.name = 'DynamoConditionalCheckFailedError';
+    }
+}
+
+/** The table or index does not exist or is not active yet. */
+export class DynamoResourceNotFoundError extends DynamoError {
+    constructor(message: string, tableName?: string, cause?: unknown) {
+        super(message, tableName, cause);
+        this.name = 'DynamoResourceNotFoundError';
+    }
+}
+
+/** A single-item write collided with a transaction in progress on the same item. */
+export class DynamoTransactionConflictError extends DynamoError {
+    constructor(message: string, tableName?: string, cause?: unknown) {
+        super(message, tableName, cause);
+        this.name = 'DynamoTransactionConflictError';
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+/** The item, or the item after an update, exceeds DynamoDB's limit of 400 KB. */
+export class DynamoItemTooLargeError extends DynamoError {
+    constructor(message: string, tableName?: string, cause?: unknown) {
+        super(message, tableName, cause);
+        this.name = 'DynamoItemTooLargeError';
+    }
+}
+
+/** DynamoDB rejected the request, e.g. a key of the wrong type or an invalid expression. */
+export class DynamoRequestValidationError extends DynamoError {
+    constructor(message: string, tableName?: string, cause?: unknown) {
+        super(message, tableName, cause);
+        this.name = 'DynamoRequestValidationError';
+    }
+}
+
+export class DynamoTransactionCanceledError extends DynamoError {
+    constructor(readonly reasons: DynamoTransactionCancellationReason[], cause?: unknown) {
+        const failed = reasons.filter(reason => reason.code !== 'None');
+        super(
+            `Transaction canceled: ${failed
+                .map(reason => `#${reason.index} ${reason.operation} on ${reason.tableName}: ${reason.code}`)
+                .join(', ') || 'unknown reason'}`,
+            undefined,
+            cause
+        );
+        this.name = 'DynamoTransactionCanceledError';
+    }
+
+    /** The operations that caused the cancellation. */
+    get failedOperations(): DynamoTransactionCancellationReason[] {
+        return this.reasons.filter(reason => reason.code !== 'None');
+    }
+
+    /** True when every failed operation conflicted with another transaction or was throttled. */
+    get retryable(): boolean {
+        return isRetryableCancellation(this.reasons.map(reason => reason.code));
+    }
+}
+
+/**
+ * Raised by versioned services when the stored item's version differs from the expected
+ * one, i.e. another writer changed or deleted the item. Reload the item and retry.
+ */
+export class DynamoConcurrencyError extends DynamoError {
+    constructor(
+        tableName: string,
+        readonly key: Record<string, any>,
+        readonly expectedVersion: number | undefined,
+        readonly actualVersion: number | undefined,
+        cause?: unknown
+    ) {
+        super(
+            `Version conflict on ${tableName} ${JSON.stringify(key)}: ` +
+            `expected ${expectedVersion ?? 'no version'}, found ${actualVersion ?? 'no item or version'}`,
+            tableName,
+            cause
+        );
+        this.name = 'DynamoConcurrencyError';
+    }
+}
+
+const THROTTLING_ERRORS = new Set(['ProvisionedThroughputExceededException', 'ThrottlingException', 'RequestLimitExceeded']);
+
+export interface DynamoErrorContext {
+    tableName?: string;
+    /** Converts the stored item of a failed condition; defaults to `mapDynamoDBItemToType`. */
+    unmarshallItem?: (item: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Maps an error of the AWS SDK to the matching `DynamoError`. Errors without a match,
+ * e.g. network failures, are returned unchanged, as are transaction cancellations,
+ * which need the operations to be described (see `DynamoTransaction`).
+ */
+export function toDynamoError(error: unknown, context: DynamoErrorContext = {}): unknown {
+    if (error instanceof DynamoError || !(error instanceof Error)) {
+        return error;
+    }
+
+    const {tableName, unmarshallItem = mapDynamoDBItemToType} = context;
+    const {name, message} = error;
+    if (THROTTLING_ERRORS.has(name)) {
+        return new DynamoThrottlingError(message, tableName, error);
+    }
+    switch (name) {
+        case 'ConditionalCheckFailedException': {
+            const item = (error as { Item?: Record<string, any> }).Item;
+            return new DynamoConditionalCheckFailedError(message, tableName, item && unmarshallItem(item), error);
+        }
+        case 'ResourceNotFoundException':
+            return new DynamoResourceNotFoundError(message, tableName, error);
+        case 'TransactionConflictException':
+            return new DynamoTransactionConflictError(message, tableName, error);
+        case 'ValidationException':
+            return /item size .*exceeded/i.test(message)
+                ? new DynamoItemTooLargeError(message, tableName, error)
+                : new DynamoRequestValidationError(message, tableName, error);
+        default:
+            return error;
+    }
+}
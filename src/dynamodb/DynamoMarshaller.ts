@@ -0,0 +1,209 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {IDynamoLogger} from "./types/DynamoObservability";
+import {consoleLogger} from "./DynamoObservability";
+
+export interface DynamoMarshallerOptions {
+    /**
+     * How `N` values are read. `number` (default) loses precision beyond 2^53, `bigint`
+     * reads integers as `bigint` and everything else as `number`, `decimal` reads every
+     * number as a `DynamoNumber` that keeps its exact digits.
+     */
+    numbers?: 'number' | 'string' | 'bigint' | 'decimal';
+    /** How `Date` values are written: ISO-8601 string (default), epoch seconds or epoch milliseconds. */
+    dates?: 'iso' | 'epochSeconds' | 'epochMillis';
+    /**
+     * `auto` (default) writes arrays of only strings or only numbers as `SS`/`NS` and reads
+     * sets back as arrays. `explicit` writes only `Set`s as sets and every array as a list,
+     * and reads sets back as `Set`s, so values survive a round trip unchanged.
+     */
+    sets?: 'auto' | 'explicit';
+    /** `reject` (default) throws on `null`, `null` writes `{NULL: true}`. */
+    nulls?: 'reject' | 'null';
+}
+
+/** Converts between plain values and `AttributeValue`s. Implement it to plug in custom marshalling. */
+export interface IDynamoMarshaller {
+    marshall(value: any): AttributeValue;
+
+    unmarshall(value: AttributeValue): any;
+
+    unmarshallItem<T>(item: Record<string, AttributeValue>): T;
+}
+
+/** A DynamoDB number kept as its exact decimal string, e.g. for money or 64-bit IDs. */
+export class DynamoNumber {
+    constructor(readonly value: string) {
+        if (!/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value)) {
+            throw new DynamoValidationError(`Invalid number: ${value}`);
+        }
+    }
+
+    toString(): string {
+        return this.value;
+    }
+
+    toJSON(): string {
+        return this.value;
+    }
+
+    valueOf(): number {
+        return Number(this.value);
+    }
+}
+
+export class DynamoMarshaller implements IDynamoMarshaller {
+    private readonly options: Required<DynamoMarshallerOptions>;
+
+    constructor(options: DynamoMarshallerOptions = {}, private readonly logger: IDynamoLogger = consoleLogger) {
+        this.options = {
+            numbers: options.numbers ?? 'number',
+            dates: options.dates ?? 'iso',
+            sets: options.sets ?? 'auto',
+            nulls: options.nulls ?? 'reject'
+        };
+    }
+
+    marshall(value: any): AttributeValue {
+        if (value === undefined || (value === null && this.options.nulls === 'reject')) {
+            throw new DynamoValidationError("Value cannot be null or undefined");
+        }
+        if (value === null) return {NULL: true};
+
+        if (typeof value === "string") return {S: value};
+        if (typeof value === "boolean") return {BOOL: value};
+        if (this.isNumber(value)) return {N: this.toNumberString(value)};
+        if (value instanceof Uint8Array) return {B: value};
+        if (value instanceof Date) return this.marshallDate(value);
+        if (value instanceof Set) return this.marshallSet([...value]);
+
+        if (Array.isArray(value)) {
+            if (this.options.sets === 'explicit') {
+                return {L: value.map(item => this.marshall(item))};
+            }
+            if (!value.length) {
+                throw new DynamoValidationError("Empty arrays not supported");
+            }
+            const firstType = typeof value[0];
+            if (value.every((item) => typeof item === firstType)) {
+                if (firstType === "string") {
+                    return {SS: value};
+                } else if (firstType === "number") {
+                    return {NS: value.map((n: number) => this.toNumberString(n))};
+                }
+            }
+            return {L: value.map(item => this.marshall(item))};
+        }
+
+        if (typeof value === "object") {
+            const mapVal: Record<string, AttributeValue> = {};
+            for (const [k, v] of Object.entries(value)) {
+                if (v === undefined) continue;
+                mapVal[k] = this.marshall(v);
+            }
+            return {M: mapVal};
+        }
+
+        throw new DynamoValidationError(`Unsupported type: ${typeof value}`);
+    }
+
+    unmarshall(val: AttributeValue): any {
+        const asSet = <V>(values: V[]) => this.options.sets === 'explicit' ? new Set(values) : values;
+
+        if (val.S !== undefined) return val.S;
+        if (val.N !== undefined) return this.unmarshallNumber(val.N);
+        if (val.BOOL !== undefined) return val.BOOL;
+        if (val.NULL !== undefined) return null;
+        if (val.B !== undefined) return val.B;
+        if (val.SS !== undefined) return asSet(val.SS);
+        if (val.NS !== undefined) return asSet(val.NS.map(n => this.unmarshallNumber(n)));
+        if (val.BS !== undefined) return asSet(val.BS);
+        if (val.M !== undefined) return this.unmarshallItem<any>(val.M);
+        if (val.L !== undefined) return val.L.map(v => this.unmarshall(v));
+
+        this.logger.warn("Unrecognized AttributeValue", {value: val});
+        return null;
+    }
+
+    unmarshallItem<T>(item: Record<string, AttributeValue>): T {
+        if (!item || typeof item !== 'object') {
+            return {} as T;
+        }
+
+        const result: any = {};
+        for (const [key, val] of Object.entries(item)) {
+            if (!val || typeof val !== 'object') continue;
+            result[key] = this.unmarshall(val);
+        }
+        return result as T;
+    }
+
+    private isNumber(value: any): value is number | bigint | DynamoNumber {
+        return typeof value === "number" || typeof value === "bigint" || value instanceof DynamoNumber;
+    }
+
+    private toNumberString(value: number | bigint | DynamoNumber): string {
+        if (typeof value === "number" && !Number.isFinite(value)) {
+            throw new DynamoValidationError(`Numbers must be finite: ${value}`);
+        }
+        return value.toString();
+    }
+
+    private unmarshallNumber(value: string): any {
+        switch (this.options.numbers) {
+            case 'string':
+                return value;
+            case 'decimal':
+                return new DynamoNumber(value);
+            case 'bigint':
+                return /^-?\d+$/.test(value) ? BigInt(value) : parseFloat(value);
+            default:
+                return parseFloat(value);
+        }
+    }
+
+    private marshallDate(value: Date): AttributeValue {
+        if (Number.isNaN(value.getTime())) {
+            throw new DynamoValidationError("Invalid date");
+        }
+        switch (this.options.dates) {
+            case 'epochSeconds':
+                return {N: Math.floor(value.getTime() / 1000).toString()};
+            case 'epochMillis':
+                return {N: value.getTime().toString()};
+            default:
+                return {S: value.toISOString()};
+        }
+    }
+
+    /** DynamoDB sets are non-empty and hold only strings, only numbers or only binaries. */
+    private marshallSet(values: any[]): AttributeValue {
+        if (!values.length) {
+            throw new DynamoValidationError("Empty sets not supported");
+        }
+        if (values.every(value => typeof value === "string")) {
+            return {SS: values};
+        }
+        if (values.every(value => this.isNumber(value))) {
+            return {NS: values.map(value => this.toNumberString(value))};
+        }
+        if (values.every(value => value instanceof Uint8Array)) {
+            return {BS: values};
+        }
+        throw new DynamoValidationError("Set elements must be all strings, all numbers or all binary values");
+    }
+}
+
+/** Backward compatible marshaller used when none is configured. */
+export const defaultMarshaller = new DynamoMarshaller();
+
+/** Accepts a marshaller or the options for a `DynamoMarshaller` that logs to `logger`. */
+export function resolveMarshaller(
+    marshaller?: IDynamoMarshaller | DynamoMarshallerOptions,
+    logger?: IDynamoLogger
+): IDynamoMarshaller {
+    if (!marshaller) return logger ? new DynamoMarshaller({}, logger) : defaultMarshaller;
+    return 'marshall' in marshaller && typeof marshaller.marshall === 'function'
+        ? marshaller as IDynamoMarshaller
+        : new DynamoMarshaller(marshaller as DynamoMarshallerOptions, logger);
+}
@@ -0,0 +1,166 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "./DynamoDBService";
+import {DynamoTable} from "./DynamoTable";
+import {DynamoThrottlingError} from "./DynamoErrors";
+import {consoleLogger} from "./DynamoObservability";
+import {IDynamoLogger} from "./types/DynamoObservability";
+import {
+    DynamoMigration,
+    DynamoMigrationRecord,
+    DynamoMigrationReport,
+    DynamoMigrationRunnerOptions
+} from "./types/DynamoMigration";
+
+type MigrationCounts = Pick<DynamoMigrationRecord, 'itemsRead' | 'itemsWritten' | 'itemsDeleted'>;
+
+/**
+ * Applies data migrations in version order and records their progress in a migrations
+ * table, checkpointing after every page. A failed or interrupted migration resumes where
+ * it stopped on the next run; later migrations wait until it completes. Run one runner
+ * at a time.
+ *
+ *     await new DynamoMigrationRunner().run([{
+ *         version: 1,
+ *         name: 'backfill-status',
+ *         service: orders,
+ *         migrate: order => order.status ? undefined : {...order, status: 'open'}
+ *     }], client);
+ */
+export class DynamoMigrationRunner {
+    /** The migrations table, keyed by version. */
+    readonly table: DynamoTable;
+    private readonly records: DynamoDBService;
+    private readonly logger: IDynamoLogger;
+
+    constructor(private readonly options: DynamoMigrationRunnerOptions = {}) {
+        this.table = new DynamoTable({name: options.tableName ?? 'migrations', pkName: 'version', pkType: 'N'});
+        this.records = this.table.createService({logger: options.logger});
+        this.logger = options.logger ?? consoleLogger;
+    }
+
+    /** The recorded migrations in version order. */
+    async status(client: DynamoDBClient): Promise<DynamoMigrationRecord[]> {
+        const {items} = await this.records.parallelScan<DynamoMigrationRecord>({filters: []}, client, {totalSegments: 1});
+        return items.sort((a, b) => a.version - b.version);
+    }
+
+    async run(migrations: DynamoMigration<any>[], client: DynamoDBClient): Promise<DynamoMigrationReport[]> {
+        const versions = new Set<number>();
+        migrations.forEach(({version}) => {
+            if (!Number.isInteger(version) || version < 1) {
+                throw new DynamoValidationError(`Migration versions must be positive integers: ${version}`);
+            }
+            if (versions.has(version)) {
+                throw new DynamoValidationError(`Duplicate migration version: ${version}`);
+            }
+            versions.add(version);
+        });
+
+        await this.table.ensureTable(client, this.options.ensureTable);
+        const records = new Map((await this.status(client)).map(record => [record.version, record]));
+
+        const reports: DynamoMigrationReport[] = [];
+        for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+            const record = records.get(migration.version);
+            if (record && record.name !== migration.name) {
+                throw new DynamoValidationError(
+                    `Migration ${migration.version} is recorded as ${record.name}, not ${migration.name}`
+                );
+            }
+            reports.push(record?.status === 'completed'
+                ? {...this.countsOf(record), version: record.version, name: record.name, status: 'skipped'}
+                : await this.apply(migration, record, client));
+        }
+        return reports;
+    }
+
+    private async apply(
+        migration: DynamoMigration<any>,
+        record: DynamoMigrationRecord | undefined,
+        client: DynamoDBClient
+    ): Promise<DynamoMigrationReport> {
+        const {version, name, service} = migration;
+        const progress = record ?? await this.records.create<DynamoMigrationRecord>({
+            version,
+            name,
+            status: 'running',
+            itemsRead: 0,
+            itemsWritten: 0,
+            itemsDeleted: 0,
+            startedAt: new Date(Date.now()).toISOString()
+        }, client);
+        const counts = this.countsOf(progress);
+        this.logger.debug(record ? 'Resuming DynamoDB migration' : 'Applying DynamoDB migration', {version, name});
+
+        let saved = Promise.resolve();
+        await service.parallelScan<Record<string, any>>({filters: migration.filters || [], includeDeleted: true}, client, {
+            totalSegments: migration.totalSegments ?? 1,
+            checkpoint: progress.checkpoint ? JSON.parse(progress.checkpoint) : undefined,
+            onItems: async items => {
+                const written = await this.migrateItems(migration, items, client);
+                counts.itemsRead += items.length;
+                counts.itemsWritten += written.itemsWritten;
+                counts.itemsDeleted += written.itemsDeleted;
+            },
+            onCheckpoint: checkpoint => {
+                const patch = {...counts, checkpoint: JSON.stringify(checkpoint)};
+                saved = saved.then(() => this.save(version, patch, client));
+                return saved;
+            }
+        });
+        await saved;
+        await this.save(version, {
+            status: 'completed',
+            completedAt: new Date(Date.now()).toISOString(),
+            checkpoint: undefined
+        }, client);
+        this.logger.debug('Completed DynamoDB migration', {version, name, ...counts});
+
+        return {...counts, version, name, status: record ? 'resumed' : 'applied'};
+    }
+
+    private async migrateItems(
+        migration: DynamoMigration<any>,
+        items: Record<string, any>[],
+        client: DynamoDBClient
+    ): Promise<Pick<MigrationCounts, 'itemsWritten' | 'itemsDeleted'>> {
+        const {pkName, skName} = migration.service.keySchemaFor();
+        const keyOf = (item: Record<string, any>) =>
+            skName ? {[pkName]: item[pkName], [skName]: item[skName]} : {[pkName]: item[pkName]};
+
+        const puts: Record<string, any>[] = [];
+        const deletes: Record<string, any>[] = [];
+        for (const item of items) {
+            const migrated = await migration.migrate(item);
+            if (migrated === undefined) continue;
+            if (migrated !== null) {
+                puts.push(migrated);
+            }
+            if (migrated === null || JSON.stringify(keyOf(migrated)) !== JSON.stringify(keyOf(item))) {
+                deletes.push(keyOf(item));
+            }
+        }
+        if (!puts.length && !deletes.length) {
+            return {itemsWritten: 0, itemsDeleted: 0};
+        }
+
+        const result = await migration.service.batchWrite(puts, deletes, client, {
+            ignoreVersionCheck: true,
+            permanent: true
+        });
+        const unprocessed = result.unprocessedPuts.length + result.unprocessedDeletes.length;
+        if (unprocessed) {
+            throw new DynamoThrottlingError(`Migration ${migration.version} left ${unprocessed} write(s) unprocessed`);
+        }
+        return {itemsWritten: puts.length, itemsDeleted: deletes.length};
+    }
+
+    private async save(version: number, patch: Partial<DynamoMigrationRecord>, client: DynamoDBClient): Promise<void> {
+        await this.records.update<DynamoMigrationRecord>(version, patch, client);
+    }
+
+    private countsOf(record: MigrationCounts): MigrationCounts {
+        return {itemsRead: record.itemsRead, itemsWritten: record.itemsWritten, itemsDeleted: record.itemsDeleted};
+    }
+}
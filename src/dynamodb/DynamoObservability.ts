@@ -0,0 +1,132 @@
+import {ReturnConsumedCapacity} from "@aws-sdk/client-dynamodb";
+import {
+    DynamoCommandHooks,
+    DynamoCommandInfo,
+    DynamoCommandResult,
+    IDynamoLogger
+} from "./types/DynamoObservability";
+import {DynamoRetryPolicy} from "./DynamoRetryPolicy";
+
+type ConsoleMethod = 'debug' | 'warn' | 'error';
+
+function toConsole(method: ConsoleMethod) {
+    return (message: string, context?: Record<string, unknown>) =>
+        context ? console[method](message, context) : console[method](message);
+}
+
+/** Writes to the console; the default of services and marshallers. */
+export const consoleLogger: IDynamoLogger = {
+    debug: toConsole('debug'),
+    warn: toConsole('warn'),
+    error: toConsole('error')
+};
+
+export const silentLogger: IDynamoLogger = {
+    debug: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+function tableNamesOf(input: Record<string, any>): string[] {
+    if (input.TableName) return [input.TableName];
+    if (input.RequestItems) return Object.keys(input.RequestItems);
+    if (Array.isArray(input.TransactItems)) {
+        const names = input.TransactItems
+            .map((item: Record<string, any>) => Object.values(item).find(Boolean)?.TableName)
+            .filter(Boolean);
+        return [...new Set<string>(names)];
+    }
+    return [];
+}
+
+function itemCountOf(commandName: string, output: Record<string, any>): number | undefined {
+    if (Array.isArray(output.Items)) return output.Items.length;
+    if (commandName === 'GetItemCommand') return output.Item ? 1 : 0;
+    if (Array.isArray(output.Responses)) return output.Responses.filter((response: any) => response?.Item).length;
+    if (output.Responses) {
+        return Object.values(output.Responses as Record<string, unknown[]>).reduce((sum, items) => sum + items.length, 0);
+    }
+    return undefined;
+}
+
+/**
+ * Reports the commands of a service to its hooks and retries them by its retry policy.
+ * Executors send every command through `observe`, so timings, item counts and consumed
+ * capacity are measured in one place.
+ */
+export class DynamoCommandObserver {
+    constructor(
+        readonly logger: IDynamoLogger = consoleLogger,
+        private readonly hooks: DynamoCommandHooks = {},
+        readonly retryPolicy: DynamoRetryPolicy = new DynamoRetryPolicy()
+    ) {
+    }
+
+    /**
+     * The input for a command built by the library. While an `afterCommand` hook is set, a copy
+     * that requests consumed capacity is returned unless the input already asks for it.
+     */
+    withConsumedCapacity<I extends object>(input: I & { ReturnConsumedCapacity?: ReturnConsumedCapacity }): I {
+        if (!this.hooks.afterCommand || input.ReturnConsumedCapacity) {
+            return input;
+        }
+        return {...input, ReturnConsumedCapacity: 'TOTAL'};
+    }
+
+    /** Runs `send` for `command` between the hooks, once per attempt. The command is not modified. */
+    async observe<T>(command: { input: object }, send: () => Promise<T>, page?: number): Promise<T> {
+        return this.retryPolicy.execute(attempt => this.observeAttempt(command, send, attempt, page));
+    }
+
+    private async observeAttempt<T>(
+        command: { input: object },
+        send: () => Promise<T>,
+        attempt: number,
+        page?: number
+    ): Promise<T> {
+        const {beforeCommand, afterCommand} = this.hooks;
+        if (!beforeCommand && !afterCommand) {
+            return send();
+        }
+
+        const input = command.input as Record<string, any>;
+        const info: DynamoCommandInfo = {
+            commandName: command.constructor.name,
+            tableNames: tableNamesOf(input),
+            ...(input.IndexName ? {indexName: input.IndexName} : {}),
+            ...(page !== undefined ? {page} : {}),
+            attempt
+        };
+        this.runHook('beforeCommand', () => beforeCommand?.(info));
+
+        const start = Date.now();
+        try {
+            const output = await send();
+            const response = (output ?? {}) as Record<string, any>;
+            this.runHook('afterCommand', () => afterCommand?.({
+                ...info,
+                durationMs: Date.now() - start,
+                itemCount: itemCountOf(info.commandName, response),
+                scannedCount: response.ScannedCount,
+                consumedCapacity: [response.ConsumedCapacity ?? []].flat()
+            }));
+            return output;
+        } catch (error) {
+            this.runHook('afterCommand', () => afterCommand?.({
+                ...info,
+                durationMs: Date.now() - start,
+                consumedCapacity: [],
+                error
+            }));
+            throw error;
+        }
+    }
+
+    private runHook(name: keyof DynamoCommandHooks, hook: () => void): void {
+        try {
+            hook();
+        } catch (error) {
+            this.logger.error(`DynamoDB ${name} hook failed`, {error});
+        }
+    }
+}
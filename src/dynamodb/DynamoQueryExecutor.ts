@@ -1,24 +1,224 @@
-import {DynamoDBClient, QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {AttributeValue, DynamoDBClient, QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
 import {DynamoExpression} from './types/DynamoExpression';
-import {IQueryExecutor} from "@denis_bruns/core";
+import {
+    DynamoQueryPage,
+    DynamoReadBudget,
+    DynamoReadBudgetKind,
+    DynamoReadOptions,
+    DynamoReadResult
+} from "./types/DynamoPagination";
+import {DynamoParallelScanOptions, DynamoParallelScanResult, DynamoScanCheckpoint} from "./types/DynamoScan";
+import {mapWithConcurrency} from "./DynamoConcurrency";
+import {DynamoCommandObserver} from "./DynamoObservability";
+import {DynamoValidationError, IQueryExecutor} from "@denis_bruns/core";
 
 export class DynamoQueryExecutor implements IQueryExecutor<DynamoExpression, DynamoDBClient> {
+    constructor(
+        private readonly defaultBudget: DynamoReadBudget = {},
+        private readonly observer: DynamoCommandObserver = new DynamoCommandObserver()
+    ) {
+    }
+
     async executeQuery(params: DynamoExpression, client: DynamoDBClient): Promise<any[]> {
+        const {items} = await this.executeQueryPages(params, client);
+        return items;
+    }
+
+    async executeQueryPages(
+        params: DynamoExpression,
+        client: DynamoDBClient,
+        options: DynamoReadOptions = {}
+    ): Promise<DynamoReadResult> {
+        const budget = {...this.defaultBudget, ...options.budget};
+        const target = options.targetItemCount ?? Infinity;
+        const result: DynamoReadResult = {
+            items: [],
+            lastEvaluatedKey: params.ExclusiveStartKey,
+            pagesRead: 0,
+            itemsRead: 0,
+            consumedCapacity: 0
+        };
+
+        do {
+            const limit = this.pageLimit(params, budget, result, options.limitPagesToTarget ? target : Infinity);
+            const page = await this.executeQueryPage({
+                ...params,
+                ExclusiveStartKey: result.lastEvaluatedKey,
+                Limit: limit
+            }, client, budget.maxConsumedCapacity !== undefined, result.pagesRead + 1);
+
+            result.items.push(...page.items);
+            result.lastEvaluatedKey = page.lastEvaluatedKey;
+            result.pagesRead++;
+            result.itemsRead += page.scannedCount ?? page.items.length;
+            result.consumedCapacity += page.consumedCapacity ?? 0;
+
+            if (!result.lastEvaluatedKey || result.items.length >= target) {
+                break;
+            }
+            result.stoppedBy = this.exhaustedBudget(budget, result);
+        } while (!result.stoppedBy);
+
+        return result;
+    }
+
+    async executeQueryPage(
+        params: DynamoExpression,
+        client: DynamoDBClient,
+        returnConsumedCapacity = false,
+        page?: number
+    ): Promise<DynamoQueryPage> {
+        const command = this.buildPageCommand(params, returnConsumedCapacity);
+        const response = await this.observer.observe(command, () => client.send(command), page);
+
+        return {
+            items: response?.Items || [],
+            lastEvaluatedKey: response?.LastEvaluatedKey,
+            scannedCount: response?.ScannedCount,
+            consumedCapacity: response?.ConsumedCapacity?.CapacityUnits
+        };
+    }
+
+    /** A `QueryCommand` when `params` have a key condition, otherwise a `ScanCommand`. */
+    buildPageCommand(params: DynamoExpression, returnConsumedCapacity = false): QueryCommand | ScanCommand {
+        // Conditions like attribute_exists take no values, and DynamoDB rejects an empty map.
+        const hasValues = Object.keys(params.ExpressionAttributeValues || {}).length > 0;
         const commandInput = {
             TableName: params.TableName,
+            IndexName: params.IndexName,
             KeyConditionExpression: params.KeyConditionExpression,
             FilterExpression: params.FilterExpression,
+            ProjectionExpression: params.ProjectionExpression,
             ExpressionAttributeNames: params.ExpressionAttributeNames,
-            ExpressionAttributeValues: params.ExpressionAttributeValues
+            ExpressionAttributeValues: hasValues ? params.ExpressionAttributeValues : undefined,
+            ExclusiveStartKey: params.ExclusiveStartKey,
+            Limit: params.Limit,
+            ...(returnConsumedCapacity ? {ReturnConsumedCapacity: 'TOTAL' as const} : {})
         };
 
-        let response;
         if (params.KeyConditionExpression) {
-            response = await client.send(new QueryCommand(commandInput));
-        } else {
-            response = await client.send(new ScanCommand(commandInput));
+            return new QueryCommand(this.observer.withConsumedCapacity({
+                ...commandInput,
+                ScanIndexForward: params.ScanIndexForward
+            }));
+        }
+        return new ScanCommand(this.observer.withConsumedCapacity({
+            ...commandInput,
+            Segment: params.Segment,
+            TotalSegments: params.TotalSegments
+        }));
+    }
+
+    /** The command `executeQueryPages` sends first for the same arguments. */
+    buildFirstPageCommand(params: DynamoExpression, options: DynamoReadOptions = {}): QueryCommand | ScanCommand {
+        const budget = {...this.defaultBudget, ...options.budget};
+        const progress: DynamoReadResult = {items: [], pagesRead: 0, itemsRead: 0, consumedCapacity: 0};
+        const target = options.limitPagesToTarget ? options.targetItemCount ?? Infinity : Infinity;
+        return this.buildPageCommand(
+            {...params, Limit: this.pageLimit(params, budget, progress, target)},
+            budget.maxConsumedCapacity !== undefined
+        );
+    }
+
+    /**
+     * Scans the table in `totalSegments` segments, `concurrency` of them at a time.
+     * Items are passed to `onItems` per page or collected, and the progress is
+     * reported through `onCheckpoint` so an interrupted scan can be resumed.
+     */
+    async parallelScan(
+        params: DynamoExpression,
+        client: DynamoDBClient,
+        options: DynamoParallelScanOptions<Record<string, AttributeValue>>
+    ): Promise<DynamoParallelScanResult<Record<string, AttributeValue>>> {
+        const {totalSegments} = options;
+        if (params.KeyConditionExpression) {
+            throw new DynamoValidationError('Parallel scans cannot use a key condition');
+        }
+        if (!Number.isInteger(totalSegments) || totalSegments < 1 || totalSegments > 1000000) {
+            throw new DynamoValidationError('totalSegments must be an integer between 1 and 1000000');
+        }
+        if (options.checkpoint && options.checkpoint.totalSegments !== totalSegments) {
+            throw new DynamoValidationError('Checkpoint was created with a different number of segments');
         }
 
-        return response.Items || [];
+        const checkpoint: DynamoScanCheckpoint = {
+            totalSegments,
+            segments: Object.fromEntries(Array.from({length: totalSegments}, (_, segment) =>
+                [segment, {...(options.checkpoint?.segments[segment] ?? {done: false})}]
+            ))
+        };
+        const result: DynamoParallelScanResult<Record<string, AttributeValue>> = {
+            items: [],
+            itemsRead: 0,
+            pagesRead: 0,
+            checkpoint
+        };
+
+        const pendingSegments = Object.keys(checkpoint.segments)
+            .map(Number)
+            .filter(segment => !checkpoint.segments[segment].done);
+
+        await mapWithConcurrency(pendingSegments, options.concurrency ?? 4, async (segment) => {
+            const state = checkpoint.segments[segment];
+            while (!state.done) {
+                const page = await this.executeQueryPage({
+                    ...params,
+                    Segment: segment,
+                    TotalSegments: totalSegments,
+                    ExclusiveStartKey: state.lastEvaluatedKey
+                }, client);
+
+                if (options.onItems) {
+                    await options.onItems(page.items, segment);
+                } else {
+                    result.items.push(...page.items);
+                }
+                result.itemsRead += page.scannedCount ?? page.items.length;
+                result.pagesRead++;
+
+                state.lastEvaluatedKey = page.lastEvaluatedKey;
+                state.done = !page.lastEvaluatedKey;
+                await options.onCheckpoint?.(this.snapshot(checkpoint));
+            }
+        });
+
+        return result;
+    }
+
+    /** Segment states are copied; their keys are replaced, never mutated, so they can be shared. */
+    private snapshot(checkpoint: DynamoScanCheckpoint): DynamoScanCheckpoint {
+        return {
+            totalSegments: checkpoint.totalSegments,
+            segments: Object.fromEntries(
+                Object.entries(checkpoint.segments).map(([segment, state]) => [segment, {...state}])
+            )
+        };
+    }
+
+    private pageLimit(
+        params: DynamoExpression,
+        budget: DynamoReadBudget,
+        progress: DynamoReadResult,
+        target: number
+    ): number | undefined {
+        const limit = Math.min(
+            params.Limit ?? Infinity,
+            target - progress.items.length,
+            (budget.maxItemsRead ?? Infinity) - progress.itemsRead
+        );
+        return Number.isFinite(limit) ? Math.max(limit, 1) : undefined;
+    }
+
+    private exhaustedBudget(budget: DynamoReadBudget, progress: DynamoReadResult): DynamoReadBudgetKind | undefined {
+        if (budget.maxPages !== undefined && progress.pagesRead >= budget.maxPages) {
+            return 'maxPages';
+        }
+        if (budget.maxItemsRead !== undefined && progress.itemsRead >= budget.maxItemsRead) {
+            return 'maxItemsRead';
+        }
+        if (budget.maxConsumedCapacity !== undefined && progress.consumedCapacity >= budget.maxConsumedCapacity) {
+            return 'maxConsumedCapacity';
+        }
+        return undefined;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import {computeBackoffDelay, sleep} from "./DynamoConcurrency";
+import {DynamoError, isRetryableCancellation, toDynamoError} from "./DynamoErrors";
+import {DynamoRetryOptions} from "./types/DynamoRetry";
+
+/** Server side failures the SDK reports without a more specific error. */
+const TRANSIENT_ERRORS = new Set(['InternalServerError', 'ServiceUnavailable']);
+
+/**
+ * Throttling, transaction conflicts, cancellations caused only by those and transient
+ * server errors are retryable; failed conditions, validation errors and missing tables are not.
+ */
+export function isRetryableDynamoError(error: unknown): boolean {
+    const mapped = toDynamoError(error);
+    if (mapped instanceof DynamoError) {
+        return mapped.retryable;
+    }
+
+    const {name, CancellationReasons} = (error ?? {}) as { name?: string; CancellationReasons?: { Code?: string }[] };
+    if (name === 'TransactionCanceledException' && Array.isArray(CancellationReasons)) {
+        return isRetryableCancellation(CancellationReasons.map(reason => reason?.Code ?? 'None'));
+    }
+    return TRANSIENT_ERRORS.has(name ?? '');
+}
+
+/**
+ * Retries failed commands as configured by `DynamoRetryOptions`. Share one policy
+ * between services to share its retry budget.
+ */
+export class DynamoRetryPolicy {
+    private tokens: number;
+
+    constructor(private readonly options: DynamoRetryOptions = {}) {
+        this.tokens = options.retryBudget ?? Infinity;
+    }
+
+    /** Retries left in the budget. */
+    get remainingBudget(): number {
+        return this.tokens;
+    }
+
+    /** Calls `attempt` with the attempt number, from 1, until it succeeds or must not be retried. */
+    async execute<T>(attempt: (attempt: number) => Promise<T>): Promise<T> {
+        const {maxAttempts = 1, retryBudget = Infinity, retryable = isRetryableDynamoError} = this.options;
+
+        for (let current = 1; ; current++) {
+            try {
+                const result = await attempt(current);
+                this.tokens = Math.min(this.tokens + 1, retryBudget);
+                return result;
+            } catch (error) {
+                if (current >= maxAttempts || this.tokens < 1 || !retryable(error, current)) {
+                    throw error;
+                }
+                this.tokens--;
+                await sleep(computeBackoffDelay(current - 1, this.options));
+            }
+        }
+    }
+}
+
+/** Accepts a policy or the options for a new one. */
+export function resolveRetryPolicy(retry?: DynamoRetryOptions | DynamoRetryPolicy): DynamoRetryPolicy {
+    return retry instanceof DynamoRetryPolicy ? retry : new DynamoRetryPolicy(retry);
+}
@@ -0,0 +1,171 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoEntity} from "./DynamoEntity";
+import {consoleLogger} from "./DynamoObservability";
+import {mapDynamoDBItemToType, valuesEqual} from "./DynamoUtils";
+import {IDynamoLogger} from "./types/DynamoObservability";
+import {
+    DynamoAttributeChange,
+    DynamoChangeEvent,
+    DynamoChangeHandler,
+    DynamoStreamBatchResponse,
+    DynamoStreamEvent,
+    DynamoStreamRecord
+} from "./types/DynamoStream";
+
+const STREAM_EVENT_NAMES = ['INSERT', 'MODIFY', 'REMOVE'];
+const TTL_PRINCIPAL = 'dynamodb.amazonaws.com';
+
+export interface DynamoStreamProcessorOptions {
+    /** Attribute holding the entity name, for entities given by name. Defaults to `entityType`. */
+    typeAttribute?: string;
+    /** Key attribute `onKeyPrefix` matches against. Defaults to `pk`. */
+    keyAttribute?: string;
+    /** Receives the errors of failed handlers. */
+    logger?: IDynamoLogger;
+}
+
+interface DynamoStreamRoute {
+    matches(event: DynamoChangeEvent): boolean;
+    handle(event: DynamoChangeEvent): Promise<void> | void;
+}
+
+/** Top-level attributes that differ between two images, compared by DynamoDB's equality. */
+export function diffImages(
+    oldImage: Record<string, AttributeValue>,
+    newImage: Record<string, AttributeValue>
+): DynamoAttributeChange[] {
+    const attributes = [...new Set([...Object.keys(oldImage), ...Object.keys(newImage)])];
+    return attributes.flatMap((attribute): DynamoAttributeChange[] => {
+        const [before, after] = [oldImage[attribute], newImage[attribute]];
+        const oldValue = before && mapDynamoDBItemToType<Record<string, any>>({[attribute]: before})[attribute];
+        const newValue = after && mapDynamoDBItemToType<Record<string, any>>({[attribute]: after})[attribute];
+        if (!before) return [{attribute, type: 'added', newValue}];
+        if (!after) return [{attribute, type: 'removed', oldValue}];
+        return valuesEqual(before, after) ? [] : [{attribute, type: 'changed', oldValue, newValue}];
+    });
+}
+
+/** Converts a stream record into a change event with unmarshalled keys and images. */
+export function toChangeEvent<T = Record<string, any>>(record: DynamoStreamRecord): DynamoChangeEvent<T> {
+    const {eventName, dynamodb: change} = record;
+    if (!eventName || !STREAM_EVENT_NAMES.includes(eventName) || !change?.Keys) {
+        throw new DynamoValidationError(`Not a DynamoDB stream record: ${record.eventID ?? 'without eventID'}`);
+    }
+
+    const {Keys, NewImage, OldImage, SequenceNumber, ApproximateCreationDateTime} = change;
+    return {
+        type: eventName,
+        keys: mapDynamoDBItemToType<Record<string, any>>(Keys),
+        newItem: NewImage && mapDynamoDBItemToType<T>(NewImage),
+        oldItem: OldImage && mapDynamoDBItemToType<T>(OldImage),
+        changes: NewImage && OldImage ? diffImages(OldImage, NewImage) : [],
+        eventId: record.eventID,
+        sequenceNumber: SequenceNumber,
+        approximateCreationTime: ApproximateCreationDateTime !== undefined
+            ? new Date(ApproximateCreationDateTime * 1000)
+            : undefined,
+        expiredByTtl: eventName === 'REMOVE'
+            && record.userIdentity?.type === 'Service'
+            && record.userIdentity.principalId === TTL_PRINCIPAL,
+        record
+    };
+}
+
+/**
+ * Routes the records of a DynamoDB stream to typed handlers, e.g. in a Lambda function:
+ *
+ *     const processor = new DynamoStreamProcessor()
+ *         .onEntity(orders, event => event.type === 'INSERT' && notify(event.newItem!))
+ *         .onKeyPrefix('AUDIT#', event => archive(event));
+ *     export const handler = (event: DynamoStreamEvent) => processor.process(event);
+ *
+ * Each record goes to the first matching route; records without one are skipped.
+ */
+export class DynamoStreamProcessor {
+    private readonly routes: DynamoStreamRoute[] = [];
+    private readonly logger: IDynamoLogger;
+
+    constructor(private readonly options: DynamoStreamProcessorOptions = {}) {
+        this.logger = options.logger ?? consoleLogger;
+    }
+
+    /**
+     * Handles the records of an entity, told apart by its type attribute in the new or old
+     * image. Images and changes are reduced to the entity's declared attributes.
+     */
+    onEntity<T extends object>(entity: DynamoEntity<T> | string, handler: DynamoChangeHandler<T>): this {
+        if (typeof entity === 'string') {
+            const typeAttribute = this.options.typeAttribute ?? 'entityType';
+            const isEntity = (item?: Record<string, any>) => item?.[typeAttribute] === entity;
+            return this.route(event => isEntity(event.newItem) || isEntity(event.oldItem), handler);
+        }
+
+        return this.route<Record<string, any>>(
+            event => entity.isEntity(event.newItem) || entity.isEntity(event.oldItem),
+            event => handler({
+                ...event,
+                newItem: event.newItem && entity.fromItem(event.newItem),
+                oldItem: event.oldItem && entity.fromItem(event.oldItem),
+                changes: event.changes.filter(change => entity.declares(change.attribute))
+            })
+        );
+    }
+
+    /** Handles records whose key attribute is a string starting with `prefix`. */
+    onKeyPrefix<T = Record<string, any>>(
+        prefix: string,
+        handler: DynamoChangeHandler<T>,
+        keyAttribute: string = this.options.keyAttribute ?? 'pk'
+    ): this {
+        return this.route(event => {
+            const key = event.keys[keyAttribute];
+            return typeof key === 'string' && key.startsWith(prefix);
+        }, handler);
+    }
+
+    /** Handles every record no earlier route matched. */
+    onAny<T = Record<string, any>>(handler: DynamoChangeHandler<T>): this {
+        return this.route(() => true, handler);
+    }
+
+    /**
+     * Processes the records in order and stops at the first failed handler. Lambda retries the
+     * batch from the reported record, so the records after it are not processed twice;
+     * enable `ReportBatchItemFailures` on the event source mapping. Records that cannot be
+     * converted would fail on every retry, so they are logged and skipped instead.
+     */
+    async process(event: DynamoStreamEvent): Promise<DynamoStreamBatchResponse> {
+        for (const record of event.Records ?? []) {
+            let change: DynamoChangeEvent;
+            try {
+                change = toChangeEvent(record);
+            } catch (error) {
+                this.logger.warn("Skipping invalid DynamoDB stream record", {
+                    eventId: record.eventID,
+                    sequenceNumber: record.dynamodb?.SequenceNumber,
+                    error
+                });
+                continue;
+            }
+
+            try {
+                await this.routes.find(route => route.matches(change))?.handle(change);
+            } catch (error) {
+                const itemIdentifier = record.dynamodb?.SequenceNumber ?? record.eventID ?? '';
+                this.logger.error("DynamoDB stream record failed", {
+                    eventId: record.eventID,
+                    sequenceNumber: record.dynamodb?.SequenceNumber,
+                    error
+                });
+                return {batchItemFailures: [{itemIdentifier}]};
+            }
+        }
+        return {batchItemFailures: []};
+    }
+
+    private route<T>(matches: (event: DynamoChangeEvent) => boolean, handler: DynamoChangeHandler<T>): this {
+        this.routes.push({matches, handle: handler as DynamoChangeHandler<any>});
+        return this;
+    }
+}
@@ -0,0 +1,306 @@
+import {
+    CreateTableCommand,
+    CreateTableCommandInput,
+    DescribeTableCommand,
+    DescribeTimeToLiveCommand,
+    DynamoDBClient,
+    KeySchemaElement,
+    Projection,
+    TableDescription,
+    TimeToLiveDescription,
+    UpdateTimeToLiveCommand
+} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService, DynamoDBServiceOptions} from "./DynamoDBService";
+import {DynamoResourceNotFoundError, toDynamoError} from "./DynamoErrors";
+import {sleep} from "./DynamoConcurrency";
+import {
+    DynamoEnsureTableOptions,
+    DynamoEnsureTableResult,
+    DynamoKeyAttributeType,
+    DynamoTableDefinition,
+    DynamoTableDifference,
+    DynamoTableIndexDefinition
+} from "./types/DynamoTable";
+
+const TABLE_FIELDS = ['pkName', 'pkType', 'skName', 'skType', 'billingMode', 'throughput', 'ttlAttribute'] as const;
+const INDEX_FIELDS = ['type', 'pkName', 'pkType', 'skName', 'skType', 'projection'] as const;
+
+type KeyDefinition = Pick<DynamoTableIndexDefinition, 'pkName' | 'pkType' | 'skName' | 'skType'>;
+
+function toProjection(projection: DynamoTableIndexDefinition['projection'] = 'ALL'): Projection {
+    return Array.isArray(projection)
+        ? {ProjectionType: 'INCLUDE', NonKeyAttributes: projection}
+        : {ProjectionType: projection};
+}
+
+function fromProjection(projection?: Projection): DynamoTableIndexDefinition['projection'] {
+    return projection?.ProjectionType === 'INCLUDE'
+        ? projection.NonKeyAttributes ?? []
+        : projection?.ProjectionType as 'ALL' | 'KEYS_ONLY' | undefined;
+}
+
+function normalizeKeys<T extends KeyDefinition>(schema: T): T {
+    return {...schema, pkType: schema.pkType ?? 'S', skType: schema.skName ? schema.skType ?? 'S' : undefined};
+}
+
+/** Fills in the defaults, so declared and deployed definitions compare equal. */
+function normalizeDefinition(definition: DynamoTableDefinition): DynamoTableDefinition & { indexes: DynamoTableIndexDefinition[] } {
+    const billingMode = definition.billingMode ?? 'PAY_PER_REQUEST';
+    return {
+        ...normalizeKeys(definition),
+        billingMode,
+        throughput: billingMode === 'PROVISIONED' ? definition.throughput : undefined,
+        indexes: (definition.indexes || []).map(index => {
+            const projection = index.projection ?? 'ALL';
+            return {
+                ...normalizeKeys(index),
+                type: index.type ?? 'GSI',
+                projection: Array.isArray(projection) ? [...projection].sort() : projection
+            };
+        })
+    };
+}
+
+/** The definition of a deployed table, from `DescribeTable` and `DescribeTimeToLive`. */
+export function fromTableDescription(table: TableDescription, ttl?: TimeToLiveDescription): DynamoTableDefinition {
+    const types = new Map((table.AttributeDefinitions || []).map(({AttributeName, AttributeType}) =>
+        [AttributeName, AttributeType as DynamoKeyAttributeType]));
+    const keys = (schema: KeySchemaElement[] = []): KeyDefinition => {
+        const pkName = schema.find(key => key.KeyType === 'HASH')!.AttributeName!;
+        const skName = schema.find(key => key.KeyType === 'RANGE')?.AttributeName;
+        return {pkName, pkType: types.get(pkName), skName, skType: skName ? types.get(skName) : undefined};
+    };
+    const billingMode = table.BillingModeSummary?.BillingMode === 'PAY_PER_REQUEST' ? 'PAY_PER_REQUEST' : 'PROVISIONED';
+    const ttlEnabled = ttl?.TimeToLiveStatus === 'ENABLED' || ttl?.TimeToLiveStatus === 'ENABLING';
+
+    return {
+        name: table.TableName!,
+        ...keys(table.KeySchema),
+        indexes: [
+            ...(table.GlobalSecondaryIndexes || []).map(index => ({type: 'GSI' as const, index})),
+            ...(table.LocalSecondaryIndexes || []).map(index => ({type: 'LSI' as const, index}))
+        ].map(({type, index}) => ({
+            name: index.IndexName!,
+            type,
+            ...keys(index.KeySchema),
+            projection: fromProjection(index.Projection)
+        })),
+        ttlAttribute: ttlEnabled ? ttl!.AttributeName : undefined,
+        billingMode,
+        throughput: billingMode === 'PROVISIONED'
+            ? {
+                readCapacityUnits: table.ProvisionedThroughput?.ReadCapacityUnits ?? 0,
+                writeCapacityUnits: table.ProvisionedThroughput?.WriteCapacityUnits ?? 0
+            }
+            : undefined
+    };
+}
+
+/** Lists where `actual` differs from `expected`, with defaults filled in on both sides. */
+export function diffTableDefinitions(expected: DynamoTableDefinition, actual: DynamoTableDefinition): DynamoTableDifference[] {
+    const differences: DynamoTableDifference[] = [];
+    const compare = (path: string, expectedValue: unknown, actualValue: unknown) => {
+        if (JSON.stringify(expectedValue) !== JSON.stringify(actualValue)) {
+            differences.push({path, expected: expectedValue, actual: actualValue});
+        }
+    };
+    const declared = normalizeDefinition(expected);
+    const deployed = normalizeDefinition(actual);
+
+    TABLE_FIELDS.forEach(field => compare(field, declared[field], deployed[field]));
+    declared.indexes.forEach(index => {
+        const deployedIndex = deployed.indexes.find(candidate => candidate.name === index.name);
+        if (!deployedIndex) {
+            differences.push({path: `indexes.${index.name}`, expected: index});
+            return;
+        }
+        INDEX_FIELDS.forEach(field => compare(`indexes.${index.name}.${field}`, index[field], deployedIndex[field]));
+    });
+    deployed.indexes
+        .filter(index => !declared.indexes.some(candidate => candidate.name === index.name))
+        .forEach(index => differences.push({path: `indexes.${index.name}`, actual: index}));
+    return differences;
+}
+
+/**
+ * A table declared in code: the single source for its key schema, indexes, TTL and billing.
+ * Creates the table, reports drift of the deployed one and builds services that use the
+ * declared keys.
+ *
+ *     const users = new DynamoTable({name: 'users', pkName: 'pk', skName: 'sk', ttlAttribute: 'expiresAt'});
+ *     await users.ensureTable(client);
+ *     const service = users.createService({versionAttribute: 'version'});
+ */
+export class DynamoTable {
+    constructor(readonly definition: DynamoTableDefinition) {
+        this.validate();
+    }
+
+    get name(): string {
+        return this.definition.name;
+    }
+
+    /** A service for this table; a `lifecycle` defaults to the table's TTL attribute. */
+    createService(options: Omit<DynamoDBServiceOptions, 'skName' | 'indexes'> = {}): DynamoDBService {
+        const {name, pkName, skName, indexes, ttlAttribute} = this.definition;
+        return new DynamoDBService(name, pkName, {
+            ...options,
+            skName,
+            indexes,
+            lifecycle: options.lifecycle && {ttlAttribute, ...options.lifecycle}
+        });
+    }
+
+    toCreateTableInput(): CreateTableCommandInput {
+        const {name, billingMode = 'PAY_PER_REQUEST', throughput, indexes = []} = this.definition;
+        const attributes = new Map<string, DynamoKeyAttributeType>();
+        const keySchema = (schema: KeyDefinition): KeySchemaElement[] => {
+            attributes.set(schema.pkName, schema.pkType ?? 'S');
+            if (schema.skName) attributes.set(schema.skName, schema.skType ?? 'S');
+            return [
+                {AttributeName: schema.pkName, KeyType: 'HASH'},
+                ...(schema.skName ? [{AttributeName: schema.skName, KeyType: 'RANGE' as const}] : [])
+            ];
+        };
+        const provisioned = billingMode === 'PROVISIONED'
+            ? {ProvisionedThroughput: {ReadCapacityUnits: throughput!.readCapacityUnits, WriteCapacityUnits: throughput!.writeCapacityUnits}}
+            : {};
+        const toIndex = (index: DynamoTableIndexDefinition) => ({
+            IndexName: index.name,
+            KeySchema: keySchema(index),
+            Projection: toProjection(index.projection)
+        });
+        const tableKeySchema = keySchema(this.definition);
+        const globalIndexes = indexes.filter(index => index.type !== 'LSI').map(index => ({...toIndex(index), ...provisioned}));
+        const localIndexes = indexes.filter(index => index.type === 'LSI').map(toIndex);
+
+        return {
+            TableName: name,
+            KeySchema: tableKeySchema,
+            AttributeDefinitions: [...attributes].map(([AttributeName, AttributeType]) => ({AttributeName, AttributeType})),
+            BillingMode: billingMode,
+            ...provisioned,
+            GlobalSecondaryIndexes: globalIndexes.length ? globalIndexes : undefined,
+            LocalSecondaryIndexes: localIndexes.length ? localIndexes : undefined
+        };
+    }
+
+    /**
+     * Creates the table unless it exists, waits until it and its indexes are ACTIVE and
+     * enables TTL. Existing tables are not changed; their drift is returned instead.
+     */
+    async ensureTable(client: DynamoDBClient, options: DynamoEnsureTableOptions = {}): Promise<DynamoEnsureTableResult> {
+        try {
+            if (!await this.describeTable(client) && await this.createTable(client)) {
+                await this.waitForActive(client, options);
+                await this.enableTimeToLive(client);
+                return {created: true, differences: []};
+            }
+            await this.waitForActive(client, options);
+            return {created: false, differences: await this.diff(client)};
+        } catch (error) {
+            throw toDynamoError(error, {tableName: this.name});
+        }
+    }
+
+    /** The deployed table as a definition, or `undefined` when it does not exist. */
+    async describe(client: DynamoDBClient): Promise<DynamoTableDefinition | undefined> {
+        try {
+            const table = await this.describeTable(client);
+            if (!table) return undefined;
+            const {TimeToLiveDescription} = await client.send(new DescribeTimeToLiveCommand({TableName: this.name}));
+            return fromTableDescription(table, TimeToLiveDescription);
+        } catch (error) {
+            throw toDynamoError(error, {tableName: this.name});
+        }
+    }
+
+    /** Compares the deployed table with the definition. Fails when the table does not exist. */
+    async diff(client: DynamoDBClient): Promise<DynamoTableDifference[]> {
+        const deployed = await this.describe(client);
+        if (!deployed) {
+            throw new DynamoResourceNotFoundError(`Table ${this.name} does not exist`, this.name);
+        }
+        return diffTableDefinitions(this.definition, deployed);
+    }
+
+    private async describeTable(client: DynamoDBClient): Promise<TableDescription | undefined> {
+        try {
+            const {Table} = await client.send(new DescribeTableCommand({TableName: this.name}));
+            return Table;
+        } catch (error) {
+            if ((error as Error)?.name === 'ResourceNotFoundException') return undefined;
+            throw error;
+        }
+    }
+
+    /** Returns false when another process created the table first. */
+    private async createTable(client: DynamoDBClient): Promise<boolean> {
+        try {
+            await client.send(new CreateTableCommand(this.toCreateTableInput()));
+            return true;
+        } catch (error) {
+            if ((error as Error)?.name === 'ResourceInUseException') return false;
+            throw error;
+        }
+    }
+
+    private async enableTimeToLive(client: DynamoDBClient): Promise<void> {
+        if (!this.definition.ttlAttribute) return;
+        await client.send(new UpdateTimeToLiveCommand({
+            TableName: this.name,
+            TimeToLiveSpecification: {Enabled: true, AttributeName: this.definition.ttlAttribute}
+        }));
+    }
+
+    private async waitForActive(client: DynamoDBClient, options: DynamoEnsureTableOptions): Promise<void> {
+        const {timeoutMs = 5 * 60 * 1000, pollIntervalMs = 1000} = options;
+        const deadline = Date.now() + timeoutMs;
+        for (;;) {
+            const table = await this.describeTable(client);
+            const active = table?.TableStatus === 'ACTIVE'
+                && (table.GlobalSecondaryIndexes || []).every(index => index.IndexStatus === 'ACTIVE');
+            if (active) return;
+            if (Date.now() >= deadline) {
+                throw new DynamoResourceNotFoundError(`Table ${this.name} is not ACTIVE after ${timeoutMs} ms`, this.name);
+            }
+            await sleep(pollIntervalMs);
+        }
+    }
+
+    private validate(): void {
+        const {name, pkName, billingMode, throughput, indexes = []} = this.definition;
+        if (!name || !pkName) {
+            throw new DynamoValidationError('Table definitions need a name and a partition key');
+        }
+        if (billingMode === 'PROVISIONED' && !throughput) {
+            throw new DynamoValidationError(`Provisioned table ${name} needs a throughput`);
+        }
+
+        const types = new Map<string, DynamoKeyAttributeType>();
+        [this.definition, ...indexes].forEach(schema => [
+            [schema.pkName, schema.pkType],
+            [schema.skName, schema.skType]
+        ].forEach(([attribute, type = 'S']) => {
+            if (!attribute) return;
+            if (types.has(attribute) && types.get(attribute) !== type) {
+                throw new DynamoValidationError(`Key attribute ${attribute} of table ${name} is declared as ${types.get(attribute)} and ${type}`);
+            }
+            types.set(attribute, type as DynamoKeyAttributeType);
+        }));
+
+        const names = new Set<string>();
+        indexes.forEach(index => {
+            if (names.has(index.name)) {
+                throw new DynamoValidationError(`Duplicate index ${index.name} on table ${name}`);
+            }
+            names.add(index.name);
+            if (index.type === 'LSI' && (index.pkName !== pkName || !index.skName)) {
+                throw new DynamoValidationError(
+                    `Local index ${index.name} must use the partition key ${pkName} of table ${name} and a sort key`
+                );
+            }
+        });
+    }
+}
@@ -0,0 +1,192 @@
+import {
+    DynamoDBClient,
+    TransactGetItem,
+    TransactGetItemsCommand,
+    TransactWriteItem,
+    TransactWriteItemsCommand
+} from "@aws-sdk/client-dynamodb";
+import {DynamoDBService} from "./DynamoDBService";
+import {DynamoUpdatePatch} from "./DynamoUpdateExpressionBuilder";
+import {DynamoKeyInput, DynamoTransactionDeleteOptions, DynamoTransactionWriteOptions} from "./types/DynamoWrite";
+import {DynamoFilterNode} from "./types/DynamoFilter";
+import {DynamoCommandObserver} from "./DynamoObservability";
+import {
+    DynamoTransactionCanceledError,
+    DynamoTransactionCancellationReason,
+    DynamoTransactionOperationType,
+    toDynamoError
+} from "./DynamoErrors";
+import {DynamoValidationError} from "@denis_bruns/core";
+
+export const MAX_TRANSACTION_ITEMS = 100;
+
+export interface DynamoTransactionExecuteOptions {
+    /** Makes retries of the same transaction idempotent for 10 minutes. */
+    clientRequestToken?: string;
+}
+
+function operationOf(item: TransactWriteItem | TransactGetItem): {type: DynamoTransactionOperationType; tableName: string} {
+    const [type, operation] = Object.entries(item).find(([, value]) => value) as [string, {TableName?: string}];
+    return {
+        type: (type.charAt(0).toLowerCase() + type.slice(1)) as DynamoTransactionOperationType,
+        tableName: operation.TableName ?? ''
+    };
+}
+
+/**
+ * Maps a failed transaction to a typed error. Items in cancellation reasons are unmarshalled by
+ * the service of their operation; other errors name the table when all operations share one.
+ */
+function toCanceledError(error: any, items: (TransactWriteItem | TransactGetItem)[], services: DynamoDBService[]): unknown {
+    if (error?.name !== 'TransactionCanceledException' || !Array.isArray(error.CancellationReasons)) {
+        const tableNames = new Set(items.map(item => operationOf(item).tableName));
+        if (tableNames.size !== 1) {
+            return toDynamoError(error);
+        }
+        return toDynamoError(error, {
+            tableName: [...tableNames][0],
+            unmarshallItem: item => services[0].unmarshallItem<Record<string, any>>(item)
+        });
+    }
+
+    const reasons = error.CancellationReasons.map((reason: any, index: number): DynamoTransactionCancellationReason => {
+        const {type, tableName} = operationOf(items[index]);
+        return {
+            index,
+            operation: type,
+            tableName,
+            code: reason?.Code ?? 'None',
+            message: reason?.Message,
+            item: reason?.Item ? services[index].unmarshallItem<Record<string, any>>(reason.Item) : undefined
+        };
+    });
+    return new DynamoTransactionCanceledError(reasons, error);
+}
+
+/**
+ * Collects writes across one or more tables and executes them atomically with
+ * `TransactWriteItems`. Items are marshalled and validated by the given services.
+ *
+ *     await new DynamoTransaction()
+ *         .update(orders, orderKey, {status: 'paid'}, {conditions: [{field: 'status', operator: '=', value: 'open'}]})
+ *         .update(inventory, sku, {stock: DynamoUpdateAction.increment(-1)})
+ *         .execute(client);
+ */
+export class DynamoTransaction {
+    private readonly items: TransactWriteItem[] = [];
+    private readonly services: DynamoDBService[] = [];
+    /** The hooks of the first service added observe the whole transaction. */
+    private observer?: DynamoCommandObserver;
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    put(service: DynamoDBService, item: object, options: DynamoTransactionWriteOptions = {}): this {
+        return this.add(service, service.toTransactPut(item, options));
+    }
+
+    /** Puts an item that must not exist yet. */
+    create(service: DynamoDBService, item: object, options: DynamoTransactionWriteOptions = {}): this {
+        return this.add(service, service.toTransactPut(item, options, true));
+    }
+
+    update<T>(
+        service: DynamoDBService,
+        key: DynamoKeyInput,
+        patch: DynamoUpdatePatch<T>,
+        options: DynamoTransactionWriteOptions = {}
+    ): this {
+        return this.add(service, service.toTransactUpdate(key, patch, options));
+    }
+
+    delete(service: DynamoDBService, key: DynamoKeyInput, options: DynamoTransactionDeleteOptions = {}): this {
+        return this.add(service, service.toTransactDelete(key, options));
+    }
+
+    conditionCheck(
+        service: DynamoDBService,
+        key: DynamoKeyInput,
+        conditions: DynamoFilterNode[],
+        options: Omit<DynamoTransactionWriteOptions, 'conditions'> = {}
+    ): this {
+        return this.add(service, service.toTransactConditionCheck(key, conditions, options));
+    }
+
+    toTransactItems(): TransactWriteItem[] {
+        return [...this.items];
+    }
+
+    /**
+     * Executes all operations atomically. A cancellation is rethrown as a
+     * `DynamoTransactionCanceledError` naming the failed operations.
+     */
+    async execute(client: DynamoDBClient, options: DynamoTransactionExecuteOptions = {}): Promise<void> {
+        if (!this.items.length) {
+            throw new DynamoValidationError('Transaction has no operations');
+        }
+
+        try {
+            const command = new TransactWriteItemsCommand(this.observer!.withConsumedCapacity({
+                TransactItems: this.items,
+                ClientRequestToken: options.clientRequestToken
+            }));
+            await this.observer!.observe(command, () => client.send(command));
+        } catch (error) {
+            throw toCanceledError(error, this.items, this.services);
+        }
+        await Promise.all(this.items.map((item, index) => {
+            const written = item.Put?.Item ?? item.Update?.Key ?? item.Delete?.Key;
+            return written && this.services[index].invalidateCache([written]);
+        }));
+    }
+
+    private add(service: DynamoDBService, item: TransactWriteItem): this {
+        if (this.items.length >= MAX_TRANSACTION_ITEMS) {
+            throw new DynamoValidationError(`Transactions support at most ${MAX_TRANSACTION_ITEMS} operations`);
+        }
+        this.items.push(item);
+        this.services.push(service);
+        this.observer ??= service.observer;
+        return this;
+    }
+}
+
+/** Reads up to 100 items across tables as one consistent snapshot with `TransactGetItems`. */
+export class DynamoTransactionGet {
+    private readonly items: TransactGetItem[] = [];
+    private readonly services: DynamoDBService[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    get(service: DynamoDBService, key: DynamoKeyInput): this {
+        if (this.items.length >= MAX_TRANSACTION_ITEMS) {
+            throw new DynamoValidationError(`Transactions support at most ${MAX_TRANSACTION_ITEMS} operations`);
+        }
+        this.items.push(service.toTransactGet(key));
+        this.services.push(service);
+        return this;
+    }
+
+    /** Returns the items in the order they were added, `undefined` for missing ones. */
+    async execute<T = Record<string, any>>(client: DynamoDBClient): Promise<(T | undefined)[]> {
+        if (!this.items.length) {
+            throw new DynamoValidationError('Transaction has no operations');
+        }
+
+        try {
+            const command = new TransactGetItemsCommand(
+                this.services[0].observer.withConsumedCapacity({TransactItems: this.items})
+            );
+            const response = await this.services[0].observer.observe(command, () => client.send(command));
+            return this.items.map((_, index) => {
+                const item = response?.Responses?.[index]?.Item;
+                return item ? this.services[index].unmarshallItem<T>(item) : undefined;
+            });
+        } catch (error) {
+            throw toCanceledError(error, this.items, this.services);
+        }
+    }
+}
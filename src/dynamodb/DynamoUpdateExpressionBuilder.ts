@@ -0,0 +1,191 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {DynamoExpression} from './types/DynamoExpression';
+import {defaultMarshaller, IDynamoMarshaller} from "./DynamoMarshaller";
+import {defaultValidationPolicy, DynamoValidationPolicy} from "./DynamoValidator";
+import {DynamoValidationError} from "@denis_bruns/core";
+
+export type DynamoSetValues =
+    string[]
+    | (number | bigint)[]
+    | Uint8Array[]
+    | Set<string>
+    | Set<number | bigint>
+    | Set<Uint8Array>;
+
+type DynamoUpdateActionKind =
+    'remove'
+    | 'increment'
+    | 'addToSet'
+    | 'removeFromSet'
+    | 'appendToList'
+    | 'ifNotExists';
+
+/**
+ * Marks a patch value that is not a plain assignment, e.g. `{views: DynamoUpdateAction.increment()}`.
+ */
+export class DynamoUpdateAction {
+    private constructor(readonly kind: DynamoUpdateActionKind, readonly value?: any) {
+    }
+
+    static remove(): DynamoUpdateAction {
+        return new DynamoUpdateAction('remove');
+    }
+
+    /** Atomic counter; a missing attribute counts as 0. */
+    static increment(by: number = 1): DynamoUpdateAction {
+        return new DynamoUpdateAction('increment', by);
+    }
+
+    /** Adds elements to a string, number or binary set. Top-level attributes only. */
+    static addToSet(values: DynamoSetValues): DynamoUpdateAction {
+        return new DynamoUpdateAction('addToSet', values);
+    }
+
+    /** Removes elements from a string, number or binary set. Top-level attributes only. */
+    static removeFromSet(values: DynamoSetValues): DynamoUpdateAction {
+        return new DynamoUpdateAction('removeFromSet', values);
+    }
+
+    /** Appends to a list, creating it when missing. */
+    static appendToList(values: any[]): DynamoUpdateAction {
+        return new DynamoUpdateAction('appendToList', values);
+    }
+
+    /** Only sets the attribute if it does not exist yet. */
+    static ifNotExists(value: any): DynamoUpdateAction {
+        return new DynamoUpdateAction('ifNotExists', value);
+    }
+}
+
+/**
+ * Partial update of an item. Keys may be dotted paths into maps (`address.city`),
+ * `undefined` removes the attribute.
+ */
+export type DynamoUpdatePatch<T = Record<string, any>> =
+    { [K in keyof T]?: T[K] | DynamoUpdateAction }
+    & { [path: string]: unknown };
+
+interface UpdateClauses {
+    SET: string[];
+    REMOVE: string[];
+    ADD: string[];
+    DELETE: string[];
+}
+
+export class DynamoUpdateExpressionBuilder {
+    constructor(
+        private readonly marshaller: IDynamoMarshaller = defaultMarshaller,
+        private readonly validation: DynamoValidationPolicy = defaultValidationPolicy
+    ) {
+    }
+
+    buildUpdateExpression(patch: DynamoUpdatePatch<any>): DynamoExpression {
+        const entries = Object.entries(patch || {});
+        if (!entries.length) {
+            throw new DynamoValidationError('Update patch must contain at least one attribute');
+        }
+
+        const paths = entries.map(([field]) => field);
+        paths.forEach(field => this.validation.validateFieldName(field));
+        this.assertNoOverlappingPaths(paths);
+
+        const expr: DynamoExpression = {
+            ExpressionAttributeNames: {},
+            ExpressionAttributeValues: {}
+        };
+        const clauses: UpdateClauses = {SET: [], REMOVE: [], ADD: [], DELETE: []};
+
+        entries.forEach(([field, value], index) => {
+            const path = this.addPath(expr, field, index);
+            const valueRef = `:upd${index}`;
+
+            if (value === undefined) {
+                clauses.REMOVE.push(path);
+                return;
+            }
+            if (!(value instanceof DynamoUpdateAction)) {
+                if (value !== null) this.validation.validateValue(value);
+                expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value);
+                this.validation.validateType(field, expr.ExpressionAttributeValues![valueRef]);
+                clauses.SET.push(`${path} = ${valueRef}`);
+                return;
+            }
+
+            switch (value.kind) {
+                case 'remove':
+                    clauses.REMOVE.push(path);
+                    break;
+                case 'increment':
+                    if (typeof value.value !== 'number' || !Number.isFinite(value.value)) {
+                        throw new DynamoValidationError(`Increment of ${field} must be a finite number`);
+                    }
+                    expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value.value);
+                    expr.ExpressionAttributeValues![`${valueRef}_0`] = {N: "0"};
+                    clauses.SET.push(`${path} = if_not_exists(${path}, ${valueRef}_0) + ${valueRef}`);
+                    break;
+                case 'addToSet':
+                case 'removeFromSet':
+                    if (field.includes('.')) {
+                        throw new DynamoValidationError(`Set operations only support top-level attributes: ${field}`);
+                    }
+                    expr.ExpressionAttributeValues![valueRef] = this.toSetValue(field, value.value);
+                    (value.kind === 'addToSet' ? clauses.ADD : clauses.DELETE).push(`${path} ${valueRef}`);
+                    break;
+                case 'appendToList':
+                    if (!Array.isArray(value.value) || !value.value.length) {
+                        throw new DynamoValidationError(`Values appended to ${field} must be a non-empty array`);
+                    }
+                    this.validation.validateValue(value.value);
+                    expr.ExpressionAttributeValues![valueRef] = {L: value.value.map(item => this.marshaller.marshall(item))};
+                    expr.ExpressionAttributeValues![`${valueRef}_0`] = {L: []};
+                    clauses.SET.push(`${path} = list_append(if_not_exists(${path}, ${valueRef}_0), ${valueRef})`);
+                    break;
+                case 'ifNotExists':
+                    this.validation.validateValue(value.value);
+                    expr.ExpressionAttributeValues![valueRef] = this.marshaller.marshall(value.value);
+                    clauses.SET.push(`${path} = if_not_exists(${path}, ${valueRef})`);
+                    break;
+            }
+            if (value.kind !== 'remove') {
+                this.validation.validateType(field, expr.ExpressionAttributeValues![valueRef]);
+            }
+        });
+
+        expr.UpdateExpression = (Object.keys(clauses) as (keyof UpdateClauses)[])
+            .filter(clause => clauses[clause].length)
+            .map(clause => `${clause} ${clauses[clause].join(", ")}`)
+            .join(" ");
+
+        return expr;
+    }
+
+    private addPath(expr: DynamoExpression, field: string, index: number): string {
+        return field
+            .split(".")
+            .map((part, idx) => {
+                expr.ExpressionAttributeNames![`#upd${index}_${idx}`] = part;
+                return `#upd${index}_${idx}`;
+            })
+            .join(".");
+    }
+
+    private toSetValue(field: string, values: DynamoSetValues): AttributeValue {
+        const elements = values instanceof Set ? [...values] : values;
+        if (!Array.isArray(elements) || !elements.length) {
+            throw new DynamoValidationError(`Set values for ${field} must be a non-empty array or set`);
+        }
+        this.validation.validateValue(elements);
+        return this.marshaller.marshall(new Set<unknown>(elements));
+    }
+
+    /** DynamoDB rejects update expressions in which one path is a prefix of another. */
+    private assertNoOverlappingPaths(paths: string[]): void {
+        paths.forEach((path, i) => {
+            const other = paths.slice(i + 1).find(candidate =>
+                candidate === path || candidate.startsWith(`${path}.`) || path.startsWith(`${candidate}.`));
+            if (other !== undefined) {
+                throw new DynamoValidationError(`Update paths overlap: ${path} and ${other}`);
+            }
+        });
+    }
+}
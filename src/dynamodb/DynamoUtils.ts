@@ -1,63 +1,130 @@
 import {AttributeValue} from "@aws-sdk/client-dynamodb";
-import {DynamoValidationError} from "@denis_bruns/core";
+import {defaultMarshaller} from "./DynamoMarshaller";
 
+/** Marshals with the backward compatible `defaultMarshaller`. */
 export function toDynamoDBValue(value: any): AttributeValue {
-    if (value === null || value === undefined) {
-        throw new DynamoValidationError("Value cannot be null or undefined");
-    }
+    return defaultMarshaller.marshall(value);
+}
 
-    if (typeof value === "string") return {S: value};
-    if (typeof value === "number") return {N: value.toString()};
-    if (typeof value === "boolean") return {BOOL: value};
+export function fromDynamoDBValue(val: AttributeValue): any {
+    return defaultMarshaller.unmarshall(val);
+}
 
-    if (Array.isArray(value)) {
-        if (!value.length) {
-            throw new DynamoValidationError("Empty arrays not supported");
-        }
-        const firstType = typeof value[0];
-        if (value.every((item) => typeof item === firstType)) {
-            if (firstType === "string") {
-                return {SS: value};
-            } else if (firstType === "number") {
-                return {NS: value.map((n: number) => n.toString())};
-            }
-        }
-        return {L: value.map(toDynamoDBValue)};
-    }
+type ProjectionRoot<F extends string> =
+    F extends `${infer Root}.${string}` ? ProjectionRoot<Root>
+        : F extends `${infer Root}[${string}` ? Root
+            : F;
 
-    if (typeof value === "object") {
-        const mapVal: Record<string, AttributeValue> = {};
-        for (const [k, v] of Object.entries(value)) {
-            mapVal[k] = toDynamoDBValue(v);
-        }
-        return {M: mapVal};
-    }
+export type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
 
-    throw new DynamoValidationError(`Unsupported type: ${typeof value}`);
+/**
+ * Shape of `T` read with a projection: attributes named by `F` as they are, attributes
+ * only reached through nested paths (`address.city`, `tags[0]`) as deep partials.
+ */
+export type ProjectedItem<T, F extends string> = {
+    [K in keyof T as K extends ProjectionRoot<F> ? K : never]: K extends F ? T[K] : DeepPartial<T[K]>
+};
+
+export function mapDynamoDBItemToType<T>(item: Record<string, AttributeValue>): T;
+export function mapDynamoDBItemToType<T, F extends string>(
+    item: Record<string, AttributeValue>,
+    fields: readonly F[]
+): ProjectedItem<T, F>;
+export function mapDynamoDBItemToType<T>(item: Record<string, AttributeValue>, _fields?: readonly string[]): T {
+    return defaultMarshaller.unmarshallItem<T>(item);
+}
+/** `coefficient * 10^exponent`, so numbers keep all their digits. */
+export interface Decimal {
+    coefficient: bigint;
+    exponent: number;
 }
 
-export function fromDynamoDBValue(val: AttributeValue): any {
-    if (val.S !== undefined) return val.S;
-    if (val.N !== undefined) return parseFloat(val.N);
-    if (val.BOOL !== undefined) return val.BOOL;
-    if (val.SS !== undefined) return val.SS;
-    if (val.NS !== undefined) return val.NS.map(n => parseFloat(n));
-    if (val.M !== undefined) return mapDynamoDBItemToType<any>(val.M);
-    if (val.L !== undefined) return val.L.map(v => fromDynamoDBValue(v));
+const NUMBER_REGEX = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
 
-    console.warn("Unrecognized AttributeValue:", val);
-    return null;
+/** Parses a DynamoDB number exactly; `undefined` when it is malformed. */
+export function parseDecimal(value: string): Decimal | undefined {
+    const match = NUMBER_REGEX.exec(value.trim());
+    if (!match || !(match[2] || match[3])) return undefined;
+    const fraction = match[3] || "";
+    return {
+        coefficient: BigInt(`${match[1] === "-" ? "-" : ""}${match[2] || ""}${fraction}` || "0"),
+        exponent: (match[4] ? Number(match[4]) : 0) - fraction.length
+    };
 }
 
-export function mapDynamoDBItemToType<T>(item: Record<string, AttributeValue>): T {
-    if (!item || typeof item !== 'object') {
-        return {} as T;
-    }
+/** Both coefficients scaled to the smaller exponent, and that exponent. */
+export function alignDecimals(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const exponent = Math.min(a.exponent, b.exponent);
+    return [
+        a.coefficient * 10n ** BigInt(a.exponent - exponent),
+        b.coefficient * 10n ** BigInt(b.exponent - exponent),
+        exponent
+    ];
+}
 
-    const result: any = {};
-    for (const [key, val] of Object.entries(item)) {
-        if (!val || typeof val !== 'object') continue;
-        result[key] = fromDynamoDBValue(val);
+function compareNumbers(a: string, b: string): number | undefined {
+    const left = parseDecimal(a);
+    const right = parseDecimal(b);
+    if (!left || !right) return undefined;
+    const [x, y] = alignDecimals(left, right);
+    return x === y ? 0 : x < y ? -1 : 1;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+    return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+/** The type descriptor of an attribute value (`S`, `N`, `M`, ...). */
+export function typeOf(value: AttributeValue): string {
+    return Object.entries(value).find(([key, member]) => key !== '$unknown' && member !== undefined)![0];
+}
+
+/** Orders two scalars of the same type (S, N or B); `undefined` when they cannot be ordered. */
+export function compareValues(a: AttributeValue, b: AttributeValue): number | undefined {
+    if (a.S !== undefined && b.S !== undefined) return compareBytes(Buffer.from(a.S), Buffer.from(b.S));
+    if (a.N !== undefined && b.N !== undefined) return compareNumbers(a.N, b.N);
+    if (a.B !== undefined && b.B !== undefined) return compareBytes(a.B, b.B);
+    return undefined;
+}
+
+/** Elements of a set as scalar attribute values. */
+export function setElements(value: AttributeValue): AttributeValue[] {
+    if (value.SS) return value.SS.map(S => ({S}));
+    if (value.NS) return value.NS.map(N => ({N}));
+    if (value.BS) return value.BS.map(B => ({B}));
+    return [];
+}
+
+/** DynamoDB's equality: numbers by value, sets regardless of order, lists and maps deeply. */
+export function valuesEqual(a: AttributeValue, b: AttributeValue): boolean {
+    const type = typeOf(a);
+    if (type !== typeOf(b)) return false;
+
+    switch (type) {
+        case "S":
+        case "N":
+        case "B":
+            return compareValues(a, b) === 0;
+        case "BOOL":
+            return a.BOOL === b.BOOL;
+        case "NULL":
+            return true;
+        case "SS":
+        case "NS":
+        case "BS": {
+            const left = setElements(a);
+            const right = setElements(b);
+            return left.length === right.length
+                && left.every(element => right.some(other => valuesEqual(element, other)));
+        }
+        case "L":
+            return a.L!.length === b.L!.length && a.L!.every((element, i) => valuesEqual(element, b.L![i]));
+        case "M": {
+            const keys = Object.keys(a.M!);
+            return keys.length === Object.keys(b.M!).length
+                && keys.every(key => b.M![key] !== undefined && valuesEqual(a.M![key], b.M![key]));
+        }
+        default:
+            return false;
     }
-    return result as T;
 }
@@ -1,21 +1,12 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
 import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoFilterOperator} from "./types/DynamoFilter";
+import {DynamoFieldRule, DynamoValidationOptions} from "./types/DynamoValidation";
 
-const MAX_FIELD_DEPTH = 20;
-const MAX_FIELD_LENGTH = 255;
-const MAX_VALUE_LENGTH = 400000;
-const VALID_FIELD_REGEX = /^[a-zA-Z][a-zA-Z0-9_]*$/;
-
-const UNSAFE_PATTERNS = [
-    '__proto__',
-    'constructor',
-    'prototype',
-    '$',
-    ';',
-    'DROP',
-    'DELETE',
-    'INSERT',
-    'UPDATE'
-];
+const DEFAULT_FIELD_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_\-#]*$/;
+
+/** Names that reach the prototype of unmarshalled objects. */
+const PROTOTYPE_NAMES = ['__proto__', 'constructor', 'prototype'];
 
 export const NOSQL_OPERATORS = [
     '$where',
@@ -40,69 +31,128 @@ export const NOSQL_OPERATORS = [
     '$expr'
 ];
 
-export function validateFieldName(field: string): void {
-    if (!field) {
-        throw new DynamoValidationError('Field name cannot be empty');
+/**
+ * Checks field names and values before they are sent. Names always travel as
+ * `ExpressionAttributeNames` placeholders, so reserved words such as `status` or `delete`
+ * are fine; only prototype names and map keys that look like NoSQL operators are refused.
+ */
+export class DynamoValidationPolicy {
+    private readonly fieldPattern: RegExp;
+    private readonly maxFieldDepth: number;
+    private readonly maxFieldLength: number;
+    private readonly maxValueLength: number;
+
+    constructor(private readonly options: DynamoValidationOptions = {}) {
+        this.fieldPattern = options.fieldPattern ?? DEFAULT_FIELD_PATTERN;
+        this.maxFieldDepth = options.maxFieldDepth ?? 20;
+        this.maxFieldLength = options.maxFieldLength ?? 255;
+        this.maxValueLength = options.maxValueLength ?? 400000;
     }
 
-    // Check for SQL/NoSQL injection patterns
-    if (UNSAFE_PATTERNS.some(pattern =>
-        field.toLowerCase().includes(pattern.toLowerCase()))) {
-        throw new DynamoValidationError(`Field name contains unsafe pattern: ${field}`);
-    }
+    validateFieldName(field: string): void {
+        if (!field) {
+            throw new DynamoValidationError('Field name cannot be empty');
+        }
+
+        const parts = field.split('.');
+        if (parts.length > this.maxFieldDepth) {
+            throw new DynamoValidationError(`Field depth exceeds maximum of ${this.maxFieldDepth}`);
+        }
 
-    const parts = field.split('.');
-    if (parts.length > MAX_FIELD_DEPTH) {
-        throw new DynamoValidationError(`Field depth exceeds maximum of ${MAX_FIELD_DEPTH}`);
+        parts.forEach(part => {
+            if (PROTOTYPE_NAMES.includes(part)) {
+                throw new DynamoValidationError(`Field name contains unsafe pattern: ${field}`);
+            }
+            if (part.length > this.maxFieldLength) {
+                throw new DynamoValidationError(`Field part length exceeds maximum of ${this.maxFieldLength}`);
+            }
+            if (!this.fieldPattern.test(part)) {
+                throw new DynamoValidationError(`Invalid characters in field name: ${part}`);
+            }
+        });
+
+        this.ruleFor(field);
     }
 
-    parts.forEach(part => {
-        if (part.length > MAX_FIELD_LENGTH) {
-            throw new DynamoValidationError(`Field part length exceeds maximum of ${MAX_FIELD_LENGTH}`);
+    validateValue(value: any): void {
+        if (value === undefined || value === null) {
+            throw new DynamoValidationError('Value cannot be null or undefined');
         }
-        if (!VALID_FIELD_REGEX.test(part)) {
-            throw new DynamoValidationError(`Invalid characters in field name: ${part}`);
+
+        if (ArrayBuffer.isView(value)) {
+            if (value.byteLength > this.maxValueLength) {
+                throw new DynamoValidationError(`Value length exceeds maximum of ${this.maxValueLength}`);
+            }
+            return;
         }
-    });
-}
 
-export function validateValue(value: any): void {
-    if (value === undefined || value === null) {
-        throw new DynamoValidationError('Value cannot be null or undefined');
-    }
+        if (typeof value === 'string' && value.length > this.maxValueLength) {
+            throw new DynamoValidationError(`Value length exceeds maximum of ${this.maxValueLength}`);
+        }
 
-    const stringified = JSON.stringify(value);
-    const dangerousPatterns = [
-        '$where', '$regex', '$ne', '$gt', '$lt', '$gte', '$lte',
-        '$in', '$nin', '$or', '$and', '$not', '$exists', '$type',
-        '$mod', '$text', '$elemMatch', '$size', '$all', '$expr',
-        '__proto__', 'constructor', 'prototype'
-    ];
-
-    if (dangerousPatterns.some(pattern =>
-        stringified.toLowerCase().includes(pattern.toLowerCase()))) {
-        throw new DynamoValidationError('Potential NoSQL injection detected');
+        // Nested nulls are left to the marshaller, which decides whether to write them as NULL;
+        // undefined map entries are skipped when marshalling.
+        if (Array.isArray(value) || value instanceof Set) {
+            [...value].filter(item => item !== null).forEach(item => this.validateValue(item));
+        } else if (typeof value === 'object') {
+            const keys = [...Object.keys(value), ...Object.getOwnPropertyNames(value)];
+            if (keys.some(key => NOSQL_OPERATORS.includes(key)
+                || key.split('.').some(part => PROTOTYPE_NAMES.includes(part)))) {
+                throw new DynamoValidationError('Potential NoSQL injection detected');
+            }
+
+            Object.values(value).filter(item => item !== null && item !== undefined).forEach(item => this.validateValue(item));
+        }
     }
 
-    if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
-        throw new DynamoValidationError(`Value length exceeds maximum of ${MAX_VALUE_LENGTH}`);
+    /** Checks `operator` against the allowed operators of the field's rule. */
+    validateOperator(field: string, operator: DynamoFilterOperator): void {
+        const operators = this.ruleFor(field)?.operators;
+        if (operators && !operators.includes(operator)) {
+            throw new DynamoValidationError(`Operator ${operator} is not allowed on ${field}`);
+        }
     }
 
-    if (Array.isArray(value)) {
-        if (!value.length) {
-            throw new DynamoValidationError('Empty arrays not supported');
-        }
-        value.forEach(validateValue);
-    } else if (typeof value === 'object' && value !== null) {
-        const propsToCheck = [...Object.keys(value), ...Object.getOwnPropertyNames(value)];
-        if (propsToCheck.some(prop => dangerousPatterns.includes(prop))) {
-            throw new DynamoValidationError('Potential NoSQL injection detected');
+    /** Checks a marshalled value against the expected types of a top-level attribute. */
+    validateType(field: string, value: AttributeValue): void {
+        const types: readonly string[] | undefined = field.includes('.') ? undefined : this.ruleFor(field)?.types;
+        const type = Object.entries(value).find(([, member]) => member !== undefined)?.[0];
+        if (types && (!type || !types.includes(type))) {
+            throw new DynamoValidationError(`${field} expects ${types.join(' or ')}, got ${type}`);
         }
+    }
+
+    private ruleFor(field: string): DynamoFieldRule | undefined {
+        const {fields} = this.options;
+        if (!fields) return undefined;
 
-        Object.values(value).forEach(validateValue);
+        const root = field.split('.')[0];
+        if (!Object.prototype.hasOwnProperty.call(fields, root)) {
+            throw new DynamoValidationError(`Field ${root} is not allowed`);
+        }
+        return fields[root];
     }
 }
 
+export const defaultValidationPolicy = new DynamoValidationPolicy();
+
+/** Accepts a policy or the options for a new one. */
+export function resolveValidationPolicy(
+    validation?: DynamoValidationOptions | DynamoValidationPolicy
+): DynamoValidationPolicy {
+    if (!validation) return defaultValidationPolicy;
+    return validation instanceof DynamoValidationPolicy ? validation : new DynamoValidationPolicy(validation);
+}
+
+/** Validates with the default policy. */
+export function validateFieldName(field: string): void {
+    defaultValidationPolicy.validateFieldName(field);
+}
+
+/** Validates with the default policy. */
+export function validateValue(value: any): void {
+    defaultValidationPolicy.validateValue(value);
+}
 
 export function validatePagination(pagination: any = {}): void {
     if (!pagination) {
@@ -0,0 +1,859 @@
+import {
+    AttributeValue,
+    BatchGetItemCommandInput,
+    BatchWriteItemCommandInput,
+    CancellationReason,
+    ConditionalCheckFailedException,
+    ConsumedCapacity,
+    CreateTableCommandInput,
+    DeleteItemCommandInput,
+    DynamoDBClient,
+    GetItemCommandInput,
+    KeySchemaElement,
+    PutItemCommandInput,
+    QueryCommandInput,
+    ResourceInUseException,
+    ResourceNotFoundException,
+    ScanCommandInput,
+    TableDescription,
+    TransactGetItemsCommandInput,
+    TransactionCanceledException,
+    TransactWriteItemsCommandInput,
+    UpdateItemCommandInput,
+    UpdateTimeToLiveCommandInput
+} from "@aws-sdk/client-dynamodb";
+import {DynamoIndexDefinition, DynamoKeySchema} from "../types/DynamoIndex";
+import {DynamoLocalValidationException} from "./DynamoLocalErrors";
+import {
+    addValue,
+    assertNoOverlap,
+    deleteValue,
+    DynamoLocalCondition,
+    DynamoLocalOperand,
+    DynamoLocalPlaceholders,
+    DynamoLocalUpdate,
+    evaluateCondition,
+    parseCondition,
+    parseProjection,
+    parseUpdate,
+    resolveOperand
+} from "./DynamoLocalExpressions";
+import {DynamoLocalTable, DynamoLocalTableDefinition} from "./DynamoLocalTable";
+import {
+    cloneItem,
+    getPath,
+    itemSize,
+    normalizeItem,
+    normalizeValue,
+    PathElement,
+    removePath,
+    setPath
+} from "./DynamoLocalValues";
+
+type Item = Record<string, AttributeValue>;
+type WriteKind = 'Put' | 'Update' | 'Delete' | 'ConditionCheck';
+
+export interface DynamoLocalOptions {
+    /** Bytes a Query or Scan evaluates before it stops with a `LastEvaluatedKey`; DynamoDB uses 1 MB. */
+    pageSizeBytes?: number;
+}
+
+interface ExpressionInput {
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Item;
+    ProjectionExpression?: string;
+    ReturnConsumedCapacity?: string;
+}
+
+/** A write checked against the current item, applied once every write of its request passed. */
+interface PreparedWrite {
+    table: DynamoLocalTable;
+    key: Item;
+    existing?: Item;
+    /** The item after the write; `null` deletes it, `undefined` leaves it untouched. */
+    next?: Item | null;
+    /** Top-level attributes touched by an update. */
+    updated: string[];
+    failed: boolean;
+    returnOld: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 1024 * 1024;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_WRITE_REQUESTS = 25;
+const MAX_TRANSACTION_ITEMS = 100;
+const WRITE_KINDS: WriteKind[] = ['ConditionCheck', 'Put', 'Delete', 'Update'];
+
+function readUnits(bytes: number, consistent?: boolean): number {
+    return Math.max(1, Math.ceil(bytes / 4096)) * (consistent ? 1 : 0.5);
+}
+
+function writeUnits(bytes: number): number {
+    return Math.max(1, Math.ceil(bytes / 1024));
+}
+
+function pick(item: Item | undefined, names: string[]): Item {
+    return Object.fromEntries(names.filter(name => item?.[name]).map(name => [name, item![name]]));
+}
+
+function segmentOf(partition: string, totalSegments: number): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < partition.length; i++) {
+        hash = Math.imul(hash ^ partition.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash % totalSegments;
+}
+
+function keySchemaOf(elements: KeySchemaElement[] = []): DynamoKeySchema {
+    return {
+        pkName: elements.find(element => element.KeyType === 'HASH')?.AttributeName ?? '',
+        skName: elements.find(element => element.KeyType === 'RANGE')?.AttributeName
+    };
+}
+
+/** What `DescribeTable` reports for tables created with `createTable`: string keys and on-demand billing. */
+function toCreateTableInput(definition: DynamoLocalTableDefinition): CreateTableCommandInput {
+    const keySchema = ({pkName, skName}: DynamoKeySchema): KeySchemaElement[] => [
+        {AttributeName: pkName, KeyType: 'HASH'},
+        ...(skName ? [{AttributeName: skName, KeyType: 'RANGE' as const}] : [])
+    ];
+    const indexes = definition.indexes || [];
+    const toIndex = (index: DynamoIndexDefinition) => ({
+        IndexName: index.name,
+        KeySchema: keySchema(index),
+        Projection: {ProjectionType: 'ALL' as const}
+    });
+    const globalIndexes = indexes.filter(index => index.type !== 'LSI').map(toIndex);
+    const localIndexes = indexes.filter(index => index.type === 'LSI').map(toIndex);
+    const attributes = new Set([definition, ...indexes]
+        .flatMap(schema => [schema.pkName, schema.skName])
+        .filter((name): name is string => !!name));
+
+    return {
+        TableName: definition.name,
+        KeySchema: keySchema(definition),
+        AttributeDefinitions: [...attributes].map(AttributeName => ({AttributeName, AttributeType: 'S' as const})),
+        BillingMode: 'PAY_PER_REQUEST',
+        GlobalSecondaryIndexes: globalIndexes.length ? globalIndexes : undefined,
+        LocalSecondaryIndexes: localIndexes.length ? localIndexes : undefined
+    };
+}
+
+function conjuncts(condition: DynamoLocalCondition): DynamoLocalCondition[] {
+    return condition.kind === 'and' ? [...conjuncts(condition.left), ...conjuncts(condition.right)] : [condition];
+}
+
+function isKeyPath(operand: DynamoLocalOperand, name: string | undefined): boolean {
+    return operand.kind === 'path' && operand.path.length === 1
+        && 'name' in operand.path[0] && operand.path[0].name === name;
+}
+
+function conditionPaths(condition: DynamoLocalCondition): PathElement[][] {
+    const operandPaths = (operands: DynamoLocalOperand[]) =>
+        operands.flatMap(operand => operand.kind === 'path' || operand.kind === 'size' ? [operand.path] : []);
+    switch (condition.kind) {
+        case 'and':
+        case 'or':
+            return [...conditionPaths(condition.left), ...conditionPaths(condition.right)];
+        case 'not':
+            return conditionPaths(condition.condition);
+        case 'compare':
+            return operandPaths([condition.left, condition.right]);
+        case 'between':
+            return operandPaths([condition.operand, condition.lower, condition.upper]);
+        case 'in':
+            return operandPaths([condition.operand, ...condition.list]);
+        case 'function':
+            return operandPaths(condition.args);
+    }
+}
+
+/** Copies the projected value, dropping the gaps left by list indexes that were not projected. */
+function compact(value: AttributeValue): AttributeValue {
+    if (value.L) return {L: value.L.flatMap(element => element === undefined ? [] : [compact(element)])};
+    if (value.M) return {M: Object.fromEntries(Object.entries(value.M).map(([name, v]) => [name, compact(v)]))};
+    return cloneItem({value}).value;
+}
+
+/**
+ * In-memory stand-in for DynamoDB behind a real `DynamoDBClient`, so services run end to end
+ * in tests without a network. Commands are answered from tables created with `createTable`,
+ * including expression evaluation, conditional failures, pagination and transactions.
+ */
+export class DynamoLocal {
+    readonly client: DynamoDBClient;
+    private readonly tables = new Map<string, DynamoLocalTable>();
+    private readonly schemas = new Map<string, CreateTableCommandInput>();
+    private readonly timeToLive = new Map<string, string>();
+    /** Tables created by `CreateTable`, which the next `DescribeTable` still reports as CREATING. */
+    private readonly creating = new Set<string>();
+    private readonly pageSizeBytes: number;
+    private readonly handlers: Record<string, (input: any) => object> = {
+        GetItemCommand: input => this.getItem(input),
+        PutItemCommand: input => this.putItem(input),
+        UpdateItemCommand: input => this.updateItem(input),
+        DeleteItemCommand: input => this.deleteItem(input),
+        QueryCommand: input => this.query(input),
+        ScanCommand: input => this.scan(input),
+        BatchGetItemCommand: input => this.batchGetItem(input),
+        BatchWriteItemCommand: input => this.batchWriteItem(input),
+        TransactGetItemsCommand: input => this.transactGetItems(input),
+        TransactWriteItemsCommand: input => this.transactWriteItems(input),
+        CreateTableCommand: input => this.createTableCommand(input),
+        DescribeTableCommand: input => ({Table: this.describeTable(input.TableName)}),
+        DeleteTableCommand: input => this.deleteTableCommand(input),
+        UpdateTimeToLiveCommand: input => this.updateTimeToLive(input),
+        DescribeTimeToLiveCommand: input => this.describeTimeToLive(input)
+    };
+
+    constructor(options: DynamoLocalOptions = {}) {
+        this.pageSizeBytes = options.pageSizeBytes ?? DEFAULT_PAGE_SIZE;
+        this.client = new DynamoDBClient({
+            region: 'local',
+            credentials: {accessKeyId: 'local', secretAccessKey: 'local'}
+        });
+        this.client.middlewareStack.add(
+            (_next, context) => async args => ({
+                output: {$metadata: {}, ...this.execute(context.commandName!, args.input)},
+                response: {}
+            }),
+            {step: 'initialize', name: 'dynamoLocal'}
+        );
+    }
+
+    createTable(definition: DynamoLocalTableDefinition): DynamoLocalTable {
+        if (this.tables.has(definition.name)) {
+            throw new DynamoLocalValidationException(`Table already exists: ${definition.name}`);
+        }
+        const table = new DynamoLocalTable(definition);
+        this.tables.set(definition.name, table);
+        this.schemas.set(definition.name, toCreateTableInput(definition));
+        return table;
+    }
+
+    deleteTable(name: string): void {
+        this.table(name);
+        this.tables.delete(name);
+        this.schemas.delete(name);
+        this.timeToLive.delete(name);
+        this.creating.delete(name);
+    }
+
+    /** All items of a table in key order, for assertions in tests. */
+    items(tableName: string): Item[] {
+        return this.table(tableName).scan().map(cloneItem);
+    }
+
+    /** Removes all items but keeps the tables. */
+    reset(): void {
+        this.tables.forEach(table => table.clear());
+    }
+
+    private execute(commandName: string, input: object): object {
+        const handler = this.handlers[commandName];
+        if (!handler) {
+            throw new DynamoLocalValidationException(`DynamoLocal does not support ${commandName}`);
+        }
+        return handler(input);
+    }
+
+    private table(name: string | undefined): DynamoLocalTable {
+        const table = this.tables.get(name ?? '');
+        if (!table) {
+            throw new ResourceNotFoundException({message: 'Requested resource not found', $metadata: {}});
+        }
+        return table;
+    }
+
+    private createTableCommand(input: CreateTableCommandInput) {
+        const name = input.TableName ?? '';
+        if (this.tables.has(name)) {
+            throw new ResourceInUseException({message: `Table already exists: ${name}`, $metadata: {}});
+        }
+        this.createTable({
+            name,
+            ...keySchemaOf(input.KeySchema),
+            indexes: [
+                ...(input.GlobalSecondaryIndexes || []).map(index => ({type: 'GSI' as const, index})),
+                ...(input.LocalSecondaryIndexes || []).map(index => ({type: 'LSI' as const, index}))
+            ].map(({type, index}) => ({name: index.IndexName!, type, ...keySchemaOf(index.KeySchema)}))
+        });
+        this.schemas.set(name, input);
+        this.creating.add(name);
+        return {TableDescription: this.describeTable(name, 'CREATING')};
+    }
+
+    private deleteTableCommand(input: { TableName?: string }) {
+        const description = this.describeTable(input.TableName, 'DELETING');
+        this.deleteTable(input.TableName!);
+        return {TableDescription: description};
+    }
+
+    private describeTable(name: string | undefined, status?: 'CREATING' | 'DELETING'): TableDescription {
+        const table = this.table(name);
+        const schema = this.schemas.get(table.name)!;
+        const tableStatus = status ?? (this.creating.delete(table.name) ? 'CREATING' : 'ACTIVE');
+        return {
+            TableName: table.name,
+            TableStatus: tableStatus,
+            KeySchema: schema.KeySchema,
+            AttributeDefinitions: schema.AttributeDefinitions,
+            ItemCount: table.scan().length,
+            BillingModeSummary: schema.BillingMode ? {BillingMode: schema.BillingMode} : undefined,
+            ProvisionedThroughput: schema.ProvisionedThroughput,
+            GlobalSecondaryIndexes: schema.GlobalSecondaryIndexes?.map(index => ({...index, IndexStatus: tableStatus})),
+            LocalSecondaryIndexes: schema.LocalSecondaryIndexes
+        };
+    }
+
+    private updateTimeToLive(input: UpdateTimeToLiveCommandInput) {
+        const table = this.table(input.TableName);
+        const {Enabled, AttributeName} = input.TimeToLiveSpecification ?? {};
+        if (Enabled === this.timeToLive.has(table.name)) {
+            throw new DynamoLocalValidationException(`TimeToLive is already ${Enabled ? 'enabled' : 'disabled'}`);
+        }
+        if (Enabled) {
+            this.timeToLive.set(table.name, AttributeName!);
+        } else {
+            this.timeToLive.delete(table.name);
+        }
+        return {TimeToLiveSpecification: input.TimeToLiveSpecification};
+    }
+
+    private describeTimeToLive(input: { TableName?: string }) {
+        const attribute = this.timeToLive.get(this.table(input.TableName).name);
+        return {
+            TimeToLiveDescription: attribute
+                ? {TimeToLiveStatus: 'ENABLED', AttributeName: attribute}
+                : {TimeToLiveStatus: 'DISABLED'}
+        };
+    }
+
+    private placeholders(input: ExpressionInput): DynamoLocalPlaceholders {
+        const {ExpressionAttributeNames: names, ExpressionAttributeValues: values} = input;
+        if (names && !Object.keys(names).length) {
+            throw new DynamoLocalValidationException("ExpressionAttributeNames must not be empty");
+        }
+        if (values && !Object.keys(values).length) {
+            throw new DynamoLocalValidationException("ExpressionAttributeValues must not be empty");
+        }
+        return new DynamoLocalPlaceholders(names, values && normalizeItem(values));
+    }
+
+    private projection(input: ExpressionInput, placeholders: DynamoLocalPlaceholders): PathElement[][] | undefined {
+        if (!input.ProjectionExpression) return undefined;
+        const paths = parseProjection(input.ProjectionExpression, placeholders);
+        assertNoOverlap(paths);
+        return paths;
+    }
+
+    private project(item: Item, paths?: PathElement[][]): Item {
+        if (!paths) return cloneItem(item);
+
+        const projected: AttributeValue = {M: {}};
+        paths.forEach(path => {
+            const value = getPath(item, path);
+            if (value === undefined) return;
+            let target: AttributeValue = projected;
+            path.forEach((element, i) => {
+                const child: AttributeValue = i === path.length - 1 ? value
+                    : 'name' in path[i + 1] ? {M: {}} : {L: []};
+                if ('name' in element) {
+                    target = target.M![element.name] ??= child;
+                } else {
+                    target = target.L![element.index] ??= child;
+                }
+            });
+        });
+        return compact(projected).M!;
+    }
+
+    private capacity(input: ExpressionInput, tableName: string, units: number): { ConsumedCapacity?: ConsumedCapacity } {
+        return input.ReturnConsumedCapacity && input.ReturnConsumedCapacity !== 'NONE'
+            ? {ConsumedCapacity: {TableName: tableName, CapacityUnits: units}}
+            : {};
+    }
+
+    private capacities(input: ExpressionInput, units: Map<string, number>): { ConsumedCapacity?: ConsumedCapacity[] } {
+        return input.ReturnConsumedCapacity && input.ReturnConsumedCapacity !== 'NONE'
+            ? {ConsumedCapacity: [...units].map(([TableName, CapacityUnits]) => ({TableName, CapacityUnits}))}
+            : {};
+    }
+
+    private assertReturnValues(value: string | undefined, allowed: string[]): void {
+        if (value && value !== 'NONE' && !allowed.includes(value)) {
+            throw new DynamoLocalValidationException(`ReturnValues can only be one of NONE, ${allowed.join(", ")}`);
+        }
+    }
+
+    private assertUniqueKeys(table: DynamoLocalTable, keys: Item[], message: string): void {
+        keys.forEach((key, i) => {
+            if (keys.some((other, j) => j < i && table.compareKeys(key, other, table.definition) === 0)) {
+                throw new DynamoLocalValidationException(message);
+            }
+        });
+    }
+
+    private getItem(input: GetItemCommandInput) {
+        const table = this.table(input.TableName);
+        const key = table.validateKey(input.Key);
+        const placeholders = this.placeholders(input);
+        const projection = this.projection(input, placeholders);
+        placeholders.assertAllUsed();
+
+        const item = table.get(key);
+        return {
+            ...(item ? {Item: this.project(item, projection)} : {}),
+            ...this.capacity(input, table.name, readUnits(item ? itemSize(item) : 0, input.ConsistentRead))
+        };
+    }
+
+    private putItem(input: PutItemCommandInput) {
+        this.assertReturnValues(input.ReturnValues, ['ALL_OLD']);
+        const write = this.commit(this.prepareWrite('Put', input));
+        return {
+            ...(input.ReturnValues === 'ALL_OLD' && write.existing ? {Attributes: write.existing} : {}),
+            ...this.capacity(input, write.table.name, writeUnits(itemSize(write.next!)))
+        };
+    }
+
+    private updateItem(input: UpdateItemCommandInput) {
+        this.assertReturnValues(input.ReturnValues, ['ALL_OLD', 'ALL_NEW', 'UPDATED_OLD', 'UPDATED_NEW']);
+        const write = this.commit(this.prepareWrite('Update', input));
+        const attributes = {
+            ALL_OLD: write.existing,
+            ALL_NEW: write.next!,
+            UPDATED_OLD: pick(write.existing, write.updated),
+            UPDATED_NEW: pick(write.next!, write.updated)
+        }[input.ReturnValues as string];
+        return {
+            ...(attributes && Object.keys(attributes).length ? {Attributes: attributes} : {}),
+            ...this.capacity(input, write.table.name, writeUnits(itemSize(write.next!)))
+        };
+    }
+
+    private deleteItem(input: DeleteItemCommandInput) {
+        this.assertReturnValues(input.ReturnValues, ['ALL_OLD']);
+        const write = this.commit(this.prepareWrite('Delete', input));
+        return {
+            ...(input.ReturnValues === 'ALL_OLD' && write.existing ? {Attributes: write.existing} : {}),
+            ...this.capacity(input, write.table.name, writeUnits(write.existing ? itemSize(write.existing) : 0))
+        };
+    }
+
+    private query(input: QueryCommandInput) {
+        const table = this.table(input.TableName);
+        const schema = table.keySchema(input.IndexName);
+        this.assertReadable(table, input);
+        if (!input.KeyConditionExpression) {
+            throw new DynamoLocalValidationException(
+                "Either the KeyConditions or KeyConditionExpression parameter must be specified in the request."
+            );
+        }
+
+        const placeholders = this.placeholders(input);
+        const keyCondition = parseCondition(input.KeyConditionExpression, placeholders);
+        this.validateKeyCondition(keyCondition, schema);
+        const filter = input.FilterExpression ? parseCondition(input.FilterExpression, placeholders) : undefined;
+        (filter ? conditionPaths(filter) : []).forEach(([root]) => {
+            if ('name' in root && (root.name === schema.pkName || root.name === schema.skName)) {
+                throw new DynamoLocalValidationException(
+                    `Filter Expression can only contain non-primary key attributes: Primary key attribute: ${root.name}`
+                );
+            }
+        });
+        const projection = this.projection(input, placeholders);
+        placeholders.assertAllUsed();
+
+        const items = table.scan(input.IndexName).filter(item => evaluateCondition(keyCondition, item));
+        if (input.ScanIndexForward === false) {
+            items.reverse();
+        }
+        return this.page(table, schema, items, input, filter, projection);
+    }
+
+    private scan(input: ScanCommandInput) {
+        const table = this.table(input.TableName);
+        const schema = table.keySchema(input.IndexName);
+        this.assertReadable(table, input);
+        const {Segment, TotalSegments} = input;
+        if ((Segment === undefined) !== (TotalSegments === undefined)) {
+            throw new DynamoLocalValidationException("Segment and TotalSegments must be specified together");
+        }
+        if (TotalSegments !== undefined && (TotalSegments < 1 || TotalSegments > 1000000
+            || Segment! < 0 || Segment! >= TotalSegments)) {
+            throw new DynamoLocalValidationException("The Segment parameter must be less than TotalSegments");
+        }
+
+        const placeholders = this.placeholders(input);
+        const filter = input.FilterExpression ? parseCondition(input.FilterExpression, placeholders) : undefined;
+        const projection = this.projection(input, placeholders);
+        placeholders.assertAllUsed();
+
+        const items = table.scan(input.IndexName).filter(item =>
+            TotalSegments === undefined || segmentOf(table.partitionOf(item), TotalSegments) === Segment
+        );
+        return this.page(table, schema, items, input, filter, projection);
+    }
+
+    private assertReadable(table: DynamoLocalTable, input: QueryCommandInput | ScanCommandInput): void {
+        if (input.ConsistentRead && table.isGlobalIndex(input.IndexName)) {
+            throw new DynamoLocalValidationException("Consistent reads are not supported on global secondary indexes");
+        }
+        if (input.Limit !== undefined && input.Limit < 1) {
+            throw new DynamoLocalValidationException(
+                `1 validation error detected: Value '${input.Limit}' at 'limit' failed to satisfy constraint: Member must have value greater than or equal to 1`
+            );
+        }
+    }
+
+    /** Accepts `pk = :v` optionally combined with one sort key condition, as DynamoDB does. */
+    private validateKeyCondition(condition: DynamoLocalCondition, schema: DynamoKeySchema): void {
+        const parts = conjuncts(condition);
+        const partition = parts.find(part => part.kind === 'compare' && part.operator === '='
+            && isKeyPath(part.left, schema.pkName) && part.right.kind === 'value');
+        if (!partition) {
+            throw new DynamoLocalValidationException(`Query condition missed key schema element: ${schema.pkName}`);
+        }
+
+        const rest = parts.filter(part => part !== partition);
+        const sortKey = rest[0];
+        const supported = !sortKey || (rest.length === 1 && !!schema.skName && (
+            (sortKey.kind === 'compare' && sortKey.operator !== '<>'
+                && isKeyPath(sortKey.left, schema.skName) && sortKey.right.kind === 'value')
+            || (sortKey.kind === 'between' && isKeyPath(sortKey.operand, schema.skName)
+                && sortKey.lower.kind === 'value' && sortKey.upper.kind === 'value')
+            || (sortKey.kind === 'function' && sortKey.name === 'begins_with' && sortKey.args.length === 2
+                && isKeyPath(sortKey.args[0], schema.skName) && sortKey.args[1].kind === 'value')
+        ));
+        if (!supported) {
+            throw new DynamoLocalValidationException("Query key condition not supported");
+        }
+    }
+
+    /**
+     * Evaluates items from `ExclusiveStartKey` on until `Limit` items or the page size are
+     * reached, then filters and projects them. Like DynamoDB, `Limit` counts evaluated items,
+     * so a page can come back empty while still carrying a `LastEvaluatedKey`.
+     */
+    private page(
+        table: DynamoLocalTable,
+        schema: DynamoKeySchema,
+        items: Item[],
+        input: QueryCommandInput | ScanCommandInput,
+        filter?: DynamoLocalCondition,
+        projection?: PathElement[][]
+    ) {
+        const forward = (input as QueryCommandInput).ScanIndexForward !== false;
+        let start = 0;
+        if (input.ExclusiveStartKey) {
+            const startKey = this.validateStartKey(table, schema, input.ExclusiveStartKey);
+            start = items.findIndex(item => {
+                const order = table.compareKeys(item, startKey, schema);
+                return forward ? order > 0 : order < 0;
+            });
+            if (start < 0) start = items.length;
+        }
+
+        const evaluated: Item[] = [];
+        let bytes = 0;
+        let position = start;
+        for (; position < items.length; position++) {
+            if ((input.Limit !== undefined && evaluated.length >= input.Limit) || bytes >= this.pageSizeBytes) break;
+            evaluated.push(items[position]);
+            bytes += itemSize(items[position]);
+        }
+
+        const last = evaluated[evaluated.length - 1];
+        const truncated = position < items.length || (input.Limit !== undefined && evaluated.length >= input.Limit);
+        const matched = filter ? evaluated.filter(item => evaluateCondition(filter, item)) : evaluated;
+        return {
+            ...(input.Select === 'COUNT' ? {} : {Items: matched.map(item => this.project(item, projection))}),
+            Count: matched.length,
+            ScannedCount: evaluated.length,
+            ...(last && truncated ? {LastEvaluatedKey: cloneItem(table.keyOf(last, schema))} : {}),
+            ...this.capacity(input, table.name, readUnits(bytes, input.ConsistentRead))
+        };
+    }
+
+    private validateStartKey(table: DynamoLocalTable, schema: DynamoKeySchema, startKey: Item): Item {
+        const names = new Set([schema.pkName, schema.skName, table.definition.pkName, table.definition.skName]
+            .filter((name): name is string => !!name));
+        if (Object.keys(startKey).length !== names.size || ![...names].every(name => startKey[name])) {
+            throw new DynamoLocalValidationException(
+                "The provided starting key is invalid: The provided key element does not match the schema"
+            );
+        }
+        return normalizeItem(startKey);
+    }
+
+    private batchGetItem(input: BatchGetItemCommandInput) {
+        const requests = Object.entries(input.RequestItems ?? {});
+        const total = requests.reduce((sum, [, request]) => sum + (request.Keys?.length ?? 0), 0);
+        if (!total) {
+            throw new DynamoLocalValidationException("BatchGetItem requires at least one key");
+        }
+        if (total > MAX_BATCH_GET_KEYS) {
+            throw new DynamoLocalValidationException("Too many items requested for the BatchGetItem call");
+        }
+
+        const reads = requests.map(([tableName, request]) => {
+            const table = this.table(tableName);
+            const keys = (request.Keys ?? []).map(key => table.validateKey(key));
+            this.assertUniqueKeys(table, keys, "Provided list of item keys contains duplicates");
+            const placeholders = this.placeholders(request);
+            const projection = this.projection(request, placeholders);
+            placeholders.assertAllUsed();
+            return {table, keys, projection, consistent: request.ConsistentRead};
+        });
+
+        const Responses: Record<string, Item[]> = {};
+        const units = new Map<string, number>();
+        reads.forEach(({table, keys, projection, consistent}) => {
+            const items = keys.map(key => table.get(key)).filter((item): item is Item => !!item);
+            Responses[table.name] = items.map(item => this.project(item, projection));
+            units.set(table.name, keys.reduce((sum, key) => {
+                const item = table.get(key);
+                return sum + readUnits(item ? itemSize(item) : 0, consistent);
+            }, 0));
+        });
+        return {Responses, UnprocessedKeys: {}, ...this.capacities(input, units)};
+    }
+
+    private batchWriteItem(input: BatchWriteItemCommandInput) {
+        const requests = Object.entries(input.RequestItems ?? {});
+        const total = requests.reduce((sum, [, list]) => sum + list.length, 0);
+        if (!total) {
+            throw new DynamoLocalValidationException("BatchWriteItem requires at least one request");
+        }
+        if (total > MAX_BATCH_WRITE_REQUESTS) {
+            throw new DynamoLocalValidationException("Too many items requested for the BatchWriteItem call");
+        }
+
+        const writes = requests.flatMap(([tableName, list]) => {
+            const table = this.table(tableName);
+            const entries = list.map(request => {
+                if (!!request.PutRequest === !!request.DeleteRequest) {
+                    throw new DynamoLocalValidationException(
+                        "Each write request must contain exactly one of PutRequest or DeleteRequest"
+                    );
+                }
+                const item = request.PutRequest && table.validateItem(request.PutRequest.Item ?? {});
+                return {table, item, key: table.validateKey(item ? table.keyOf(item) : request.DeleteRequest!.Key)};
+            });
+            this.assertUniqueKeys(table, entries.map(entry => entry.key), "Provided list of item keys contains duplicates");
+            return entries;
+        });
+
+        const units = new Map<string, number>();
+        writes.forEach(({table, item, key}) => {
+            const size = itemSize(item ?? table.get(key) ?? {});
+            if (item) {
+                table.put(item);
+            } else {
+                table.delete(key);
+            }
+            units.set(table.name, (units.get(table.name) ?? 0) + writeUnits(size));
+        });
+        return {UnprocessedItems: {}, ...this.capacities(input, units)};
+    }
+
+    private transactGetItems(input: TransactGetItemsCommandInput) {
+        const items = input.TransactItems ?? [];
+        if (!items.length || items.length > MAX_TRANSACTION_ITEMS) {
+            throw new DynamoLocalValidationException(`TransactItems must contain between 1 and ${MAX_TRANSACTION_ITEMS} items`);
+        }
+
+        const reads = items.map(({Get}) => {
+            if (!Get) {
+                throw new DynamoLocalValidationException("TransactGetItems only supports Get operations");
+            }
+            const table = this.table(Get.TableName);
+            const key = table.validateKey(Get.Key);
+            const placeholders = this.placeholders(Get);
+            const projection = this.projection(Get, placeholders);
+            placeholders.assertAllUsed();
+            return {table, key, projection};
+        });
+
+        const units = new Map<string, number>();
+        const Responses = reads.map(({table, key, projection}) => {
+            const item = table.get(key);
+            units.set(table.name, (units.get(table.name) ?? 0) + 2 * readUnits(item ? itemSize(item) : 0, true));
+            return item ? {Item: this.project(item, projection)} : {};
+        });
+        return {Responses, ...this.capacities(input, units)};
+    }
+
+    /**
+     * Checks every write before applying any, so a failed condition cancels the whole
+     * transaction with one reason per item.
+     */
+    private transactWriteItems(input: TransactWriteItemsCommandInput) {
+        const items = input.TransactItems ?? [];
+        if (!items.length || items.length > MAX_TRANSACTION_ITEMS) {
+            throw new DynamoLocalValidationException(`TransactItems must contain between 1 and ${MAX_TRANSACTION_ITEMS} items`);
+        }
+
+        const writes = items.map(item => {
+            const kinds = WRITE_KINDS.filter(kind => item[kind]);
+            if (kinds.length !== 1) {
+                throw new DynamoLocalValidationException(
+                    "TransactItems can only contain one of ConditionCheck, Put, Update or Delete"
+                );
+            }
+            return this.prepareWrite(kinds[0], item[kinds[0]]!);
+        });
+        writes.forEach((write, i) => {
+            if (writes.some((other, j) => j < i && other.table === write.table
+                && write.table.compareKeys(write.key, other.key, write.table.definition) === 0)) {
+                throw new DynamoLocalValidationException(
+                    "Transaction request cannot include multiple operations on one item"
+                );
+            }
+        });
+
+        if (writes.some(write => write.failed)) {
+            const CancellationReasons: CancellationReason[] = writes.map(write => write.failed
+                ? {
+                    Code: 'ConditionalCheckFailed',
+                    Message: 'The conditional request failed',
+                    ...(write.returnOld && write.existing ? {Item: write.existing} : {})
+                }
+                : {Code: 'None'});
+            throw new TransactionCanceledException({
+                message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${
+                    CancellationReasons.map(reason => reason.Code).join(", ")}]`,
+                $metadata: {},
+                CancellationReasons
+            });
+        }
+
+        const units = new Map<string, number>();
+        writes.forEach(write => {
+            this.apply(write);
+            const size = itemSize(write.next ?? write.existing ?? {});
+            units.set(write.table.name, (units.get(write.table.name) ?? 0) + 2 * writeUnits(size));
+        });
+        return this.capacities(input, units);
+    }
+
+    private prepareWrite(kind: WriteKind, input: any): PreparedWrite {
+        const table = this.table(input.TableName);
+        const placeholders = this.placeholders(input);
+        const item = kind === 'Put' ? table.validateItem(input.Item ?? {}) : undefined;
+        const key = table.validateKey(item ? table.keyOf(item) : input.Key);
+        const update: DynamoLocalUpdate | undefined = kind === 'Update' && input.UpdateExpression
+            ? parseUpdate(input.UpdateExpression, placeholders)
+            : undefined;
+        if (kind === 'ConditionCheck' && !input.ConditionExpression) {
+            throw new DynamoLocalValidationException("ConditionCheck requires a ConditionExpression");
+        }
+        const condition = input.ConditionExpression ? parseCondition(input.ConditionExpression, placeholders) : undefined;
+        placeholders.assertAllUsed();
+
+        const existing = table.get(key);
+        const write: PreparedWrite = {
+            table,
+            key,
+            existing,
+            updated: [],
+            failed: !!condition && !evaluateCondition(condition, existing ?? {}),
+            returnOld: input.ReturnValuesOnConditionCheckFailure === 'ALL_OLD'
+        };
+        if (kind === 'Put') {
+            write.next = item;
+        } else if (kind === 'Delete') {
+            write.next = null;
+        } else if (kind === 'Update' && !write.failed) {
+            Object.assign(write, this.applyUpdate(table, key, existing, update));
+        }
+        return write;
+    }
+
+    /** Computes the updated item; operands read the item as it was before the update. */
+    private applyUpdate(
+        table: DynamoLocalTable,
+        key: Item,
+        existing: Item | undefined,
+        update: DynamoLocalUpdate | undefined
+    ): { next: Item; updated: string[] } {
+        const next = cloneItem(existing ?? key);
+        if (!update) {
+            return {next, updated: []};
+        }
+
+        const paths = [
+            ...update.set.map(action => action.path),
+            ...update.remove,
+            ...update.add.map(action => action.path),
+            ...update.delete.map(action => action.path)
+        ];
+        assertNoOverlap(paths);
+        const roots = paths.map(path => (path[0] as { name: string }).name);
+        roots.forEach(root => {
+            if (key[root]) {
+                throw new DynamoLocalValidationException(
+                    `One or more parameter values were invalid: Cannot update attribute ${root}. This attribute is part of the key`
+                );
+            }
+        });
+        if ([...update.add, ...update.delete].some(action => action.path.length !== 1)) {
+            throw new DynamoLocalValidationException(
+                "Invalid UpdateExpression: ADD and DELETE only support top-level attributes"
+            );
+        }
+
+        const before = existing ?? {};
+        const values = update.set.map(action => resolveOperand(action.value, before));
+        update.set.forEach((action, i) => {
+            if (!values[i]) {
+                throw new DynamoLocalValidationException(
+                    "The provided expression refers to an attribute that does not exist in the item"
+                );
+            }
+            setPath(next, action.path, normalizeValue(values[i]!));
+        });
+        [...update.remove]
+            .sort((a, b) => {
+                const [x, y] = [a[a.length - 1], b[b.length - 1]];
+                return 'index' in x && 'index' in y ? y.index - x.index : 0;
+            })
+            .forEach(path => removePath(next, path));
+        update.add.forEach(({path, value}) => {
+            const name = (path[0] as { name: string }).name;
+            next[name] = addValue(next[name], normalizeValue(value));
+        });
+        update.delete.forEach(({path, value}) => {
+            const name = (path[0] as { name: string }).name;
+            const remaining = deleteValue(next[name], normalizeValue(value));
+            if (remaining) {
+                next[name] = remaining;
+            } else {
+                delete next[name];
+            }
+        });
+
+        return {next: table.validateItem(next), updated: [...new Set(roots)]};
+    }
+
+    private commit(write: PreparedWrite): PreparedWrite {
+        if (write.failed) {
+            throw new ConditionalCheckFailedException({
+                message: 'The conditional request failed',
+                $metadata: {},
+                ...(write.returnOld && write.existing ? {Item: write.existing} : {})
+            });
+        }
+        this.apply(write);
+        return write;
+    }
+
+    private apply(write: PreparedWrite): void {
+        if (write.next === null) {
+            write.table.delete(write.key);
+        } else if (write.next) {
+            write.table.put(write.next);
+        }
+    }
+}
@@ -0,0 +1,9 @@
+import {DynamoDBServiceException} from "@aws-sdk/client-dynamodb";
+
+/** The `ValidationException` DynamoDB answers malformed requests with. */
+export class DynamoLocalValidationException extends DynamoDBServiceException {
+    constructor(message: string) {
+        super({name: 'ValidationException', $fault: 'client', $metadata: {}, message});
+        Object.setPrototypeOf(this, DynamoLocalValidationException.prototype);
+    }
+}
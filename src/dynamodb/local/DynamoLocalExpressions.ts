@@ -0,0 +1,521 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {compareValues, setElements, typeOf, valuesEqual} from "../DynamoUtils";
+import {DynamoLocalValidationException} from "./DynamoLocalErrors";
+import {addNumbers, getPath, PathElement, sizeOf, toSet} from "./DynamoLocalValues";
+
+export type DynamoLocalOperand =
+    { kind: 'path'; path: PathElement[] }
+    | { kind: 'value'; value: AttributeValue }
+    | { kind: 'size'; path: PathElement[] }
+    | { kind: 'if_not_exists'; path: PathElement[]; fallback: DynamoLocalOperand }
+    | { kind: 'list_append'; left: DynamoLocalOperand; right: DynamoLocalOperand }
+    | { kind: 'arithmetic'; operator: '+' | '-'; left: DynamoLocalOperand; right: DynamoLocalOperand };
+
+export type DynamoLocalCondition =
+    { kind: 'and' | 'or'; left: DynamoLocalCondition; right: DynamoLocalCondition }
+    | { kind: 'not'; condition: DynamoLocalCondition }
+    | { kind: 'compare'; operator: string; left: DynamoLocalOperand; right: DynamoLocalOperand }
+    | { kind: 'between'; operand: DynamoLocalOperand; lower: DynamoLocalOperand; upper: DynamoLocalOperand }
+    | { kind: 'in'; operand: DynamoLocalOperand; list: DynamoLocalOperand[] }
+    | { kind: 'function'; name: string; args: DynamoLocalOperand[] };
+
+export interface DynamoLocalUpdate {
+    set: { path: PathElement[]; value: DynamoLocalOperand }[];
+    remove: PathElement[][];
+    add: { path: PathElement[]; value: AttributeValue }[];
+    delete: { path: PathElement[]; value: AttributeValue }[];
+}
+
+const COMPARATORS = ["=", "<>", "<", "<=", ">", ">="];
+const CONDITION_FUNCTIONS = ["attribute_exists", "attribute_not_exists", "attribute_type", "begins_with", "contains"];
+const UPDATE_CLAUSES = ["SET", "REMOVE", "ADD", "DELETE"];
+const TOKEN_REGEX = /\s*(#[A-Za-z0-9_]+|:[A-Za-z0-9_]+|[A-Za-z_][A-Za-z0-9_]*|\d+|<>|<=|>=|[=<>()[\],.+-])/y;
+
+/**
+ * Resolves `#name` and `:value` placeholders of one request and remembers which were used,
+ * as DynamoDB rejects requests with undefined or unused placeholders.
+ */
+export class DynamoLocalPlaceholders {
+    private readonly usedNames = new Set<string>();
+    private readonly usedValues = new Set<string>();
+
+    constructor(
+        private readonly names: Record<string, string> = {},
+        private readonly values: Record<string, AttributeValue> = {}
+    ) {
+    }
+
+    name(placeholder: string): string {
+        const name = this.names[placeholder];
+        if (name === undefined) {
+            throw new DynamoLocalValidationException(
+                `An expression attribute name used in the document path is not defined; attribute name: ${placeholder}`
+            );
+        }
+        this.usedNames.add(placeholder);
+        return name;
+    }
+
+    value(placeholder: string): AttributeValue {
+        const value = this.values[placeholder];
+        if (value === undefined) {
+            throw new DynamoLocalValidationException(
+                `An expression attribute value used in expression is not defined; attribute value: ${placeholder}`
+            );
+        }
+        this.usedValues.add(placeholder);
+        return value;
+    }
+
+    assertAllUsed(): void {
+        const unusedNames = Object.keys(this.names).filter(name => !this.usedNames.has(name));
+        if (unusedNames.length) {
+            throw new DynamoLocalValidationException(
+                `Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(", ")}}`
+            );
+        }
+        const unusedValues = Object.keys(this.values).filter(value => !this.usedValues.has(value));
+        if (unusedValues.length) {
+            throw new DynamoLocalValidationException(
+                `Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(", ")}}`
+            );
+        }
+    }
+}
+
+class Parser {
+    private readonly tokens: string[] = [];
+    private position = 0;
+
+    constructor(private readonly expression: string, private readonly placeholders: DynamoLocalPlaceholders) {
+        let offset = 0;
+        while (expression.slice(offset).trim()) {
+            TOKEN_REGEX.lastIndex = offset;
+            const match = TOKEN_REGEX.exec(expression);
+            if (!match) {
+                this.fail(`near "${expression.slice(offset).trim()}"`);
+            }
+            this.tokens.push(match[1]);
+            offset = TOKEN_REGEX.lastIndex;
+        }
+    }
+
+    parseCondition(): DynamoLocalCondition {
+        const condition = this.parseOr();
+        this.expectEnd();
+        return condition;
+    }
+
+    parseUpdate(): DynamoLocalUpdate {
+        const update: DynamoLocalUpdate = {set: [], remove: [], add: [], delete: []};
+        const seen = new Set<string>();
+        while (!this.atEnd()) {
+            const clause = this.next().toUpperCase();
+            if (!UPDATE_CLAUSES.includes(clause) || seen.has(clause)) {
+                this.fail(`unexpected "${clause}"`);
+            }
+            seen.add(clause);
+            do {
+                const path = this.parsePath();
+                switch (clause) {
+                    case "SET":
+                        this.expect("=");
+                        update.set.push({path, value: this.parseSetValue()});
+                        break;
+                    case "REMOVE":
+                        update.remove.push(path);
+                        break;
+                    case "ADD":
+                    case "DELETE":
+                        (clause === "ADD" ? update.add : update.delete).push({path, value: this.parseValueRef()});
+                        break;
+                }
+            } while (this.accept(","));
+        }
+        if (!seen.size) {
+            this.fail("the expression is empty");
+        }
+        return update;
+    }
+
+    parseProjection(): PathElement[][] {
+        const paths = [this.parsePath()];
+        while (this.accept(",")) {
+            paths.push(this.parsePath());
+        }
+        this.expectEnd();
+        return paths;
+    }
+
+    private parseOr(): DynamoLocalCondition {
+        let left = this.parseAnd();
+        while (this.acceptKeyword("OR")) {
+            left = {kind: 'or', left, right: this.parseAnd()};
+        }
+        return left;
+    }
+
+    private parseAnd(): DynamoLocalCondition {
+        let left = this.parseNot();
+        while (this.acceptKeyword("AND")) {
+            left = {kind: 'and', left, right: this.parseNot()};
+        }
+        return left;
+    }
+
+    private parseNot(): DynamoLocalCondition {
+        if (this.acceptKeyword("NOT")) {
+            return {kind: 'not', condition: this.parseNot()};
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): DynamoLocalCondition {
+        if (this.accept("(")) {
+            const condition = this.parseOr();
+            this.expect(")");
+            return condition;
+        }
+
+        const token = this.peek();
+        if (token && CONDITION_FUNCTIONS.includes(token) && this.peek(1) === "(") {
+            this.next();
+            this.expect("(");
+            const args = [this.parseOperand()];
+            while (this.accept(",")) {
+                args.push(this.parseOperand());
+            }
+            this.expect(")");
+            return {kind: 'function', name: token, args};
+        }
+
+        const operand = this.parseOperand();
+        const operator = this.next();
+        if (COMPARATORS.includes(operator)) {
+            return {kind: 'compare', operator, left: operand, right: this.parseOperand()};
+        }
+        switch (operator?.toUpperCase()) {
+            case "BETWEEN": {
+                const lower = this.parseOperand();
+                if (!this.acceptKeyword("AND")) this.fail("BETWEEN expects AND");
+                return {kind: 'between', operand, lower, upper: this.parseOperand()};
+            }
+            case "IN": {
+                this.expect("(");
+                const list = [this.parseOperand()];
+                while (this.accept(",")) {
+                    list.push(this.parseOperand());
+                }
+                this.expect(")");
+                if (list.length > 100) this.fail("IN accepts at most 100 operands");
+                return {kind: 'in', operand, list};
+            }
+            default:
+                return this.fail(`unexpected "${operator ?? "end of expression"}"`);
+        }
+    }
+
+    private parseOperand(): DynamoLocalOperand {
+        if (this.peek()?.startsWith(":")) {
+            return {kind: 'value', value: this.parseValueRef()};
+        }
+        if (this.peek() === "size" && this.peek(1) === "(") {
+            this.next();
+            this.expect("(");
+            const path = this.parsePath();
+            this.expect(")");
+            return {kind: 'size', path};
+        }
+        return {kind: 'path', path: this.parsePath()};
+    }
+
+    private parseSetValue(): DynamoLocalOperand {
+        const left = this.parseSetOperand();
+        const operator = this.peek();
+        if (operator === "+" || operator === "-") {
+            this.next();
+            return {kind: 'arithmetic', operator, left, right: this.parseSetOperand()};
+        }
+        return left;
+    }
+
+    private parseSetOperand(): DynamoLocalOperand {
+        const token = this.peek();
+        if (token?.startsWith(":")) {
+            return {kind: 'value', value: this.parseValueRef()};
+        }
+        if ((token === "if_not_exists" || token === "list_append") && this.peek(1) === "(") {
+            this.next();
+            this.expect("(");
+            let operand: DynamoLocalOperand;
+            if (token === "if_not_exists") {
+                const path = this.parsePath();
+                this.expect(",");
+                operand = {kind: 'if_not_exists', path, fallback: this.parseSetOperand()};
+            } else {
+                const left = this.parseSetOperand();
+                this.expect(",");
+                operand = {kind: 'list_append', left, right: this.parseSetOperand()};
+            }
+            this.expect(")");
+            return operand;
+        }
+        return {kind: 'path', path: this.parsePath()};
+    }
+
+    private parseValueRef(): AttributeValue {
+        const token = this.next();
+        if (!token?.startsWith(":")) {
+            this.fail(`expected a value placeholder, found "${token ?? "end of expression"}"`);
+        }
+        return this.placeholders.value(token);
+    }
+
+    private parsePath(): PathElement[] {
+        const path: PathElement[] = [{name: this.parseName()}];
+        for (; ;) {
+            if (this.accept(".")) {
+                path.push({name: this.parseName()});
+            } else if (this.accept("[")) {
+                const index = this.next();
+                if (!/^\d+$/.test(index ?? "")) this.fail("list index must be a number");
+                this.expect("]");
+                path.push({index: Number(index)});
+            } else {
+                return path;
+            }
+        }
+    }
+
+    private parseName(): string {
+        const token = this.next();
+        if (token?.startsWith("#")) {
+            return this.placeholders.name(token);
+        }
+        if (!token || !/^[A-Za-z_]/.test(token)) {
+            this.fail(`expected an attribute name, found "${token ?? "end of expression"}"`);
+        }
+        return token;
+    }
+
+    private peek(offset = 0): string | undefined {
+        return this.tokens[this.position + offset];
+    }
+
+    private next(): string {
+        return this.tokens[this.position++];
+    }
+
+    private atEnd(): boolean {
+        return this.position >= this.tokens.length;
+    }
+
+    private accept(token: string): boolean {
+        if (this.peek() !== token) return false;
+        this.position++;
+        return true;
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        if (this.peek()?.toUpperCase() !== keyword) return false;
+        this.position++;
+        return true;
+    }
+
+    private expect(token: string): void {
+        if (!this.accept(token)) {
+            this.fail(`expected "${token}", found "${this.peek() ?? "end of expression"}"`);
+        }
+    }
+
+    private expectEnd(): void {
+        if (!this.atEnd()) {
+            this.fail(`unexpected "${this.peek()}"`);
+        }
+    }
+
+    private fail(reason: string): never {
+        throw new DynamoLocalValidationException(`Invalid expression: ${reason} in "${this.expression}"`);
+    }
+}
+
+export function parseCondition(expression: string, placeholders: DynamoLocalPlaceholders): DynamoLocalCondition {
+    return new Parser(expression, placeholders).parseCondition();
+}
+
+export function parseUpdate(expression: string, placeholders: DynamoLocalPlaceholders): DynamoLocalUpdate {
+    return new Parser(expression, placeholders).parseUpdate();
+}
+
+export function parseProjection(expression: string, placeholders: DynamoLocalPlaceholders): PathElement[][] {
+    return new Parser(expression, placeholders).parseProjection();
+}
+
+export function resolveOperand(
+    operand: DynamoLocalOperand,
+    item: Record<string, AttributeValue>
+): AttributeValue | undefined {
+    switch (operand.kind) {
+        case 'value':
+            return operand.value;
+        case 'path':
+            return getPath(item, operand.path);
+        case 'size': {
+            const value = getPath(item, operand.path);
+            const size = value && sizeOf(value);
+            return size === undefined ? undefined : {N: String(size)};
+        }
+        case 'if_not_exists':
+            return getPath(item, operand.path) ?? resolveOperand(operand.fallback, item);
+        case 'list_append': {
+            const left = resolveOperand(operand.left, item);
+            const right = resolveOperand(operand.right, item);
+            if (!left?.L || !right?.L) {
+                throw new DynamoLocalValidationException(
+                    "Incorrect operand type for operator or function; operator or function: list_append"
+                );
+            }
+            return {L: [...left.L, ...right.L]};
+        }
+        case 'arithmetic': {
+            const left = resolveOperand(operand.left, item);
+            const right = resolveOperand(operand.right, item);
+            if (left?.N === undefined || right?.N === undefined) {
+                throw new DynamoLocalValidationException("An operand in the update expression has an incorrect data type");
+            }
+            return {N: addNumbers(left.N, right.N, operand.operator === '-')};
+        }
+    }
+}
+
+export function evaluateCondition(condition: DynamoLocalCondition, item: Record<string, AttributeValue>): boolean {
+    switch (condition.kind) {
+        case 'and':
+            return evaluateCondition(condition.left, item) && evaluateCondition(condition.right, item);
+        case 'or':
+            return evaluateCondition(condition.left, item) || evaluateCondition(condition.right, item);
+        case 'not':
+            return !evaluateCondition(condition.condition, item);
+        case 'compare':
+            return compare(condition.operator, resolveOperand(condition.left, item), resolveOperand(condition.right, item));
+        case 'between': {
+            const value = resolveOperand(condition.operand, item);
+            const lower = resolveOperand(condition.lower, item);
+            const upper = resolveOperand(condition.upper, item);
+            if (lower && upper && (compareValues(lower, upper) ?? 0) > 0) {
+                throw new DynamoLocalValidationException(
+                    "Invalid ConditionExpression: The BETWEEN operator requires upper bound to be greater than or equal to lower bound"
+                );
+            }
+            return compare(">=", value, lower) && compare("<=", value, upper);
+        }
+        case 'in': {
+            const value = resolveOperand(condition.operand, item);
+            return condition.list.some(operand => compare("=", value, resolveOperand(operand, item)));
+        }
+        case 'function':
+            return evaluateFunction(condition.name, condition.args, item);
+    }
+}
+
+function compare(operator: string, left?: AttributeValue, right?: AttributeValue): boolean {
+    if (!left || !right) {
+        return operator === "<>";
+    }
+    if (operator === "=") return valuesEqual(left, right);
+    if (operator === "<>") return !valuesEqual(left, right);
+
+    const order = compareValues(left, right);
+    if (order === undefined) return false;
+    switch (operator) {
+        case "<":
+            return order < 0;
+        case "<=":
+            return order <= 0;
+        case ">":
+            return order > 0;
+        default:
+            return order >= 0;
+    }
+}
+
+function evaluateFunction(name: string, args: DynamoLocalOperand[], item: Record<string, AttributeValue>): boolean {
+    const expectArgs = (count: number) => {
+        if (args.length !== count || args[0].kind !== 'path') {
+            throw new DynamoLocalValidationException(
+                `Invalid ConditionExpression: Incorrect number or type of operands for function ${name}`
+            );
+        }
+    };
+    const [target, operand] = args.map(arg => resolveOperand(arg, item));
+
+    switch (name) {
+        case "attribute_exists":
+            expectArgs(1);
+            return target !== undefined;
+        case "attribute_not_exists":
+            expectArgs(1);
+            return target === undefined;
+        case "attribute_type":
+            expectArgs(2);
+            return !!target && operand?.S === typeOf(target);
+        case "begins_with":
+            expectArgs(2);
+            if (target?.S !== undefined && operand?.S !== undefined) return target.S.startsWith(operand.S);
+            if (target?.B !== undefined && operand?.B !== undefined) {
+                return Buffer.from(target.B).subarray(0, operand.B.length).equals(Buffer.from(operand.B));
+            }
+            return false;
+        case "contains":
+            expectArgs(2);
+            if (!target || !operand) return false;
+            if (target.S !== undefined && operand.S !== undefined) return target.S.includes(operand.S);
+            if (target.B !== undefined && operand.B !== undefined) {
+                return Buffer.from(target.B).includes(Buffer.from(operand.B));
+            }
+            if (target.L) return target.L.some(element => valuesEqual(element, operand));
+            return setElements(target).some(element => valuesEqual(element, operand));
+        default:
+            return false;
+    }
+}
+
+/** Top-level paths must not overlap, e.g. `a` and `a.b` in one update. */
+export function assertNoOverlap(paths: PathElement[][]): void {
+    const keys = paths.map(path => path.map(element => 'name' in element ? `.${element.name}` : `[${element.index}]`));
+    keys.forEach((key, i) => keys.forEach((other, j) => {
+        if (i !== j && key.length <= other.length && key.every((element, k) => element === other[k])) {
+            throw new DynamoLocalValidationException(
+                "Invalid UpdateExpression: Two document paths overlap with each other; must remove or rewrite one of these paths"
+            );
+        }
+    }));
+}
+
+/** Adds to a number or a set, creating the attribute when missing. */
+export function addValue(current: AttributeValue | undefined, value: AttributeValue): AttributeValue {
+    if (!current) return value;
+    if (current.N !== undefined && value.N !== undefined) {
+        return {N: addNumbers(current.N, value.N)};
+    }
+    const type = typeOf(current);
+    if (type !== typeOf(value) || !["SS", "NS", "BS"].includes(type)) {
+        throw new DynamoLocalValidationException("An operand in the update expression has an incorrect data type");
+    }
+    const elements = setElements(current);
+    setElements(value).forEach(element => {
+        if (!elements.some(existing => valuesEqual(existing, element))) elements.push(element);
+    });
+    return toSet(type, elements)!;
+}
+
+/** Removes set elements; `undefined` when the set ends up empty. */
+export function deleteValue(current: AttributeValue | undefined, value: AttributeValue): AttributeValue | undefined {
+    if (!current) return undefined;
+    const type = typeOf(current);
+    if (type !== typeOf(value) || !["SS", "NS", "BS"].includes(type)) {
+        throw new DynamoLocalValidationException("An operand in the update expression has an incorrect data type");
+    }
+    const removed = setElements(value);
+    return toSet(type, setElements(current).filter(element => !removed.some(other => valuesEqual(element, other))));
+}
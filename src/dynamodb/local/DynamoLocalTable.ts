@@ -0,0 +1,152 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {compareValues, typeOf} from "../DynamoUtils";
+import {DynamoIndexDefinition, DynamoKeySchema} from "../types/DynamoIndex";
+import {DynamoLocalValidationException} from "./DynamoLocalErrors";
+import {cloneItem, itemSize, normalizeItem} from "./DynamoLocalValues";
+
+const MAX_ITEM_SIZE = 400 * 1024;
+
+export interface DynamoLocalTableDefinition extends DynamoKeySchema {
+    name: string;
+    indexes?: DynamoIndexDefinition[];
+}
+
+/** Items of one table, ordered by partition and sort key like DynamoDB returns them. */
+export class DynamoLocalTable {
+    private readonly items = new Map<string, Record<string, AttributeValue>>();
+
+    constructor(readonly definition: DynamoLocalTableDefinition) {
+    }
+
+    get name(): string {
+        return this.definition.name;
+    }
+
+    keySchema(indexName?: string): DynamoKeySchema {
+        if (!indexName) {
+            return this.definition;
+        }
+        const index = this.definition.indexes?.find(candidate => candidate.name === indexName);
+        if (!index) {
+            throw new DynamoLocalValidationException(`The table does not have the specified index: ${indexName}`);
+        }
+        return index;
+    }
+
+    isGlobalIndex(indexName?: string): boolean {
+        return !!indexName && this.keySchema(indexName) !== this.definition
+            && (this.keySchema(indexName) as DynamoIndexDefinition).type !== 'LSI';
+    }
+
+    /** Checks that `key` holds exactly the table's key attributes. */
+    validateKey(key: Record<string, AttributeValue> | undefined): Record<string, AttributeValue> {
+        const names = this.keyNames();
+        if (!key || Object.keys(key).length !== names.length || !names.every(name => key[name])) {
+            throw new DynamoLocalValidationException("The provided key element does not match the schema");
+        }
+        names.forEach(name => this.validateKeyValue(name, key[name]));
+        return normalizeItem(key);
+    }
+
+    keyOf(item: Record<string, AttributeValue>, schema: DynamoKeySchema = this.definition): Record<string, AttributeValue> {
+        const key: Record<string, AttributeValue> = {};
+        [schema.pkName, schema.skName, this.definition.pkName, this.definition.skName].forEach(name => {
+            if (name && item[name]) key[name] = item[name];
+        });
+        return key;
+    }
+
+    get(key: Record<string, AttributeValue>): Record<string, AttributeValue> | undefined {
+        const item = this.items.get(this.identity(key));
+        return item && cloneItem(item);
+    }
+
+    put(item: Record<string, AttributeValue>): void {
+        const normalized = this.validateItem(item);
+        this.items.set(this.identity(normalized), cloneItem(normalized));
+    }
+
+    /** Checks key attributes, index key types and the item size limit; returns the normalized item. */
+    validateItem(item: Record<string, AttributeValue>): Record<string, AttributeValue> {
+        const normalized = normalizeItem(item);
+        this.keyNames().forEach(name => {
+            if (!normalized[name]) {
+                throw new DynamoLocalValidationException(
+                    `One or more parameter values were invalid: Missing the key ${name} in the item`
+                );
+            }
+            this.validateKeyValue(name, normalized[name]);
+        });
+        (this.definition.indexes || []).forEach(index => {
+            [index.pkName, index.skName].forEach(name => {
+                if (name && normalized[name]) this.validateKeyValue(name, normalized[name]);
+            });
+        });
+        if (itemSize(normalized) > MAX_ITEM_SIZE) {
+            throw new DynamoLocalValidationException("Item size has exceeded the maximum allowed size");
+        }
+        return normalized;
+    }
+
+    delete(key: Record<string, AttributeValue>): void {
+        this.items.delete(this.identity(key));
+    }
+
+    /**
+     * Items of the table or of an index, in key order. Index views only contain items that
+     * have all key attributes of the index.
+     */
+    scan(indexName?: string): Record<string, AttributeValue>[] {
+        const schema = this.keySchema(indexName);
+        return [...this.items.values()]
+            .filter(item => item[schema.pkName] && (!schema.skName || item[schema.skName]))
+            .sort((a, b) => this.compareKeys(a, b, schema));
+    }
+
+    /** Orders items or keys by the key attributes of `schema`, then by the table key. */
+    compareKeys(a: Record<string, AttributeValue>, b: Record<string, AttributeValue>, schema: DynamoKeySchema): number {
+        const names = [schema.pkName, schema.skName, this.definition.pkName, this.definition.skName];
+        for (const name of names) {
+            if (!name || !a[name] || !b[name]) continue;
+            const order = compareValues(a[name], b[name]);
+            if (order) return order;
+        }
+        return 0;
+    }
+
+    /** Partition key identity, used to spread items over scan segments. */
+    partitionOf(item: Record<string, AttributeValue>): string {
+        return this.valueIdentity(item[this.definition.pkName]);
+    }
+
+    clear(): void {
+        this.items.clear();
+    }
+
+    private keyNames(): string[] {
+        return [this.definition.pkName, this.definition.skName].filter((name): name is string => !!name);
+    }
+
+    private validateKeyValue(name: string, value: AttributeValue): void {
+        const type = typeOf(value);
+        if (!["S", "N", "B"].includes(type)) {
+            throw new DynamoLocalValidationException(
+                `One or more parameter values were invalid: Type mismatch for key ${name}`
+            );
+        }
+        if ((type === "S" && !value.S) || (type === "B" && !value.B!.length)) {
+            throw new DynamoLocalValidationException(
+                `One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty ${type === "S" ? "string" : "binary"} value. Key: ${name}`
+            );
+        }
+    }
+
+    private identity(item: Record<string, AttributeValue>): string {
+        return JSON.stringify(this.keyNames().map(name => this.valueIdentity(item[name])));
+    }
+
+    private valueIdentity(value: AttributeValue): string {
+        if (value.B !== undefined) return `B:${Buffer.from(value.B).toString("base64")}`;
+        return `${typeOf(value)}:${value.S ?? value.N}`;
+    }
+}
@@ -0,0 +1,160 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {alignDecimals, Decimal, parseDecimal, setElements, typeOf, valuesEqual} from "../DynamoUtils";
+import {DynamoLocalValidationException} from "./DynamoLocalErrors";
+
+export type PathElement = { name: string } | { index: number };
+
+function parseNumber(value: string): Decimal {
+    const decimal = parseDecimal(value);
+    if (!decimal) {
+        throw new DynamoLocalValidationException(`A value provided cannot be converted into a number: ${value}`);
+    }
+    return decimal;
+}
+
+function formatDecimal({coefficient, exponent}: Decimal): string {
+    if (coefficient === 0n) return "0";
+    while (coefficient % 10n === 0n) {
+        coefficient /= 10n;
+        exponent++;
+    }
+    const negative = coefficient < 0n;
+    let digits = (negative ? -coefficient : coefficient).toString();
+    if (exponent >= 0) {
+        digits += "0".repeat(exponent);
+    } else {
+        digits = digits.padStart(-exponent + 1, "0");
+        digits = `${digits.slice(0, exponent)}.${digits.slice(exponent)}`;
+    }
+    return negative ? `-${digits}` : digits;
+}
+
+export function normalizeNumber(value: string): string {
+    return formatDecimal(parseNumber(value));
+}
+
+export function addNumbers(a: string, b: string, subtract = false): string {
+    const [x, y, exponent] = alignDecimals(parseNumber(a), parseNumber(b));
+    return formatDecimal({coefficient: subtract ? x - y : x + y, exponent});
+}
+
+export function toSet(type: string, elements: AttributeValue[]): AttributeValue | undefined {
+    if (!elements.length) return undefined;
+    if (type === "SS") return {SS: elements.map(element => element.S!)};
+    if (type === "NS") return {NS: elements.map(element => element.N!)};
+    return {BS: elements.map(element => element.B!)};
+}
+
+export function sizeOf(value: AttributeValue): number | undefined {
+    if (value.S !== undefined) return value.S.length;
+    if (value.B !== undefined) return value.B.length;
+    if (value.SS || value.NS || value.BS) return setElements(value).length;
+    if (value.L) return value.L.length;
+    if (value.M) return Object.keys(value.M).length;
+    return undefined;
+}
+
+/** Approximate storage size in bytes, as used for item limits, pages and capacity. */
+export function valueSize(value: AttributeValue): number {
+    if (value.S !== undefined) return Buffer.byteLength(value.S);
+    if (value.N !== undefined) return Math.ceil(value.N.replace(/[-.]/g, "").length / 2) + 1;
+    if (value.B !== undefined) return value.B.length;
+    if (value.BOOL !== undefined || value.NULL !== undefined) return 1;
+    if (value.SS || value.NS || value.BS) {
+        return setElements(value).reduce((sum, element) => sum + valueSize(element), 0);
+    }
+    if (value.L) return 3 + value.L.reduce((sum, element) => sum + 1 + valueSize(element), 0);
+    if (value.M) return 3 + itemSize(value.M);
+    return 0;
+}
+
+export function itemSize(item: Record<string, AttributeValue>): number {
+    return Object.entries(item).reduce((sum, [name, value]) => sum + Buffer.byteLength(name) + valueSize(value), 0);
+}
+
+/** Checks what DynamoDB rejects on write: malformed numbers, empty or duplicate sets. */
+export function normalizeValue(value: AttributeValue): AttributeValue {
+    const type = typeOf(value);
+    switch (type) {
+        case "N":
+            return {N: normalizeNumber(value.N!)};
+        case "SS":
+        case "NS":
+        case "BS": {
+            const elements = setElements(value).map(normalizeValue);
+            if (!elements.length) {
+                throw new DynamoLocalValidationException("Sets may not be empty");
+            }
+            if (elements.some((element, i) => elements.findIndex(other => valuesEqual(element, other)) !== i)) {
+                throw new DynamoLocalValidationException("Input collection contains duplicates");
+            }
+            return toSet(type, elements)!;
+        }
+        case "L":
+            return {L: value.L!.map(normalizeValue)};
+        case "M":
+            return {M: normalizeItem(value.M!)};
+        case "S":
+        case "B":
+        case "BOOL":
+        case "NULL":
+            return value;
+        default:
+            throw new DynamoLocalValidationException("Supplied AttributeValue is empty or has an unknown type");
+    }
+}
+
+export function normalizeItem(item: Record<string, AttributeValue>): Record<string, AttributeValue> {
+    return Object.fromEntries(Object.entries(item).map(([name, value]) => [name, normalizeValue(value)]));
+}
+
+export function getPath(item: Record<string, AttributeValue>, path: PathElement[]): AttributeValue | undefined {
+    let current: AttributeValue | undefined = {M: item};
+    for (const element of path) {
+        if (!current) return undefined;
+        current = 'name' in element ? current.M?.[element.name] : current.L?.[element.index];
+    }
+    return current;
+}
+
+/** Sets `value` at `path`; the parent of the last element has to exist. */
+export function setPath(item: Record<string, AttributeValue>, path: PathElement[], value: AttributeValue): void {
+    const parent = getPath(item, path.slice(0, -1));
+    const last = path[path.length - 1];
+    if ('name' in last && parent?.M) {
+        parent.M[last.name] = value;
+    } else if ('index' in last && parent?.L) {
+        if (last.index >= parent.L.length) {
+            parent.L.push(value);
+        } else {
+            parent.L[last.index] = value;
+        }
+    } else {
+        throw new DynamoLocalValidationException(
+            "The document path provided in the update expression is invalid for update"
+        );
+    }
+}
+
+export function removePath(item: Record<string, AttributeValue>, path: PathElement[]): void {
+    const parent = getPath(item, path.slice(0, -1));
+    const last = path[path.length - 1];
+    if ('name' in last && parent?.M) {
+        delete parent.M[last.name];
+    } else if ('index' in last && parent?.L) {
+        parent.L.splice(last.index, 1);
+    }
+}
+
+export function cloneItem(item: Record<string, AttributeValue>): Record<string, AttributeValue> {
+    return cloneValue({M: item}).M!;
+}
+
+function cloneValue(value: AttributeValue): AttributeValue {
+    if (value.L) return {L: value.L.map(cloneValue)};
+    if (value.M) return {M: Object.fromEntries(Object.entries(value.M).map(([key, v]) => [key, cloneValue(v)]))};
+    if (value.SS) return {SS: [...value.SS]};
+    if (value.NS) return {NS: [...value.NS]};
+    if (value.BS) return {BS: [...value.BS]};
+    return {...value};
+}
@@ -0,0 +1,46 @@
+import {AttributeValue, WriteRequest} from "@aws-sdk/client-dynamodb";
+import {DynamoBackoffOptions} from "../DynamoConcurrency";
+
+export interface DynamoBatchOptions extends DynamoBackoffOptions {
+    /** Number of chunks sent in parallel. Defaults to 4. */
+    concurrency?: number;
+    /** Retries of unprocessed keys or items per chunk. Defaults to 5. */
+    maxRetries?: number;
+}
+
+export interface DynamoBatchGetOptions extends DynamoBatchOptions {
+    consistentRead?: boolean;
+    /** Attribute paths to read instead of whole items, see `IDynamoFilterQuery.fields`. */
+    fields?: string[];
+}
+
+export interface DynamoBatchWriteOptions extends DynamoBatchOptions {
+    /** Required on versioned services: batch writes are unconditional and bypass optimistic locking. */
+    ignoreVersionCheck?: boolean;
+    /**
+     * Required for deletes on services with a `lifecycle`: `BatchWriteItem` cannot soft-delete,
+     * so batch deletes always remove items for good.
+     */
+    permanent?: boolean;
+}
+
+export interface DynamoBatchGetResult<T> {
+    items: T[];
+    /** Keys DynamoDB still reported as unprocessed after all retries. */
+    unprocessedKeys: Record<string, any>[];
+}
+
+export interface DynamoBatchWriteResult<T> {
+    /** Puts and deletes DynamoDB still reported as unprocessed after all retries. */
+    unprocessedPuts: T[];
+    unprocessedDeletes: Record<string, any>[];
+}
+
+export interface DynamoRawBatchGetResult {
+    items: Record<string, AttributeValue>[];
+    unprocessedKeys: Record<string, AttributeValue>[];
+}
+
+export interface DynamoRawBatchWriteResult {
+    unprocessed: WriteRequest[];
+}
@@ -0,0 +1,32 @@
+import {IDynamoLogger} from "./DynamoObservability";
+
+/** What a cache store holds per key. `value` is `undefined` for items that do not exist. */
+export interface DynamoCacheEntry {
+    value?: unknown;
+}
+
+/**
+ * Storage behind a `DynamoCache`. Stores may be asynchronous, e.g. Redis or Memcached,
+ * which serialize entries as JSON; expired entries must not be returned.
+ */
+export interface IDynamoCacheStore {
+    get(key: string): DynamoCacheEntry | undefined | Promise<DynamoCacheEntry | undefined>;
+    set(key: string, entry: DynamoCacheEntry, ttlMs: number): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+}
+
+export interface DynamoCacheOptions {
+    /** Defaults to an in-process `DynamoLruCacheStore` with 1000 entries. */
+    store?: IDynamoCacheStore;
+    /** Lifetime of cached items and queries. Defaults to 60 seconds. */
+    ttlMs?: number;
+    /**
+     * Lifetimes by entity name, read from the `typeAttribute` of cached items. Queries live
+     * as long as their shortest-lived item. A lifetime of 0 turns caching off for an entity.
+     */
+    entityTtlMs?: Record<string, number>;
+    /** Attribute holding the entity name. Defaults to `entityType`. */
+    typeAttribute?: string;
+    /** Receives failures of the store, which are otherwise treated as cache misses. */
+    logger?: IDynamoLogger;
+}
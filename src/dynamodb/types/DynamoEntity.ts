@@ -0,0 +1,43 @@
+import {IDynamoFilter} from "./DynamoFilter";
+import {IDynamoFilterQuery} from "./DynamoPagination";
+import {IPaginationQuery} from "@denis_bruns/core";
+
+/**
+ * Templates for key attribute values, composed from entity fields in braces,
+ * e.g. `{pk: "TENANT#{tenantId}", sk: "ORDER#{createdAt}#{orderId}"}`.
+ */
+export interface DynamoKeyTemplates {
+    pk: string;
+    sk?: string;
+}
+
+export interface DynamoEntityDefinition<T> {
+    /** Stored in the type attribute to tell the entities of one table apart. */
+    name: string;
+    /** Attributes the entity consists of. Only these are written and read. */
+    attributes: readonly (keyof T & string)[];
+    /** Templates for the table's key attributes. */
+    keys: DynamoKeyTemplates;
+    /**
+     * Templates for the key attributes of secondary indexes, by index name. Index keys are
+     * only written when all their fields are set, so the index stays sparse.
+     */
+    indexes?: Record<string, DynamoKeyTemplates>;
+    /** Attribute holding the entity name. Defaults to `entityType`. */
+    typeAttribute?: string;
+}
+
+/**
+ * Query in entity terms. The partition key template must be covered by `key`; the sort key
+ * template is matched exactly when covered, or by the prefix up to its first missing field.
+ */
+export interface DynamoEntityQuery<T>
+    extends Omit<IDynamoFilterQuery, 'filters' | 'fields' | 'indexName' | 'pagination'> {
+    key: Partial<T>;
+    pagination?: IPaginationQuery;
+    /** Index to query, using the key templates declared for it. */
+    index?: string;
+    /** Additional filters on declared attributes. */
+    filters?: IDynamoFilter[];
+    fields?: (keyof T & string)[];
+}
@@ -0,0 +1,36 @@
+import {QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoFilterNode, IDynamoFilter} from "./DynamoFilter";
+import {DynamoPaginationMode} from "./DynamoPagination";
+
+/** `None` when nothing would be read, e.g. for a limit of 0. */
+export type DynamoExplainOperation = 'Query' | 'Scan' | 'None';
+
+export type DynamoExplainWarningCode = 'FULL_SCAN' | 'POST_FILTER' | 'IN_MEMORY_SORT' | 'OFFSET_SLICING';
+
+export interface DynamoExplainWarning {
+    code: DynamoExplainWarningCode;
+    message: string;
+}
+
+export interface DynamoExplainResult {
+    operation: DynamoExplainOperation;
+    tableName: string;
+    indexName?: string;
+    /**
+     * The first request exactly as it would be sent. Later pages only differ in
+     * `ExclusiveStartKey` and `Limit`.
+     */
+    command?: QueryCommand | ScanCommand;
+    /** Filters sent as `KeyConditionExpression`. */
+    keyConditions: IDynamoFilter[];
+    /** Filters sent as `FilterExpression`; filtered out items still count as read. */
+    postFilters: DynamoFilterNode[];
+    paginationMode: DynamoPaginationMode;
+    /** True when every matching item is read to sort by a non-key attribute. */
+    sortsInMemory: boolean;
+    /** True when the items before `offset` are read and dropped. */
+    slicesInMemory: boolean;
+    /** False when the service is `strict` and would refuse the query. */
+    allowed: boolean;
+    warnings: DynamoExplainWarning[];
+}
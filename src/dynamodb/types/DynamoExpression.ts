@@ -3,9 +3,17 @@ import {IDatabaseExpression} from "@denis_bruns/core";
 
 export interface DynamoExpression extends IDatabaseExpression {
     TableName?: string;
+    IndexName?: string;
     KeyConditionExpression?: string;
     FilterExpression?: string;
+    ConditionExpression?: string;
+    UpdateExpression?: string;
+    ProjectionExpression?: string;
     ExpressionAttributeNames?: Record<string, string>;
     ExpressionAttributeValues?: Record<string, AttributeValue>;
     ScanIndexForward?: boolean;
-}
\ No newline at end of file
+    ExclusiveStartKey?: Record<string, AttributeValue>;
+    Limit?: number;
+    Segment?: number;
+    TotalSegments?: number;
+}
@@ -0,0 +1,39 @@
+import {IFilterQuery} from "@denis_bruns/core";
+
+export type DynamoSizeOperator = 'size =' | 'size !=' | 'size <' | 'size <=' | 'size >' | 'size >=';
+
+export type DynamoFilterOperator =
+    IFilterQuery['operator']
+    | 'between'
+    | 'begins_with'
+    | 'exists'
+    | 'not exists'
+    | 'type'
+    | DynamoSizeOperator;
+
+/** Type descriptors accepted by the `type` operator. */
+export type DynamoAttributeType = 'S' | 'SS' | 'N' | 'NS' | 'B' | 'BS' | 'BOOL' | 'NULL' | 'L' | 'M';
+
+/**
+ * `IFilterQuery` extended with the DynamoDB specific operators.
+ * `between` expects a `[lower, upper]` tuple, both bounds inclusive.
+ * `in` and `not in` expect up to 100 values.
+ * `exists` and `not exists` take no value.
+ * `type` expects a `DynamoAttributeType`.
+ * The `size` operators compare the length of a string, binary, set, list or map with a non-negative integer.
+ */
+export interface IDynamoFilter extends Omit<IFilterQuery, 'operator' | 'value'> {
+    operator: DynamoFilterOperator;
+    value?: any;
+}
+
+/**
+ * Filters combined with AND, OR or NOT, nested arbitrarily, e.g.
+ * `{or: [{field: "status", operator: "=", value: "open"}, {field: "assignee", operator: "=", value: "me"}]}`.
+ */
+export type DynamoFilterGroup =
+    { and: DynamoFilterNode[] }
+    | { or: DynamoFilterNode[] }
+    | { not: DynamoFilterNode };
+
+export type DynamoFilterNode = IDynamoFilter | DynamoFilterGroup;
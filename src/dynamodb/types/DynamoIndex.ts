@@ -0,0 +1,13 @@
+export type DynamoIndexType = 'GSI' | 'LSI';
+
+/** Key attributes of the base table or of one of its indexes. */
+export interface DynamoKeySchema {
+    pkName: string;
+    skName?: string;
+}
+
+export interface DynamoIndexDefinition extends DynamoKeySchema {
+    name: string;
+    /** Informational; local secondary indexes share the table's partition key. */
+    type?: DynamoIndexType;
+}
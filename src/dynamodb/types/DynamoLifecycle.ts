@@ -0,0 +1,12 @@
+/**
+ * Soft delete with TTL purging. `delete` marks items instead of removing them and
+ * `fetchWithFiltersAndPagination` skips marked and expired items unless asked not to.
+ */
+export interface DynamoLifecycleOptions {
+    /** Holds the deletion time as an ISO string on soft-deleted items. Defaults to `deletedAt`. */
+    deletedAttribute?: string;
+    /** The table's TTL attribute, in epoch seconds. Defaults to `expiresAt`. */
+    ttlAttribute?: string;
+    /** Seconds soft-deleted items are kept before TTL purges them. Kept until restored when unset. */
+    retentionSeconds?: number;
+}
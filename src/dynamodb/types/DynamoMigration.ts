@@ -0,0 +1,54 @@
+import {DynamoDBService} from "../DynamoDBService";
+import {IDynamoFilter} from "./DynamoFilter";
+import {IDynamoLogger} from "./DynamoObservability";
+import {DynamoEnsureTableOptions} from "./DynamoTable";
+
+/**
+ * A versioned data migration that rewrites the items of one table, e.g. to backfill an
+ * attribute or to move items to new keys.
+ */
+export interface DynamoMigration<T = Record<string, any>> {
+    /** Positive integer; migrations run once each, in ascending order. */
+    version: number;
+    name: string;
+    /** Service of the table whose items are migrated. Soft-deleted items are migrated too. */
+    service: DynamoDBService;
+    /** Restricts the migrated items, e.g. to one entity type. */
+    filters?: IDynamoFilter[];
+    /** Segments scanned in parallel. Defaults to 1. */
+    totalSegments?: number;
+    /**
+     * Returns the migrated item, `undefined` to leave the item as it is or `null` to delete it.
+     * A migrated item with another key replaces the original. Must be idempotent: moved items
+     * may be read again, as may the last page of an interrupted migration.
+     */
+    migrate(item: T): T | null | undefined | Promise<T | null | undefined>;
+}
+
+export type DynamoMigrationStatus = 'running' | 'completed';
+
+/** Progress of a migration, stored in the migrations table under its version. */
+export interface DynamoMigrationRecord {
+    version: number;
+    name: string;
+    status: DynamoMigrationStatus;
+    itemsRead: number;
+    itemsWritten: number;
+    itemsDeleted: number;
+    /** Serialized scan checkpoint of a running migration, used to resume it. */
+    checkpoint?: string;
+    startedAt: string;
+    completedAt?: string;
+}
+
+export interface DynamoMigrationReport extends Pick<DynamoMigrationRecord, 'version' | 'name' | 'itemsRead' | 'itemsWritten' | 'itemsDeleted'> {
+    /** `skipped` migrations were completed by an earlier run. */
+    status: 'applied' | 'resumed' | 'skipped';
+}
+
+export interface DynamoMigrationRunnerOptions {
+    /** Table holding the progress records; created when missing. Defaults to `migrations`. */
+    tableName?: string;
+    ensureTable?: DynamoEnsureTableOptions;
+    logger?: IDynamoLogger;
+}
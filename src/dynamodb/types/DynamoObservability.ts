@@ -0,0 +1,41 @@
+import {ConsumedCapacity} from "@aws-sdk/client-dynamodb";
+
+/** Structured logger; `context` carries the details as plain data. */
+export interface IDynamoLogger {
+    debug(message: string, context?: Record<string, unknown>): void;
+    warn(message: string, context?: Record<string, unknown>): void;
+    error(message: string, context?: Record<string, unknown>): void;
+}
+
+export interface DynamoCommandInfo {
+    /** SDK command name, e.g. `QueryCommand`. */
+    commandName: string;
+    /** Tables the command reads or writes; several for batches and transactions. */
+    tableNames: string[];
+    indexName?: string;
+    /** Position of a Query or Scan page within a read that follows `LastEvaluatedKey`, from 1. */
+    page?: number;
+    /** 1 for the first attempt, counting up when the service's retry policy retries. */
+    attempt: number;
+}
+
+export interface DynamoCommandResult extends DynamoCommandInfo {
+    durationMs: number;
+    /** Items returned by reads. */
+    itemCount?: number;
+    /** Items a Query or Scan evaluated before filtering. */
+    scannedCount?: number;
+    /** Reported per table; commands are sent with `ReturnConsumedCapacity` while hooks are set. */
+    consumedCapacity: ConsumedCapacity[];
+    /** Set when the command failed. */
+    error?: unknown;
+}
+
+/**
+ * Called around every command a service sends. Errors thrown by hooks are logged and
+ * never fail the command.
+ */
+export interface DynamoCommandHooks {
+    beforeCommand?: (info: DynamoCommandInfo) => void;
+    afterCommand?: (result: DynamoCommandResult) => void;
+}
@@ -0,0 +1,87 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {IGenericFilterQuery, IPaginatedResponse} from "@denis_bruns/core";
+import {DynamoFilterNode, IDynamoFilter} from "./DynamoFilter";
+
+export type DynamoPaginationMode = 'offset' | 'cursor';
+
+export interface IDynamoFilterQuery extends Omit<IGenericFilterQuery, 'filters'> {
+    filters: IDynamoFilter[];
+    /**
+     * Grouped filters, combined with `filters` by AND. Partition and sort key conditions are
+     * only taken from filters that are ANDed at the top level.
+     */
+    where?: DynamoFilterNode;
+
+    /**
+     * `offset` (default) reads the matching items and slices them in memory.
+     * `cursor` reads at most `limit` items starting after `cursor` and returns a `nextCursor`.
+     * Passing a `cursor` implies cursor mode.
+     */
+    paginationMode?: DynamoPaginationMode;
+    cursor?: string;
+    /** Forces a registered secondary index instead of the automatic index selection. */
+    indexName?: string;
+    /** Lets this query scan the table although the service is `strict`. */
+    allowScan?: boolean;
+    /** Also returns soft-deleted and expired items on services with a `lifecycle`. */
+    includeDeleted?: boolean;
+    /**
+     * Attribute paths to read instead of whole items, e.g. `["id", "address.city", "tags[0]"]`.
+     * Type the results with `ProjectedItem`.
+     */
+    fields?: string[];
+}
+
+export interface IDynamoPaginatedResponse<T> extends IPaginatedResponse<T> {
+    /** Opaque continuation token, only set in cursor mode while more items may follow. */
+    nextCursor?: string;
+    /**
+     * Matching items read so far: in offset mode at least `offset + limit` when that many
+     * exist, in cursor mode the items of this page. Not the number of matches in the table.
+     */
+    total: number;
+    /**
+     * True when more matching items follow this page: items were read beyond it, or DynamoDB
+     * reported more items after the last page that was read.
+     */
+    hasMore?: boolean;
+    /** True when reading stopped because a read budget was exhausted. */
+    truncated?: boolean;
+    stoppedBy?: DynamoReadBudgetKind;
+}
+
+/**
+ * Safety limits for reads that follow `LastEvaluatedKey` across several pages.
+ * Unset limits are unbounded.
+ */
+export interface DynamoReadBudget {
+    maxPages?: number;
+    /** Upper bound for items evaluated by DynamoDB (`ScannedCount`), not items returned. */
+    maxItemsRead?: number;
+    /** Upper bound for consumed read capacity units. */
+    maxConsumedCapacity?: number;
+}
+
+export type DynamoReadBudgetKind = keyof DynamoReadBudget;
+
+export interface DynamoQueryPage {
+    items: Record<string, AttributeValue>[];
+    lastEvaluatedKey?: Record<string, AttributeValue>;
+    scannedCount?: number;
+    consumedCapacity?: number;
+}
+
+export interface DynamoReadOptions {
+    /** Stop once this many items have been collected. Reads until exhaustion when unset. */
+    targetItemCount?: number;
+    /** Send `Limit` so that no page evaluates more items than are still missing. */
+    limitPagesToTarget?: boolean;
+    budget?: DynamoReadBudget;
+}
+
+export interface DynamoReadResult extends DynamoQueryPage {
+    pagesRead: number;
+    itemsRead: number;
+    consumedCapacity: number;
+    stoppedBy?: DynamoReadBudgetKind;
+}
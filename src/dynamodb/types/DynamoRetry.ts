@@ -0,0 +1,18 @@
+import {DynamoBackoffOptions} from "../DynamoConcurrency";
+
+/**
+ * Retries on top of the SDK's own, applied to every command of a service. Delays use
+ * exponential backoff with full jitter.
+ */
+export interface DynamoRetryOptions extends DynamoBackoffOptions {
+    /** Attempts per command including the first. Defaults to 1, i.e. only the SDK retries. */
+    maxAttempts?: number;
+    /**
+     * Retries shared by all commands of the policy. Each retry takes one, each successful
+     * command returns one up to this number, so an outage does not multiply the load.
+     * Unlimited by default.
+     */
+    retryBudget?: number;
+    /** Decides whether a failed attempt is retried. Defaults to `isRetryableDynamoError`. */
+    retryable?: (error: unknown, attempt: number) => boolean;
+}
@@ -0,0 +1,41 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+import {IDynamoFilterQuery} from "./DynamoPagination";
+
+/** The parts of a query that apply to scans of a whole table or index. */
+export type DynamoScanQuery = Pick<IDynamoFilterQuery, 'filters' | 'where' | 'fields' | 'indexName' | 'includeDeleted'>;
+
+export interface DynamoScanSegmentCheckpoint {
+    /** Where the segment continues; absent before its first page. */
+    lastEvaluatedKey?: Record<string, AttributeValue>;
+    done: boolean;
+}
+
+/** Progress of a parallel scan. Plain JSON, so it can be persisted and passed back to resume. */
+export interface DynamoScanCheckpoint {
+    totalSegments: number;
+    segments: Record<number, DynamoScanSegmentCheckpoint>;
+}
+
+export interface DynamoParallelScanOptions<T> {
+    /** Number of segments the table is split into (1 to 1,000,000). */
+    totalSegments: number;
+    /** Segments scanned at the same time. Defaults to 4, whatever the number of segments. */
+    concurrency?: number;
+    /** Resumes a previous scan; finished segments are skipped. */
+    checkpoint?: DynamoScanCheckpoint;
+    /**
+     * Streams the items of every page instead of collecting them. The page's checkpoint is
+     * only reported after this resolves, so a resumed scan never skips unprocessed items.
+     */
+    onItems?: (items: T[], segment: number) => void | Promise<void>;
+    /** Called with a snapshot of the progress after every page. */
+    onCheckpoint?: (checkpoint: DynamoScanCheckpoint) => void | Promise<void>;
+}
+
+export interface DynamoParallelScanResult<T> {
+    /** Collected items; empty when `onItems` streams them. */
+    items: T[];
+    itemsRead: number;
+    pagesRead: number;
+    checkpoint: DynamoScanCheckpoint;
+}
@@ -0,0 +1,64 @@
+import {AttributeValue} from "@aws-sdk/client-dynamodb";
+
+export type DynamoStreamEventName = 'INSERT' | 'MODIFY' | 'REMOVE';
+
+/** A stream record as delivered to Lambda; compatible with `DynamoDBRecord` of `@types/aws-lambda`. */
+export interface DynamoStreamRecord {
+    eventID?: string;
+    eventName?: DynamoStreamEventName;
+    eventSource?: string;
+    eventSourceARN?: string;
+    awsRegion?: string;
+    dynamodb?: {
+        Keys?: Record<string, AttributeValue>;
+        NewImage?: Record<string, AttributeValue>;
+        OldImage?: Record<string, AttributeValue>;
+        SequenceNumber?: string;
+        /** Epoch seconds. */
+        ApproximateCreationDateTime?: number;
+        SizeBytes?: number;
+        StreamViewType?: string;
+    };
+    /** Set to the DynamoDB service principal for deletions by TTL. */
+    userIdentity?: {
+        type?: string;
+        principalId?: string;
+    };
+}
+
+export interface DynamoStreamEvent {
+    Records: DynamoStreamRecord[];
+}
+
+/** Reported back to Lambda to retry the batch from the first failed record. */
+export interface DynamoStreamBatchResponse {
+    batchItemFailures: { itemIdentifier: string }[];
+}
+
+export interface DynamoAttributeChange {
+    attribute: string;
+    type: 'added' | 'removed' | 'changed';
+    oldValue?: any;
+    newValue?: any;
+}
+
+/**
+ * A stream record with its images unmarshalled. Images are missing when the stream
+ * view type does not include them, e.g. `KEYS_ONLY`.
+ */
+export interface DynamoChangeEvent<T = Record<string, any>> {
+    type: DynamoStreamEventName;
+    keys: Record<string, any>;
+    newItem?: T;
+    oldItem?: T;
+    /** Top-level attributes that differ between the images; empty unless both are present. */
+    changes: DynamoAttributeChange[];
+    eventId?: string;
+    sequenceNumber?: string;
+    approximateCreationTime?: Date;
+    /** True for items TTL deleted. */
+    expiredByTtl: boolean;
+    record: DynamoStreamRecord;
+}
+
+export type DynamoChangeHandler<T = Record<string, any>> = (event: DynamoChangeEvent<T>) => Promise<void> | void;
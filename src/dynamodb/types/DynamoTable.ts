@@ -0,0 +1,61 @@
+import {DynamoIndexDefinition, DynamoKeySchema} from "./DynamoIndex";
+
+export type DynamoKeyAttributeType = 'S' | 'N' | 'B';
+
+export type DynamoBillingMode = 'PAY_PER_REQUEST' | 'PROVISIONED';
+
+export interface DynamoTableIndexDefinition extends DynamoIndexDefinition {
+    /** Defaults to `S`. */
+    pkType?: DynamoKeyAttributeType;
+    /** Defaults to `S`. */
+    skType?: DynamoKeyAttributeType;
+    /** Attributes copied into the index: all (default), only the keys, or the keys and the listed ones. */
+    projection?: 'ALL' | 'KEYS_ONLY' | string[];
+}
+
+export interface DynamoProvisionedThroughput {
+    readCapacityUnits: number;
+    writeCapacityUnits: number;
+}
+
+/**
+ * A table as declared in code. It creates the table, is compared with the deployed one
+ * and configures the key handling of its services, see `DynamoTable`.
+ */
+export interface DynamoTableDefinition extends DynamoKeySchema {
+    name: string;
+    /** Defaults to `S`. */
+    pkType?: DynamoKeyAttributeType;
+    /** Defaults to `S`. */
+    skType?: DynamoKeyAttributeType;
+    /** Secondary indexes; `type` defaults to `GSI`. Local indexes share the table's partition key. */
+    indexes?: DynamoTableIndexDefinition[];
+    /** Attribute holding the expiry time in epoch seconds. Enables TTL. */
+    ttlAttribute?: string;
+    /** Defaults to `PAY_PER_REQUEST`. */
+    billingMode?: DynamoBillingMode;
+    /** Required for `PROVISIONED` tables; also used for their global indexes. */
+    throughput?: DynamoProvisionedThroughput;
+}
+
+export interface DynamoTableDifference {
+    /** What differs, e.g. `skName`, `billingMode`, `indexes.byEmail`, `indexes.byEmail.projection` or `ttlAttribute`. */
+    path: string;
+    /** The declared value; `undefined` for what only the deployed table has. */
+    expected?: unknown;
+    /** The deployed value; `undefined` for what the deployed table lacks. */
+    actual?: unknown;
+}
+
+export interface DynamoEnsureTableOptions {
+    /** How long to wait for the table and its indexes to become ACTIVE. Defaults to 5 minutes. */
+    timeoutMs?: number;
+    /** Delay between `DescribeTable` calls while waiting. Defaults to 1 second. */
+    pollIntervalMs?: number;
+}
+
+export interface DynamoEnsureTableResult {
+    created: boolean;
+    /** Drift of an existing table from its definition; always empty for created tables. */
+    differences: DynamoTableDifference[];
+}
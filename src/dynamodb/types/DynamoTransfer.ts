@@ -0,0 +1,64 @@
+import {DynamoBatchWriteOptions} from "./DynamoBatch";
+import {DynamoScanQuery} from "./DynamoScan";
+
+/**
+ * `dynamodb-json`: one `{"Item": {...}}` per line with typed attribute values, as in DynamoDB's
+ * S3 exports. `jsonl`: one plain JSON object per line. `csv`: a header row of attribute paths,
+ * with nested maps and lists flattened to `address.city` and `tags[0]`.
+ */
+export type DynamoTransferFormat = 'dynamodb-json' | 'jsonl' | 'csv';
+
+/** Receives text in order; a Node.js `Writable` (e.g. a file stream) or a function. */
+export type DynamoTransferSink =
+    | { write(chunk: string): boolean; once(event: 'drain', listener: () => void): unknown }
+    | ((chunk: string) => void | Promise<void>);
+
+/** Line-oriented input: a readable stream, or iterables yielding one line each. */
+export type DynamoTransferSource = NodeJS.ReadableStream | Iterable<string> | AsyncIterable<string>;
+
+/** How CSV cells are read back; cells are strings unless typed here. Empty cells are skipped. */
+export type DynamoCsvColumnType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface DynamoExportOptions {
+    format: DynamoTransferFormat;
+    /** Filters, projection and index of the scan. Exports the whole table by default. */
+    query?: DynamoScanQuery;
+    /** Segments scanned in parallel. Defaults to 1, which keeps the items in key order. */
+    totalSegments?: number;
+    /**
+     * CSV columns. Without them, the header is made of the attributes of the first page of
+     * items; pass them when items differ in their attributes.
+     */
+    columns?: string[];
+}
+
+export interface DynamoExportResult {
+    itemsExported: number;
+    /** CSV attributes of items that were not in the header and were left out. */
+    droppedColumns?: string[];
+}
+
+export interface DynamoImportOptions extends DynamoBatchWriteOptions {
+    format: DynamoTransferFormat;
+    /** Types of CSV columns, by column name. */
+    columnTypes?: Record<string, DynamoCsvColumnType>;
+    /** Items per `batchWrite`. Defaults to 25. */
+    batchSize?: number;
+    /** Upper bound for the write rate. Unlimited by default. */
+    maxItemsPerSecond?: number;
+    /** Receives a `DynamoRejectedRow` as a JSON line for every row that was not imported. */
+    rejected?: DynamoTransferSink;
+}
+
+export interface DynamoRejectedRow {
+    /** Line of the row in the input, starting at 1; the first line of multi-line CSV rows. */
+    line: number;
+    reason: string;
+    row: string;
+}
+
+export interface DynamoImportResult {
+    rowsRead: number;
+    itemsImported: number;
+    itemsRejected: number;
+}
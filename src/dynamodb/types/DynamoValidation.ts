@@ -0,0 +1,24 @@
+import {DynamoAttributeType, DynamoFilterOperator} from "./DynamoFilter";
+
+export interface DynamoFieldRule {
+    /** Types values must marshal to. Checked for top-level attributes in writes and filters. */
+    types?: DynamoAttributeType[];
+    /** Filter operators allowed on the attribute. All by default. */
+    operators?: DynamoFilterOperator[];
+}
+
+export interface DynamoValidationOptions {
+    /**
+     * Allowlist by top-level attribute name. When set, filters, projections, sorting, updates
+     * and written items may only use these attributes, including key attributes.
+     */
+    fields?: Record<string, DynamoFieldRule>;
+    /** Pattern every segment of a field path must match. Defaults to letters, digits, `_`, `-` and `#`. */
+    fieldPattern?: RegExp;
+    /** Segments of a dotted field path. Defaults to 20. */
+    maxFieldDepth?: number;
+    /** Characters per segment of a field path. Defaults to 255. */
+    maxFieldLength?: number;
+    /** Characters of a string or bytes of a binary value. Defaults to 400000. */
+    maxValueLength?: number;
+}
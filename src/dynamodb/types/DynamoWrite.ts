@@ -0,0 +1,42 @@
+import {ReturnValue} from "@aws-sdk/client-dynamodb";
+import {DynamoFilterNode} from "./DynamoFilter";
+
+/**
+ * Primary key of an item. A plain value is the partition key of a table without
+ * sort key; otherwise pass an object holding the partition and sort key attributes.
+ */
+export type DynamoKeyInput = string | number | bigint | Uint8Array | Record<string, any>;
+
+export interface DynamoGetOptions {
+    consistentRead?: boolean;
+    /** Attribute paths to read instead of the whole item, see `IDynamoFilterQuery.fields`. */
+    fields?: string[];
+}
+
+export interface DynamoWriteOptions {
+    /** Conditions that must hold for the stored item, combined with AND. */
+    conditions?: DynamoFilterNode[];
+    /** Version the stored item must have on services with a `versionAttribute`. */
+    expectedVersion?: number;
+    /** Include the stored item in the error when a condition fails. */
+    returnItemOnConditionFailure?: boolean;
+}
+
+export interface DynamoPutOptions extends DynamoWriteOptions {
+    returnValues?: Extract<ReturnValue, 'NONE' | 'ALL_OLD'>;
+}
+
+export interface DynamoUpdateOptions extends DynamoWriteOptions {
+    /** Defaults to `ALL_NEW`. */
+    returnValues?: ReturnValue;
+}
+
+export interface DynamoDeleteOptions extends DynamoPutOptions {
+    /** Removes the item even though the service soft-deletes, see `DynamoLifecycleOptions`. */
+    permanent?: boolean;
+}
+
+/** With `returnItemOnConditionFailure`, the stored item is included in the cancellation reason. */
+export type DynamoTransactionWriteOptions = DynamoWriteOptions;
+
+export type DynamoTransactionDeleteOptions = DynamoTransactionWriteOptions & Pick<DynamoDeleteOptions, 'permanent'>;
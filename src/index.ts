@@ -1,6 +1,41 @@
 export * from './dynamodb/types/DynamoExpression'
+export * from './dynamodb/types/DynamoFilter'
+export * from './dynamodb/types/DynamoIndex'
+export * from './dynamodb/types/DynamoPagination'
+export * from './dynamodb/types/DynamoWrite'
+export * from './dynamodb/types/DynamoBatch'
+export * from './dynamodb/types/DynamoScan'
+export * from './dynamodb/types/DynamoEntity'
+export * from './dynamodb/types/DynamoExplain'
+export * from './dynamodb/types/DynamoObservability'
+export * from './dynamodb/types/DynamoRetry'
+export * from './dynamodb/types/DynamoStream'
+export * from './dynamodb/types/DynamoValidation'
+export * from './dynamodb/types/DynamoLifecycle'
+export * from './dynamodb/types/DynamoCache'
+export * from './dynamodb/types/DynamoTable'
+export * from './dynamodb/types/DynamoMigration'
+export * from './dynamodb/types/DynamoTransfer'
 export * from './dynamodb/DynamoDBExpressionBuilder'
+export * from './dynamodb/DynamoUpdateExpressionBuilder'
 export * from './dynamodb/DynamoDBService'
 export * from './dynamodb/DynamoQueryExecutor'
+export * from './dynamodb/DynamoBatchExecutor'
+export * from './dynamodb/DynamoTransaction'
+export * from './dynamodb/DynamoEntity'
+export * from './dynamodb/DynamoStreamProcessor'
+export * from './dynamodb/DynamoTable'
+export * from './dynamodb/DynamoMigrations'
+export * from './dynamodb/DynamoDataTransfer'
+export * from './dynamodb/DynamoConcurrency'
+export * from './dynamodb/DynamoCursor'
+export * from './dynamodb/DynamoObservability'
+export * from './dynamodb/DynamoRetryPolicy'
+export * from './dynamodb/DynamoCache'
+export * from './dynamodb/DynamoMarshaller'
 export * from './dynamodb/DynamoUtils'
-export * from './dynamodb/DynamoValidator'
\ No newline at end of file
+export * from './dynamodb/DynamoValidator'
+export * from './dynamodb/DynamoErrors'
+export * from './dynamodb/local/DynamoLocal'
+export * from './dynamodb/local/DynamoLocalTable'
+export * from './dynamodb/local/DynamoLocalErrors'
\ No newline at end of file
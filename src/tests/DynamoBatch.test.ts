@@ -0,0 +1,103 @@
+import {BatchGetItemCommand, BatchWriteItemCommand, DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {mapWithConcurrency} from "../dynamodb/DynamoConcurrency";
+
+describe('DynamoDB Batch Operation Tests', () => {
+    const service = new DynamoDBService('items');
+    const noDelay = {baseDelayMs: 0};
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+        send = jest.fn();
+        client = {send} as unknown as DynamoDBClient;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    describe('batchGet', () => {
+        it('should chunk keys into requests of 100 and drop duplicates', async () => {
+            send.mockImplementation((command) => Promise.resolve({
+                Responses: {items: command.input.RequestItems.items.Keys}
+            }));
+            const keys = Array.from({length: 250}, (_, i) => `id-${i}`);
+
+            const result = await service.batchGet<{ id: string }>([...keys, 'id-0'], client);
+
+            expect(send).toHaveBeenCalledTimes(3);
+            expect(send.mock.calls[0][0]).toBeInstanceOf(BatchGetItemCommand);
+            expect(send.mock.calls.map(call => call[0].input.RequestItems.items.Keys.length)).toEqual([100, 100, 50]);
+            expect(result.items).toHaveLength(250);
+            expect(result.unprocessedKeys).toEqual([]);
+        });
+
+        it('should retry unprocessed keys and report the ones that never succeed', async () => {
+            send
+                .mockResolvedValueOnce({
+                    Responses: {items: [{id: {S: 'a'}}]},
+                    UnprocessedKeys: {items: {Keys: [{id: {S: 'b'}}, {id: {S: 'c'}}]}}
+                })
+                .mockResolvedValueOnce({
+                    Responses: {items: [{id: {S: 'b'}}]},
+                    UnprocessedKeys: {items: {Keys: [{id: {S: 'c'}}]}}
+                })
+                .mockResolvedValue({UnprocessedKeys: {items: {Keys: [{id: {S: 'c'}}]}}});
+
+            const result = await service.batchGet<{ id: string }>(['a', 'b', 'c'], client, {...noDelay, maxRetries: 3});
+
+            expect(send).toHaveBeenCalledTimes(4);
+            expect(send.mock.calls[1][0].input.RequestItems.items.Keys).toEqual([{id: {S: 'b'}}, {id: {S: 'c'}}]);
+            expect(result.items).toEqual([{id: 'a'}, {id: 'b'}]);
+            expect(result.unprocessedKeys).toEqual([{id: 'c'}]);
+        });
+    });
+
+    describe('batchWrite', () => {
+        it('should chunk puts and deletes into requests of 25', async () => {
+            send.mockResolvedValue({});
+            const puts = Array.from({length: 30}, (_, i) => ({id: `p-${i}`, name: 'x'}));
+
+            const result = await service.batchWrite(puts, ['d-1', 'd-2'], client);
+
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(send.mock.calls[0][0]).toBeInstanceOf(BatchWriteItemCommand);
+            const secondChunk = send.mock.calls[1][0].input.RequestItems.items;
+            expect(secondChunk).toHaveLength(7);
+            expect(secondChunk[6]).toEqual({DeleteRequest: {Key: {id: {S: 'd-2'}}}});
+            expect(result).toEqual({unprocessedPuts: [], unprocessedDeletes: []});
+        });
+
+        it('should report unprocessed items after retries', async () => {
+            send.mockResolvedValue({
+                UnprocessedItems: {items: [{PutRequest: {Item: {id: {S: 'p-1'}, name: {S: 'x'}}}}]}
+            });
+
+            const result = await service.batchWrite([{id: 'p-1', name: 'x'}], [], client, {...noDelay, maxRetries: 2});
+
+            expect(send).toHaveBeenCalledTimes(3);
+            expect(result.unprocessedPuts).toEqual([{id: 'p-1', name: 'x'}]);
+        });
+
+        it('should reject duplicate keys', async () => {
+            await expect(service.batchWrite([{id: 'a'}], ['a'], client)).rejects.toThrow(DynamoValidationError);
+            expect(send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('mapWithConcurrency', () => {
+        it('should never run more than the given number of tasks at once', async () => {
+            let running = 0;
+            let peak = 0;
+            const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (value) => {
+                running++;
+                peak = Math.max(peak, running);
+                await new Promise(resolve => setTimeout(resolve, 1));
+                running--;
+                return value * 2;
+            });
+
+            expect(results).toEqual([2, 4, 6, 8, 10, 12]);
+            expect(peak).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoCache, DynamoLruCacheStore, normalizeQuery} from "../dynamodb/DynamoCache";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+import {DynamoCacheEntry, IDynamoCacheStore} from "../dynamodb/types/DynamoCache";
+import {IDynamoLogger} from "../dynamodb/types/DynamoObservability";
+
+interface Setting {
+    pk: string;
+    sk: string;
+    value: string;
+    entityType?: string;
+}
+
+const NOW = Date.UTC(2025, 9, 1);
+
+describe('DynamoDB Cache Tests', () => {
+    let local: DynamoLocal;
+    let commands: string[];
+    let service: DynamoDBService;
+
+    const createService = (cache: DynamoCache | object = {}) => new DynamoDBService('settings', 'pk', {
+        skName: 'sk',
+        cache,
+        hooks: {afterCommand: result => commands.push(result.commandName)}
+    });
+    const query = () => service.fetchWithFiltersAndPagination<Setting>({
+        filters: [{field: 'pk', operator: '=', value: 'APP'}],
+        pagination: {}
+    }, local.client);
+
+    beforeEach(async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+        local = new DynamoLocal();
+        local.createTable({name: 'settings', pkName: 'pk', skName: 'sk'});
+        await new DynamoDBService('settings', 'pk', {skName: 'sk'}).batchWrite<Setting>([
+            {pk: 'APP', sk: 'theme', value: 'dark', entityType: 'Config'},
+            {pk: 'APP', sk: 'locale', value: 'de', entityType: 'Session'}
+        ], [], local.client);
+        commands = [];
+        service = createService();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should serve repeated and concurrent reads with one request', async () => {
+        const key = {pk: 'APP', sk: 'theme'};
+        const [first, second] = await Promise.all([
+            service.getById<Setting>(key, local.client),
+            service.getById(key, local.client)
+        ]);
+        first!.value = 'changed';
+
+        expect(second).toEqual({pk: 'APP', sk: 'theme', value: 'dark', entityType: 'Config'});
+        expect(await service.getById<Setting>(key, local.client)).toEqual(second);
+        expect(await service.getById({pk: 'APP', sk: 'missing'}, local.client)).toBeUndefined();
+        expect(await service.getById({pk: 'APP', sk: 'missing'}, local.client)).toBeUndefined();
+        await service.getById(key, local.client, {consistentRead: true});
+        await service.getById(key, local.client, {fields: ['value']});
+
+        expect(commands).toEqual(['GetItemCommand', 'GetItemCommand', 'GetItemCommand', 'GetItemCommand']);
+    });
+
+    it('should cache queries by their normalized form', async () => {
+        await query();
+        await service.fetchWithFiltersAndPagination({
+            pagination: {},
+            filters: [{value: 'APP', operator: '=', field: 'pk'}]
+        }, local.client);
+
+        expect(commands).toEqual(['QueryCommand']);
+        expect(normalizeQuery({b: 1, a: {d: [2, {f: 1, e: 0}], c: undefined}}))
+            .toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}');
+    });
+
+    it('should invalidate items and queries on writes through the service', async () => {
+        const key = {pk: 'APP', sk: 'theme'};
+        await service.getById(key, local.client);
+        await query();
+
+        await service.update<Setting>(key, {value: 'light'}, local.client);
+        expect((await service.getById<Setting>(key, local.client))!.value).toBe('light');
+        expect((await query()).data.map(setting => setting.value)).toEqual(['de', 'light']);
+
+        await new DynamoTransaction().delete(service, key).execute(local.client);
+        expect(await service.getById(key, local.client)).toBeUndefined();
+
+        await service.batchWrite<Setting>([{pk: 'APP', sk: 'theme', value: 'blue'}], [], local.client);
+        expect(await service.getById(key, local.client)).toEqual({pk: 'APP', sk: 'theme', value: 'blue'});
+        expect(commands.filter(command => command === 'GetItemCommand')).toHaveLength(4);
+    });
+
+    it('should not cache reads that were in flight during a write', async () => {
+        const key = {pk: 'APP', sk: 'theme'};
+        let release!: () => void;
+        const gate = new Promise<void>(resolve => release = resolve);
+        const slowClient = {
+            send: async (command: any) => {
+                const response = await local.client.send(command);
+                await gate;
+                return response;
+            }
+        } as typeof local.client;
+
+        const stale = service.getById<Setting>(key, slowClient);
+        await new Promise(resolve => setImmediate(resolve));
+        await service.put<Setting>({...key, value: 'light'}, local.client);
+        release();
+
+        expect((await stale)!.value).toBe('dark');
+        expect((await service.getById<Setting>(key, local.client))!.value).toBe('light');
+    });
+
+    it('should expire entries by entity and evict the least recently used', async () => {
+        const store = new DynamoLruCacheStore(3);
+        service = createService(new DynamoCache({store, ttlMs: 10_000, entityTtlMs: {Config: 60_000, Session: 5_000}}));
+
+        await service.getById({pk: 'APP', sk: 'theme'}, local.client);
+        await service.getById({pk: 'APP', sk: 'locale'}, local.client);
+        await query();
+        expect(store.size).toBe(3);
+
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 30_000);
+        await service.getById({pk: 'APP', sk: 'theme'}, local.client);
+        await service.getById({pk: 'APP', sk: 'locale'}, local.client);
+        await query();
+        expect(commands).toEqual(['GetItemCommand', 'GetItemCommand', 'QueryCommand', 'GetItemCommand', 'QueryCommand']);
+
+        await service.getById({pk: 'APP', sk: 'a'}, local.client);
+        await service.getById({pk: 'APP', sk: 'b'}, local.client);
+        await service.getById({pk: 'APP', sk: 'theme'}, local.client);
+        expect(commands.slice(5)).toEqual(['GetItemCommand', 'GetItemCommand', 'GetItemCommand']);
+    });
+
+    it('should share external stores between services and fall back to reads when they fail', async () => {
+        const entries = new Map<string, DynamoCacheEntry>();
+        const store: IDynamoCacheStore = {
+            get: async key => entries.get(key),
+            set: async (key, entry) => {
+                entries.set(key, JSON.parse(JSON.stringify(entry)));
+            },
+            delete: async key => {
+                entries.delete(key);
+            }
+        };
+        const logger: jest.Mocked<IDynamoLogger> = {debug: jest.fn(), warn: jest.fn(), error: jest.fn()};
+        const cache = new DynamoCache({store, logger});
+        const key = {pk: 'APP', sk: 'theme'};
+
+        await createService(cache).getById(key, local.client);
+        await createService(cache).getById(key, local.client);
+        expect(commands).toEqual(['GetItemCommand']);
+        expect([...entries.keys()]).toEqual(['settings:item:[{"S":"APP"},{"S":"theme"}]']);
+
+        store.get = async () => {
+            throw new Error('connection refused');
+        };
+        expect(await createService(cache).getById(key, local.client)).toMatchObject({value: 'dark'});
+        expect(logger.error).toHaveBeenCalledWith('DynamoDB cache get failed', {error: expect.any(Error)});
+    });
+});
@@ -0,0 +1,124 @@
+import {DynamoDBClient, QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {decodeCursor, encodeCursor} from "../dynamodb/DynamoCursor";
+
+describe('DynamoDB Cursor Pagination Tests', () => {
+    const key = {id: {S: 'item-3'}};
+
+    describe('encodeCursor / decodeCursor', () => {
+        it('should round-trip an unsigned cursor', () => {
+            expect(decodeCursor(encodeCursor(key))).toEqual(key);
+        });
+
+        it('should round-trip a signed cursor', () => {
+            const cursor = encodeCursor(key, 'secret');
+            expect(decodeCursor(cursor, 'secret')).toEqual(key);
+        });
+
+        it('should reject a tampered or foreign cursor', () => {
+            const cursor = encodeCursor(key, 'secret');
+            const forged = encodeCursor({id: {S: 'other'}}) + '.' + cursor.split('.')[1];
+
+            expect(() => decodeCursor(forged, 'secret')).toThrow(DynamoValidationError);
+            expect(() => decodeCursor(cursor, 'other-secret')).toThrow(DynamoValidationError);
+            expect(() => decodeCursor(cursor)).toThrow(DynamoValidationError);
+            expect(() => decodeCursor('not-a-cursor')).toThrow(DynamoValidationError);
+        });
+    });
+
+    describe('fetchWithFiltersAndPagination in cursor mode', () => {
+        const pages = [
+            {Items: [{id: {S: 'item-1'}}], LastEvaluatedKey: {id: {S: 'item-1'}}},
+            {Items: [{id: {S: 'item-2'}}, {id: {S: 'item-3'}}], LastEvaluatedKey: key},
+            {Items: [{id: {S: 'item-4'}}]}
+        ];
+        let client: DynamoDBClient;
+        let send: jest.Mock;
+
+        beforeEach(() => {
+            let call = 0;
+            send = jest.fn().mockImplementation(() => Promise.resolve(pages[call++]));
+            client = {send} as unknown as DynamoDBClient;
+        });
+
+        it('should keep reading pages until the limit is reached and return a cursor', async () => {
+            const service = new DynamoDBService('table', 'id', {cursorSecret: 'secret'});
+            const result = await service.fetchWithFiltersAndPagination<{ id: string }>({
+                filters: [],
+                pagination: {limit: 3},
+                paginationMode: 'cursor'
+            }, client);
+
+            expect(result.data.map(item => item.id)).toEqual(['item-1', 'item-2', 'item-3']);
+            expect(send).toHaveBeenCalledTimes(2);
+            expect(send.mock.calls[0][0]).toBeInstanceOf(ScanCommand);
+            expect(send.mock.calls[0][0].input.Limit).toBe(3);
+            expect(send.mock.calls[1][0].input.Limit).toBe(2);
+            expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({id: {S: 'item-1'}});
+            expect(decodeCursor(result.nextCursor!, 'secret')).toEqual(key);
+        });
+
+        it('should continue from a given cursor and omit nextCursor on the last page', async () => {
+            const service = new DynamoDBService('table');
+            send.mockResolvedValueOnce(pages[2]);
+
+            const result = await service.fetchWithFiltersAndPagination<{ id: string }>({
+                filters: [{field: 'id', operator: '=', value: 'item-4'}],
+                pagination: {limit: 10},
+                cursor: encodeCursor(key)
+            }, client);
+
+            expect(send.mock.calls[0][0]).toBeInstanceOf(QueryCommand);
+            expect(send.mock.calls[0][0].input.ExclusiveStartKey).toEqual(key);
+            expect(result.data).toEqual([{id: 'item-4'}]);
+            expect(result.nextCursor).toBeUndefined();
+        });
+
+        it('should reject unsigned cursors whose key does not match the table or index', async () => {
+            const service = new DynamoDBService('table', 'id', {
+                indexes: [{name: 'byOwner', pkName: 'owner', skName: 'createdAt'}]
+            });
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const fetchFrom = (cursor: Record<string, any>, indexName?: string) => service.fetchWithFiltersAndPagination({
+                filters: [],
+                pagination: {limit: 10},
+                cursor: encodeCursor(cursor),
+                indexName
+            }, client);
+
+            await expect(fetchFrom({id: {S: 'a'}, role: {S: 'admin'}})).rejects.toThrow('Cursor does not match');
+            await expect(fetchFrom({id: {M: {}}})).rejects.toThrow('Cursor does not match');
+            await expect(fetchFrom(key, 'byOwner')).rejects.toThrow('Cursor does not match');
+            await fetchFrom({id: {S: 'a'}, owner: {S: 'o-1'}, createdAt: {N: '1'}}, 'byOwner');
+
+            expect(send.mock.calls[0][0].input).toMatchObject({IndexName: 'byOwner', ExclusiveStartKey: {owner: {S: 'o-1'}}});
+        });
+
+        it('should reject in-memory sorting of queries by other attributes', async () => {
+            const service = new DynamoDBService('table', 'id', {skName: 'createdAt'});
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const fetchSortedBy = (sortBy: string) => service.fetchWithFiltersAndPagination({
+                filters: [{field: 'id', operator: '=', value: 'item-1'}],
+                pagination: {limit: 10, sortBy},
+                paginationMode: 'cursor'
+            }, client);
+
+            await expect(fetchSortedBy('name')).rejects.toThrow(DynamoValidationError);
+            expect(send).not.toHaveBeenCalled();
+            await fetchSortedBy('createdAt');
+            expect(send.mock.calls[0][0].input.KeyConditionExpression).toBe('#pk = :pkVal');
+        });
+
+        it('should reject in-memory sorting of scans', async () => {
+            const service = new DynamoDBService('table');
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            await expect(service.fetchWithFiltersAndPagination({
+                filters: [],
+                pagination: {limit: 10, sortBy: 'name'},
+                paginationMode: 'cursor'
+            }, client)).rejects.toThrow(DynamoValidationError);
+        });
+    });
+});
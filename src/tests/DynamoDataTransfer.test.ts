@@ -0,0 +1,136 @@
+import {PassThrough} from "stream";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoDataTransfer, flattenItem, parseCsvRow, unflattenItem} from "../dynamodb/DynamoDataTransfer";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+import {DynamoTransferFormat} from "../dynamodb/types/DynamoTransfer";
+
+interface User {
+    pk: string;
+    name: string;
+    age?: number;
+    active?: boolean;
+    address?: { city: string; zip?: string };
+    tags?: string[];
+}
+
+describe('DynamoDB Data Transfer Tests', () => {
+    const users = new DynamoDBService('users', 'pk');
+    const copies = new DynamoDBService('copies', 'pk');
+    let local: DynamoLocal;
+
+    const exportAll = async (service: DynamoDBService, format: DynamoTransferFormat, options = {}) => {
+        const chunks: string[] = [];
+        const result = await new DynamoDataTransfer(service).export(chunk => {
+            chunks.push(chunk);
+        }, local.client, {format, ...options});
+        return {result, text: chunks.join('')};
+    };
+
+    beforeEach(async () => {
+        local = new DynamoLocal({pageSizeBytes: 1});
+        local.createTable({name: 'users', pkName: 'pk'});
+        local.createTable({name: 'copies', pkName: 'pk'});
+        await users.batchWrite<User>([
+            {pk: 'USER#1', name: 'Ada, "the first"', age: 36, active: true, address: {city: 'London'}, tags: ['math', 'code']},
+            {pk: 'USER#2', name: 'Grace\nHopper', age: 85},
+            {pk: 'USER#3', name: 'Alan', active: false}
+        ], [], local.client);
+    });
+
+    it.each(['dynamodb-json', 'jsonl', 'csv'] as DynamoTransferFormat[])('should round-trip a table as %s', async format => {
+        const {result, text} = await exportAll(users, format);
+        expect(result).toEqual({itemsExported: 3});
+
+        const imported = await new DynamoDataTransfer(copies).import(text.split('\n'), local.client, {
+            format,
+            columnTypes: {age: 'number', active: 'boolean'}
+        });
+        expect(imported).toEqual({rowsRead: 3, itemsImported: 3, itemsRejected: 0});
+        expect(local.items('copies')).toEqual(local.items('users'));
+    });
+
+    it('should write typed, plain and flattened rows', async () => {
+        const query = {filters: [{field: 'pk', operator: '=' as const, value: 'USER#1'}]};
+
+        expect((await exportAll(users, 'dynamodb-json', {query})).text).toBe(JSON.stringify({Item: local.items('users')[0]}) + '\n');
+        expect(JSON.parse((await exportAll(users, 'jsonl', {query})).text)).toEqual({
+            pk: 'USER#1', name: 'Ada, "the first"', age: 36, active: true, address: {city: 'London'}, tags: ['math', 'code']
+        });
+        expect((await exportAll(users, 'csv')).text).toBe([
+            'pk,name,age,active,address.city,tags[0],tags[1]',
+            'USER#1,"Ada, ""the first""",36,true,London,math,code',
+            'USER#2,"Grace\nHopper",85,,,,',
+            'USER#3,Alan,,false,,,',
+            ''
+        ].join('\n'));
+        expect((await exportAll(users, 'csv', {query, columns: ['pk', 'address.city']})).text).toBe('pk,address.city\nUSER#1,London\n');
+    });
+
+    it('should stream CSV with the header of the first page and report dropped columns', async () => {
+        const logger = {debug: jest.fn(), warn: jest.fn(), error: jest.fn()};
+        const loose = new DynamoDBService('users', 'pk', {logger});
+        await users.delete('USER#1', local.client);
+        const chunks: string[] = [];
+
+        const result = await new DynamoDataTransfer(loose).export(chunk => {
+            chunks.push(chunk);
+        }, local.client, {format: 'csv'});
+
+        expect(chunks).toEqual(['pk,name,age\nUSER#2,"Grace\nHopper",85\n', 'USER#3,Alan,\n']);
+        expect(result).toEqual({itemsExported: 2, droppedColumns: ['active']});
+        expect(logger.warn).toHaveBeenCalledWith('CSV export dropped attributes missing from the header', {columns: ['active']});
+    });
+
+    it('should read streams and report rejected rows', async () => {
+        const input = new PassThrough();
+        input.end([
+            'pk,name,age,address.zip',
+            'USER#4,Edsger,72,"1234',
+            '5"',
+            'USER#5,Barbara,old,',
+            'USER#6,Niklaus',
+            ',Nameless,1,',
+            ''
+        ].join('\n'));
+        const rejected: string[] = [];
+
+        const result = await new DynamoDataTransfer(copies).import(input, local.client, {
+            format: 'csv',
+            columnTypes: {age: 'number'},
+            rejected: chunk => {
+                rejected.push(chunk);
+            }
+        });
+
+        expect(result).toEqual({rowsRead: 4, itemsImported: 1, itemsRejected: 3});
+        expect(await copies.getById('USER#4', local.client)).toEqual({pk: 'USER#4', name: 'Edsger', age: 72, address: {zip: '1234\n5'}});
+        expect(rejected.map(line => JSON.parse(line))).toEqual([
+            {line: 4, reason: 'Column age is not a number: old', row: 'USER#5,Barbara,old,'},
+            {line: 5, reason: 'Expected 4 cells, got 2', row: 'USER#6,Niklaus'},
+            {line: 6, reason: expect.any(String), row: ',Nameless,1,'}
+        ]);
+        await expect(new DynamoDataTransfer(copies).import(['pk,__proto__.polluted'], local.client, {format: 'csv'}))
+            .rejects.toThrow('Invalid CSV column: __proto__.polluted');
+    });
+
+    it('should throttle imports and split batches on repeated keys', async () => {
+        const batchWrite = jest.spyOn(copies, 'batchWrite');
+        const rows = ['{"pk":"A","n":1}', '{"pk":"B","n":2}', '{"pk":"A","n":3}', 'not json'];
+        const started = Date.now();
+
+        const result = await new DynamoDataTransfer(copies).import(rows, local.client, {format: 'jsonl', maxItemsPerSecond: 40});
+
+        expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+        expect(result).toEqual({rowsRead: 4, itemsImported: 3, itemsRejected: 1});
+        expect(batchWrite.mock.calls.map(([puts]) => puts.length)).toEqual([2, 1]);
+        expect(await copies.getById('A', local.client)).toEqual({pk: 'A', n: 3});
+        batchWrite.mockRestore();
+    });
+
+    it('should flatten and unflatten nested paths', () => {
+        const item = {pk: 'X', a: {b: [1, {c: 'd'}], empty: {}}, list: []};
+        expect(flattenItem(item)).toEqual({'pk': 'X', 'a.b[0]': 1, 'a.b[1].c': 'd', 'a.empty': {}, 'list': []});
+        expect(unflattenItem(flattenItem(item))).toEqual(item);
+        expect(parseCsvRow('a,"b,""c""",,d')).toEqual(['a', 'b,"c"', '', 'd']);
+    });
+});
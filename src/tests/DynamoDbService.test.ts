@@ -218,6 +218,69 @@ describe('DynamoDB Service Tests', () => {
         });
     });
 
+    describe('Sort Key Conditions', () => {
+        const keyedBuilder = new DynamoDBExpressionBuilder("pk", "sk");
+        const pkFilter: IFilterQuery = {field: 'pk', operator: '=', value: 'USER#1'};
+
+        it('should put comparisons on the sort key into the key condition', () => {
+            const result = keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: '>', value: '2024-01-01'},
+                {field: 'status', operator: '=', value: 'open'}
+            ]);
+
+            expect(result.KeyConditionExpression).toBe('#pk = :pkVal AND #sk > :skVal');
+            expect(result.ExpressionAttributeValues?.[':skVal']).toEqual({S: '2024-01-01'});
+            expect(result.FilterExpression).toBe('#key0_0 = :val0');
+        });
+
+        it('should support between and begins_with', () => {
+            const between = keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: 'between', value: ['2024-01-01', '2024-12-31']}
+            ]);
+            expect(between.KeyConditionExpression).toBe('#pk = :pkVal AND #sk BETWEEN :skVal0 AND :skVal1');
+            expect(between.FilterExpression).toBeUndefined();
+
+            const prefix = keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: 'begins_with', value: 'ORDER#'}
+            ]);
+            expect(prefix.KeyConditionExpression).toBe('#pk = :pkVal AND begins_with(#sk, :skVal)');
+        });
+
+        it('should merge a >= and <= pair into between', () => {
+            const result = keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: '>=', value: 1},
+                {field: 'sk', operator: '<=', value: 5}
+            ]);
+
+            expect(result.KeyConditionExpression).toBe('#pk = :pkVal AND #sk BETWEEN :skVal0 AND :skVal1');
+            expect(result.ExpressionAttributeValues?.[':skVal1']).toEqual({N: '5'});
+        });
+
+        it('should reject sort key filters that cannot be key conditions', () => {
+            expect(() => keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: '!=', value: 'x'}
+            ])).toThrow(DynamoValidationError);
+
+            expect(() => keyedBuilder.buildFilterExpression([
+                pkFilter,
+                {field: 'sk', operator: '>', value: 'a'},
+                {field: 'sk', operator: '<', value: 'b'}
+            ])).toThrow(DynamoValidationError);
+        });
+
+        it('should leave sort key filters in the filter expression of scans', () => {
+            const result = keyedBuilder.buildFilterExpression([{field: 'sk', operator: '>', value: 'a'}]);
+
+            expect(result.KeyConditionExpression).toBeUndefined();
+            expect(result.FilterExpression).toBe('#key0_0 > :val0');
+        });
+    });
+
     describe('Query vs Scan Operations', () => {
         it('should use Query when filtering on partition key', async () => {
             const query: IGenericFilterQuery = {
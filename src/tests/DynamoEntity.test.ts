@@ -0,0 +1,132 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoEntity, queryEntities} from "../dynamodb/DynamoEntity";
+import {toDynamoDBValue} from "../dynamodb/DynamoUtils";
+
+interface Tenant {
+    tenantId: string;
+    name: string;
+}
+
+interface Order {
+    tenantId: string;
+    orderId: string;
+    createdAt: string;
+    status?: string;
+    total?: number;
+}
+
+describe('DynamoDB Entity Tests', () => {
+    const service = new DynamoDBService('app', 'pk', {
+        skName: 'sk',
+        indexes: [{name: 'byStatus', pkName: 'gsi1pk', skName: 'gsi1sk'}]
+    });
+    const tenants = new DynamoEntity<Tenant>(service, {
+        name: 'Tenant',
+        attributes: ['tenantId', 'name'],
+        keys: {pk: 'TENANT#{tenantId}', sk: 'PROFILE'}
+    });
+    const orders = new DynamoEntity<Order>(service, {
+        name: 'Order',
+        attributes: ['tenantId', 'orderId', 'createdAt', 'status', 'total'],
+        keys: {pk: 'TENANT#{tenantId}', sk: 'ORDER#{createdAt}#{orderId}'},
+        indexes: {byStatus: {pk: 'STATUS#{status}', sk: '{createdAt}'}}
+    });
+    const order: Order = {tenantId: 't1', orderId: 'o1', createdAt: '2024-01-01', status: 'open', total: 5};
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should render keys, index keys and the type attribute from key templates', () => {
+        expect(orders.toItem(order)).toEqual({
+            ...order,
+            pk: 'TENANT#t1',
+            sk: 'ORDER#2024-01-01#o1',
+            gsi1pk: 'STATUS#open',
+            gsi1sk: '2024-01-01',
+            entityType: 'Order'
+        });
+        expect(orders.toItem({tenantId: 't1', orderId: 'o1', createdAt: '2024-01-01'})).not.toHaveProperty('gsi1pk');
+        expect(() => orders.key({tenantId: 't1'})).toThrow('is missing createdAt, orderId');
+        expect(() => orders.toItem({...order, secret: 'x'} as Order)).toThrow(DynamoValidationError);
+    });
+
+    it('should reject invalid definitions', () => {
+        expect(() => new DynamoEntity<Order>(service, {
+            name: 'Order',
+            attributes: ['tenantId'],
+            keys: {pk: 'TENANT#{tenantId}'}
+        })).toThrow(/key schema/);
+        expect(() => new DynamoEntity<Order>(service, {
+            name: 'Order',
+            attributes: ['tenantId'],
+            keys: {pk: 'TENANT#{tenantId}', sk: '{orderId}'}
+        })).toThrow('Attribute orderId is not declared for entity Order');
+    });
+
+    it('should translate entity queries into key conditions', async () => {
+        const send = jest.fn().mockResolvedValue({Items: [toDynamoDBValue(orders.toItem(order)).M]});
+        const client = {send} as unknown as DynamoDBClient;
+
+        const result = await orders.query({key: {tenantId: 't1', createdAt: '2024-01-01'}}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.KeyConditionExpression).toBe('#pk = :pkVal AND begins_with(#sk, :skVal)');
+        expect(input.ExpressionAttributeValues[':pkVal']).toEqual({S: 'TENANT#t1'});
+        expect(input.ExpressionAttributeValues[':skVal']).toEqual({S: 'ORDER#2024-01-01#'});
+        expect(input.FilterExpression).toBe('#key0_0 = :val0');
+        expect(input.ExpressionAttributeValues[':val0']).toEqual({S: 'Order'});
+        expect(result.data).toEqual([order]);
+    });
+
+    it('should query through index key templates', async () => {
+        const send = jest.fn().mockResolvedValue({Items: []});
+        const client = {send} as unknown as DynamoDBClient;
+
+        await orders.query({key: {status: 'open'}, index: 'byStatus'}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.IndexName).toBe('byStatus');
+        expect(input.ExpressionAttributeNames['#pk']).toBe('gsi1pk');
+        expect(input.ExpressionAttributeValues[':pkVal']).toEqual({S: 'STATUS#open'});
+    });
+
+    it('should update existing entities and keep index keys in sync', async () => {
+        const send = jest.fn().mockResolvedValue({Attributes: toDynamoDBValue(orders.toItem(order)).M});
+        const client = {send} as unknown as DynamoDBClient;
+        const key = {tenantId: 't1', orderId: 'o1', createdAt: '2024-01-01'};
+
+        await orders.update(key, {status: 'open'}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.Key).toEqual({pk: {S: 'TENANT#t1'}, sk: {S: 'ORDER#2024-01-01#o1'}});
+        expect(Object.values(input.ExpressionAttributeNames)).toEqual(
+            expect.arrayContaining(['status', 'gsi1pk', 'gsi1sk', 'entityType'])
+        );
+        expect(input.ConditionExpression).toBe('#key0_0 = :val0');
+        await expect(orders.update(key, {orderId: 'o2'}, client)).rejects.toThrow('cannot be updated');
+    });
+
+    it('should group mixed query results by entity', async () => {
+        const send = jest.fn().mockResolvedValue({
+            Items: [
+                toDynamoDBValue(tenants.toItem({tenantId: 't1', name: 'Acme'})).M,
+                toDynamoDBValue(orders.toItem(order)).M,
+                {pk: {S: 'TENANT#t1'}, sk: {S: 'AUDIT#1'}, entityType: {S: 'Audit'}}
+            ]
+        });
+        const client = {send} as unknown as DynamoDBClient;
+
+        const result = await queryEntities({tenant: tenants, order: orders}, {tenantId: 't1'}, client);
+
+        expect(send.mock.calls[0][0].input.KeyConditionExpression).toBe('#pk = :pkVal');
+        expect(result.data.tenant).toEqual([{tenantId: 't1', name: 'Acme'}]);
+        expect(result.data.order).toEqual([order]);
+    });
+});
@@ -0,0 +1,124 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {
+    DynamoConditionalCheckFailedError,
+    DynamoError,
+    DynamoItemTooLargeError,
+    DynamoRequestValidationError,
+    DynamoResourceNotFoundError,
+    DynamoThrottlingError,
+    DynamoTransactionCanceledError,
+    DynamoTransactionConflictError,
+    toDynamoError
+} from "../dynamodb/DynamoErrors";
+import {DynamoRetryPolicy, isRetryableDynamoError} from "../dynamodb/DynamoRetryPolicy";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+
+function sdkError(name: string, message = name, fields: object = {}) {
+    return Object.assign(new Error(message), {name}, fields);
+}
+
+describe('DynamoDB Error Tests', () => {
+    const service = new DynamoDBService('tasks', 'pk', {skName: 'sk'});
+    let local: DynamoLocal;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        local = new DynamoLocal();
+        local.createTable({name: 'tasks', pkName: 'pk', skName: 'sk'});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should map SDK errors to typed errors', () => {
+        const cases: [Error, new (...args: any[]) => DynamoError, boolean][] = [
+            [sdkError('ProvisionedThroughputExceededException'), DynamoThrottlingError, true],
+            [sdkError('ThrottlingException'), DynamoThrottlingError, true],
+            [sdkError('TransactionConflictException'), DynamoTransactionConflictError, true],
+            [sdkError('ConditionalCheckFailedException'), DynamoConditionalCheckFailedError, false],
+            [sdkError('ResourceNotFoundException'), DynamoResourceNotFoundError, false],
+            [sdkError('ValidationException', 'Item size has exceeded the maximum allowed size'), DynamoItemTooLargeError, false],
+            [sdkError('ValidationException', 'Invalid UpdateExpression'), DynamoRequestValidationError, false]
+        ];
+
+        cases.forEach(([error, type, retryable]) => {
+            const mapped = toDynamoError(error, {tableName: 'tasks'}) as DynamoError;
+            expect(mapped).toBeInstanceOf(type);
+            expect(mapped).toMatchObject({message: error.message, tableName: 'tasks', cause: error, retryable});
+        });
+
+        const network = sdkError('TimeoutError');
+        expect(toDynamoError(network)).toBe(network);
+    });
+
+    it('should raise typed errors from service calls', async () => {
+        await service.create({pk: 'USER#1', sk: 'TASK#1', title: 'a'}, local.client);
+
+        const conflict = await service.create({pk: 'USER#1', sk: 'TASK#1'}, local.client, {
+            returnItemOnConditionFailure: true
+        }).catch(e => e);
+        expect(conflict).toBeInstanceOf(DynamoConditionalCheckFailedError);
+        expect(conflict.item).toEqual({pk: 'USER#1', sk: 'TASK#1', title: 'a'});
+
+        await expect(service.put({pk: 'USER#1', sk: 'TASK#2', body: 'x'.repeat(300000), notes: 'x'.repeat(300000)}, local.client))
+            .rejects.toThrow(DynamoItemTooLargeError);
+        await expect(new DynamoDBService('missing', 'pk').getById('USER#1', local.client))
+            .rejects.toThrow(DynamoResourceNotFoundError);
+        await expect(new DynamoDBService('tasks', 'id').getById('USER#1', local.client))
+            .rejects.toThrow(DynamoRequestValidationError);
+    });
+
+    it('should keep transaction cancellations typed and retryable only for conflicts', async () => {
+        await service.create({pk: 'USER#1', sk: 'TASK#1'}, local.client);
+
+        const error = await new DynamoTransaction()
+            .create(service, {pk: 'USER#1', sk: 'TASK#1'})
+            .execute(local.client)
+            .catch(e => e);
+
+        expect(error).toBeInstanceOf(DynamoError);
+        expect(error).toBeInstanceOf(DynamoTransactionCanceledError);
+        expect(error.retryable).toBe(false);
+        expect(isRetryableDynamoError(sdkError('TransactionCanceledException', 'canceled', {
+            CancellationReasons: [{Code: 'None'}, {Code: 'TransactionConflict'}]
+        }))).toBe(true);
+        expect(isRetryableDynamoError(sdkError('InternalServerError'))).toBe(true);
+    });
+
+    it('should retry retryable errors up to the configured attempts', async () => {
+        const send = jest.fn()
+            .mockRejectedValueOnce(sdkError('ProvisionedThroughputExceededException'))
+            .mockRejectedValueOnce(sdkError('ThrottlingException'))
+            .mockResolvedValueOnce({Item: {pk: {S: 'USER#1'}}})
+            .mockRejectedValueOnce(sdkError('ResourceNotFoundException'));
+        const client = {send} as unknown as DynamoDBClient;
+        const afterCommand = jest.fn();
+        const retrying = new DynamoDBService('tasks', 'pk', {
+            retry: {maxAttempts: 3, baseDelayMs: 0},
+            hooks: {afterCommand}
+        });
+
+        expect(await retrying.getById('USER#1', client)).toEqual({pk: 'USER#1'});
+        expect(afterCommand.mock.calls.map(([result]) => result.attempt)).toEqual([1, 2, 3]);
+
+        await expect(retrying.getById('USER#1', client)).rejects.toThrow(DynamoResourceNotFoundError);
+        expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('should share the retry budget between services', async () => {
+        const send = jest.fn().mockRejectedValue(sdkError('ThrottlingException'));
+        const client = {send} as unknown as DynamoDBClient;
+        const retry = new DynamoRetryPolicy({maxAttempts: 5, retryBudget: 3, baseDelayMs: 0});
+        const first = new DynamoDBService('tasks', 'pk', {retry});
+        const second = new DynamoDBService('notes', 'pk', {retry});
+
+        await expect(first.getById('USER#1', client)).rejects.toThrow(DynamoThrottlingError);
+        await expect(second.getById('USER#1', client)).rejects.toThrow(DynamoThrottlingError);
+
+        expect(send).toHaveBeenCalledTimes(5);
+        expect(retry.remainingBudget).toBe(0);
+    });
+});
@@ -0,0 +1,97 @@
+import {DynamoDBClient, QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {encodeCursor} from "../dynamodb/DynamoCursor";
+
+describe('DynamoDB Explain Tests', () => {
+    const options = {
+        skName: 'sk',
+        indexes: [{name: 'byStatus', pkName: 'status', skName: 'createdAt'}]
+    };
+    const service = new DynamoDBService('tasks', 'pk', options);
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should separate key conditions from post-filters of a query', async () => {
+        const plan = await service.explain({
+            filters: [
+                {field: 'pk', operator: '=', value: 'USER#1'},
+                {field: 'sk', operator: 'begins_with', value: 'TASK#'},
+                {field: 'points', operator: '>', value: 3}
+            ],
+            pagination: {limit: 5}
+        });
+
+        expect(plan.operation).toBe('Query');
+        expect(plan.command).toBeInstanceOf(QueryCommand);
+        expect(plan.command!.input).toMatchObject({
+            TableName: 'tasks',
+            KeyConditionExpression: '#pk = :pkVal AND begins_with(#sk, :skVal)',
+            FilterExpression: '#key0_0 > :val0'
+        });
+        expect(plan.keyConditions.map(filter => filter.field)).toEqual(['pk', 'sk']);
+        expect(plan.postFilters).toEqual([{field: 'points', operator: '>', value: 3}]);
+        expect(plan.warnings.map(warning => warning.code)).toEqual(['POST_FILTER']);
+    });
+
+    it('should report index selection and cursor limits', async () => {
+        const cursor = encodeCursor({pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}, status: {S: 'open'}, createdAt: {S: '1'}});
+        const plan = await service.explain({
+            filters: [{field: 'status', operator: '=', value: 'open'}],
+            pagination: {limit: 20, sortBy: 'createdAt', sortDirection: 'desc'},
+            cursor
+        });
+
+        expect(plan).toMatchObject({
+            operation: 'Query',
+            indexName: 'byStatus',
+            paginationMode: 'cursor',
+            sortsInMemory: false,
+            warnings: []
+        });
+        expect(plan.command!.input).toMatchObject({
+            IndexName: 'byStatus',
+            Limit: 20,
+            ScanIndexForward: false,
+            ExclusiveStartKey: {pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}, status: {S: 'open'}, createdAt: {S: '1'}}
+        });
+    });
+
+    it('should warn about scans, in-memory sorting and offset slicing', async () => {
+        const plan = await service.explain({
+            filters: [{field: 'title', operator: 'like', value: 'report'}],
+            pagination: {limit: 10, page: 3, sortBy: 'title'}
+        });
+
+        expect(plan.operation).toBe('Scan');
+        expect(plan.command).toBeInstanceOf(ScanCommand);
+        expect(plan.command!.input.Limit).toBeUndefined();
+        expect(plan).toMatchObject({sortsInMemory: true, slicesInMemory: true, allowed: true});
+        expect(plan.warnings.map(warning => warning.code)).toEqual(['FULL_SCAN', 'IN_MEMORY_SORT', 'OFFSET_SLICING']);
+        expect((await service.explain({filters: [], pagination: {limit: 0}})).operation).toBe('None');
+    });
+
+    it('should refuse unindexed scans in strict mode', async () => {
+        const send = jest.fn().mockResolvedValue({Items: []});
+        const client = {send} as unknown as DynamoDBClient;
+        const strict = new DynamoDBService('tasks', 'pk', {...options, strict: true});
+        const scan = {filters: [{field: 'title', operator: '=' as const, value: 'x'}], pagination: {}};
+
+        await expect(strict.fetchWithFiltersAndPagination(scan, client)).rejects.toThrow(DynamoValidationError);
+        expect(send).not.toHaveBeenCalled();
+        expect((await strict.explain(scan)).allowed).toBe(false);
+
+        await strict.fetchWithFiltersAndPagination({...scan, allowScan: true}, client);
+        await strict.fetchWithFiltersAndPagination({
+            filters: [{field: 'status', operator: '=', value: 'open'}],
+            pagination: {}
+        }, client);
+        expect(send.mock.calls.map(([command]) => command.constructor)).toEqual([ScanCommand, QueryCommand]);
+    });
+});
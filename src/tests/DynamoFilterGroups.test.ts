@@ -0,0 +1,85 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBExpressionBuilder} from "../dynamodb/DynamoDBExpressionBuilder";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+
+describe('DynamoDB Filter Group Tests', () => {
+    const builder = new DynamoDBExpressionBuilder('pk', 'sk');
+
+    it('should compile nested groups with unique placeholders', () => {
+        const result = builder.buildFilterExpression([
+            {field: 'type', operator: '=', value: 'task'},
+            {
+                or: [
+                    {field: 'status', operator: '=', value: 'open'},
+                    {
+                        and: [
+                            {field: 'assignee', operator: '=', value: 'me'},
+                            {not: {field: 'priority', operator: 'in', value: ['low', 'none']}}
+                        ]
+                    }
+                ]
+            }
+        ]);
+
+        expect(result.KeyConditionExpression).toBeUndefined();
+        expect(result.FilterExpression).toBe(
+            '#key0_0 = :val0 AND (#key1_0 = :val1 OR (#key2_0 = :val2 AND NOT (#key3_0 IN (:val3_0, :val3_1))))'
+        );
+        expect(result.ExpressionAttributeNames).toEqual({
+            '#key0_0': 'type',
+            '#key1_0': 'status',
+            '#key2_0': 'assignee',
+            '#key3_0': 'priority'
+        });
+        expect(Object.keys(result.ExpressionAttributeValues!)).toEqual([':val0', ':val1', ':val2', ':val3_0', ':val3_1']);
+    });
+
+    it('should pull top-level key conditions out of AND groups only', () => {
+        const anded = builder.buildFilterExpression([{
+            and: [
+                {field: 'pk', operator: '=', value: 'USER#1'},
+                {field: 'sk', operator: 'begins_with', value: 'TASK#'},
+                {or: [{field: 'status', operator: '=', value: 'open'}, {field: 'status', operator: '=', value: 'new'}]}
+            ]
+        }]);
+        const ored = builder.buildFilterExpression([{
+            or: [{field: 'pk', operator: '=', value: 'USER#1'}, {field: 'pk', operator: '=', value: 'USER#2'}]
+        }]);
+
+        expect(anded.KeyConditionExpression).toBe('#pk = :pkVal AND begins_with(#sk, :skVal)');
+        expect(anded.FilterExpression).toBe('(#key0_0 = :val0 OR #key1_0 = :val1)');
+        expect(ored.KeyConditionExpression).toBeUndefined();
+        expect(ored.FilterExpression).toBe('(#key0_0 = :val0 OR #key1_0 = :val1)');
+    });
+
+    it('should reject key attributes in groups of a query and invalid groups', () => {
+        expect(() => builder.buildFilterExpression([
+            {field: 'pk', operator: '=', value: 'USER#1'},
+            {or: [{field: 'sk', operator: '=', value: 'a'}, {field: 'status', operator: '=', value: 'open'}]}
+        ])).toThrow('Key attribute sk cannot be used in a filter group of a query');
+        expect(() => builder.buildFilterExpression([{or: []}])).toThrow(DynamoValidationError);
+        expect(() => builder.buildFilterExpression([
+            {not: {field: '__proto__', operator: '=', value: 'x'}}
+        ])).toThrow(DynamoValidationError);
+    });
+
+    it('should combine filters and where in service queries and conditions', async () => {
+        const send = jest.fn().mockResolvedValue({Items: []});
+        const client = {send} as unknown as DynamoDBClient;
+        const service = new DynamoDBService('tasks', 'pk');
+
+        await service.fetchWithFiltersAndPagination({
+            filters: [{field: 'pk', operator: '=', value: 'USER#1'}],
+            where: {or: [{field: 'status', operator: '=', value: 'open'}, {field: 'assignee', operator: '=', value: 'me'}]},
+            pagination: {}
+        }, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.KeyConditionExpression).toBe('#pk = :pkVal');
+        expect(input.FilterExpression).toBe('(#key0_0 = :val0 OR #key1_0 = :val1)');
+        expect(builder.buildConditionExpression([
+            {or: [{field: 'version', operator: 'not exists'}, {field: 'version', operator: '<', value: 3}]}
+        ]).ConditionExpression).toBe('(attribute_not_exists(#key0_0) OR #key1_0 < :val1)');
+    });
+});
@@ -0,0 +1,69 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBExpressionBuilder} from "../dynamodb/DynamoDBExpressionBuilder";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {IDynamoFilter} from "../dynamodb/types/DynamoFilter";
+
+describe('DynamoDB Filter Operator Tests', () => {
+    const builder = new DynamoDBExpressionBuilder('id');
+    const filterOf = (filter: IDynamoFilter) => builder.buildScanFilterExpression([filter]);
+
+    it('should build between and begins_with filters', () => {
+        const between = filterOf({field: 'price', operator: 'between', value: [10, 20]});
+        const prefix = filterOf({field: 'name', operator: 'begins_with', value: 'Ab'});
+
+        expect(between.FilterExpression).toBe('#key0_0 BETWEEN :val0_0 AND :val0_1');
+        expect(between.ExpressionAttributeValues).toEqual({':val0_0': {N: '10'}, ':val0_1': {N: '20'}});
+        expect(prefix.FilterExpression).toBe('begins_with(#key0_0, :val0)');
+        expect(() => filterOf({field: 'price', operator: 'between', value: [10]})).toThrow(DynamoValidationError);
+        expect(() => filterOf({field: 'name', operator: 'begins_with', value: 5})).toThrow(DynamoValidationError);
+    });
+
+    it('should build attribute_exists and attribute_not_exists without values', () => {
+        expect(filterOf({field: 'address.city', operator: 'exists'}).FilterExpression)
+            .toBe('attribute_exists(#key0_0.#key0_1)');
+        expect(filterOf({field: 'archivedAt', operator: 'not exists'}).FilterExpression)
+            .toBe('attribute_not_exists(#key0_0)');
+        expect(() => filterOf({field: 'archivedAt', operator: 'exists', value: true})).toThrow('exists takes no value');
+    });
+
+    it('should build attribute_type and size comparisons', () => {
+        const type = filterOf({field: 'tags', operator: 'type', value: 'SS'});
+        const size = filterOf({field: 'tags', operator: 'size >=', value: 2});
+
+        expect(type.FilterExpression).toBe('attribute_type(#key0_0, :val0)');
+        expect(type.ExpressionAttributeValues).toEqual({':val0': {S: 'SS'}});
+        expect(size.FilterExpression).toBe('size(#key0_0) >= :val0');
+        expect(filterOf({field: 'tags', operator: 'size !=', value: 0}).FilterExpression).toBe('size(#key0_0) <> :val0');
+        expect(() => filterOf({field: 'tags', operator: 'type', value: 'STRING'})).toThrow(DynamoValidationError);
+        expect(() => filterOf({field: 'tags', operator: 'size >', value: -1})).toThrow(DynamoValidationError);
+        expect(() => filterOf({field: 'tags', operator: 'size like' as any, value: 1})).toThrow('Unsupported operator');
+    });
+
+    it('should use the native IN form with at most 100 operands', () => {
+        const inFilter = filterOf({field: 'status', operator: 'in', value: ['a', 'b']});
+        const notIn = filterOf({field: 'status', operator: 'not in', value: ['a']});
+
+        expect(inFilter.FilterExpression).toBe('#key0_0 IN (:val0_0, :val0_1)');
+        expect(notIn.FilterExpression).toBe('NOT (#key0_0 IN (:val0_0))');
+        expect(() => filterOf({
+            field: 'status',
+            operator: 'in',
+            value: Array.from({length: 101}, (_, i) => `s${i}`)
+        })).toThrow('in expects between 1 and 100 values');
+    });
+
+    it('should not send empty expression values', async () => {
+        const send = jest.fn().mockResolvedValue({Items: []});
+        const client = {send} as unknown as DynamoDBClient;
+
+        await new DynamoDBService('items').fetchWithFiltersAndPagination({
+            filters: [{field: 'archivedAt', operator: 'not exists'}],
+            pagination: {}
+        }, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.FilterExpression).toBe('attribute_not_exists(#key0_0)');
+        expect(input.ExpressionAttributeValues).toBeUndefined();
+    });
+});
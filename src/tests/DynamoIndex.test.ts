@@ -0,0 +1,124 @@
+import {DynamoDBClient, QueryCommand, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+
+describe('DynamoDB Secondary Index Tests', () => {
+    const service = new DynamoDBService('orders', 'id', {
+        indexes: [
+            {name: 'byStatus', type: 'GSI', pkName: 'status'},
+            {name: 'byCustomer', type: 'GSI', pkName: 'customerId', skName: 'createdAt'},
+            {name: 'byCustomerTotal', type: 'GSI', pkName: 'customerId', skName: 'total'}
+        ]
+    });
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+        send = jest.fn().mockResolvedValue({Items: []});
+        client = {send} as unknown as DynamoDBClient;
+    });
+
+    it('should prefer the table when its partition key is filtered', async () => {
+        await service.fetchWithFiltersAndPagination({
+            filters: [{field: 'id', operator: '=', value: 'o-1'}, {field: 'status', operator: '=', value: 'open'}],
+            pagination: {}
+        }, client);
+
+        expect(send.mock.calls[0][0]).toBeInstanceOf(QueryCommand);
+        expect(send.mock.calls[0][0].input.IndexName).toBeUndefined();
+    });
+
+    it('should query the index whose partition key is filtered', async () => {
+        await service.fetchWithFiltersAndPagination({
+            filters: [{field: 'status', operator: '=', value: 'open'}],
+            pagination: {}
+        }, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(send.mock.calls[0][0]).toBeInstanceOf(QueryCommand);
+        expect(input.IndexName).toBe('byStatus');
+        expect(input.KeyConditionExpression).toBe('#pk = :pkVal');
+        expect(input.ExpressionAttributeNames['#pk']).toBe('status');
+    });
+
+    it('should prefer an index whose sort key is filtered too', async () => {
+        await service.fetchWithFiltersAndPagination({
+            filters: [
+                {field: 'customerId', operator: '=', value: 'c-1'},
+                {field: 'total', operator: '>', value: 100}
+            ],
+            pagination: {}
+        }, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.IndexName).toBe('byCustomerTotal');
+        expect(input.KeyConditionExpression).toBe('#pk = :pkVal AND #sk > :skVal');
+        expect(input.FilterExpression).toBeUndefined();
+    });
+
+    it('should only prefer an index whose sort key filters fit a key condition', async () => {
+        await service.fetchWithFiltersAndPagination({
+            filters: [
+                {field: 'customerId', operator: '=', value: 'c-1'},
+                {field: 'total', operator: '!=', value: 5}
+            ],
+            pagination: {}
+        }, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.IndexName).toBe('byCustomer');
+        expect(input.KeyConditionExpression).toBe('#pk = :pkVal');
+        expect(input.FilterExpression).toBe('#key0_0 <> :val0');
+    });
+
+    it('should choose a local index over the table when only its sort key is filtered', async () => {
+        const events = new DynamoDBService('events', 'tenantId', {
+            skName: 'eventId',
+            indexes: [{name: 'byTime', type: 'LSI', pkName: 'tenantId', skName: 'occurredAt'}]
+        });
+
+        await events.fetchWithFiltersAndPagination({
+            filters: [
+                {field: 'tenantId', operator: '=', value: 't-1'},
+                {field: 'occurredAt', operator: '>=', value: 100},
+                {field: 'occurredAt', operator: '<=', value: 200}
+            ],
+            pagination: {}
+        }, client);
+        await events.fetchWithFiltersAndPagination({
+            filters: [
+                {field: 'tenantId', operator: '=', value: 't-1'},
+                {field: 'eventId', operator: 'begins_with', value: 'login#'},
+                {field: 'occurredAt', operator: '>', value: 100}
+            ],
+            pagination: {}
+        }, client);
+
+        expect(send.mock.calls[0][0].input).toMatchObject({
+            IndexName: 'byTime',
+            KeyConditionExpression: '#pk = :pkVal AND #sk BETWEEN :skVal0 AND :skVal1'
+        });
+        expect(send.mock.calls[1][0].input.IndexName).toBeUndefined();
+    });
+
+    it('should use a forced index, falling back to an index scan', async () => {
+        await service.fetchWithFiltersAndPagination({
+            filters: [{field: 'total', operator: '>', value: 100}],
+            pagination: {},
+            indexName: 'byCustomerTotal'
+        }, client);
+
+        expect(send.mock.calls[0][0]).toBeInstanceOf(ScanCommand);
+        expect(send.mock.calls[0][0].input.IndexName).toBe('byCustomerTotal');
+    });
+
+    it('should reject unknown indexes', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await expect(service.fetchWithFiltersAndPagination({
+            filters: [],
+            pagination: {},
+            indexName: 'missing'
+        }, client)).rejects.toThrow(DynamoValidationError);
+    });
+});
@@ -0,0 +1,104 @@
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoConditionalCheckFailedError} from "../dynamodb/DynamoErrors";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+
+interface Ticket {
+    pk: string;
+    sk: string;
+    title: string;
+    deletedAt?: string;
+    expiresAt?: number;
+}
+
+const NOW = Date.UTC(2025, 9, 1);
+const DAY = 24 * 60 * 60;
+
+describe('DynamoDB Lifecycle Tests', () => {
+    const service = new DynamoDBService('tickets', 'pk', {
+        skName: 'sk',
+        lifecycle: {retentionSeconds: 30 * DAY}
+    });
+    let local: DynamoLocal;
+
+    const titles = async (query: { includeDeleted?: boolean } = {}) => (await service.fetchWithFiltersAndPagination<Ticket>({
+        filters: [{field: 'pk', operator: '=', value: 'USER#1'}],
+        pagination: {},
+        ...query
+    }, local.client)).data.map(ticket => ticket.title);
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+        local = new DynamoLocal();
+        local.createTable({name: 'tickets', pkName: 'pk', skName: 'sk'});
+        await service.batchWrite<Ticket>([
+            {pk: 'USER#1', sk: 'T#1', title: 'open'},
+            {pk: 'USER#1', sk: 'T#2', title: 'deleted'},
+            {pk: 'USER#1', sk: 'T#3', title: 'expired', expiresAt: NOW / 1000 - 1},
+            {pk: 'USER#1', sk: 'T#4', title: 'session', expiresAt: NOW / 1000 + DAY}
+        ], [], local.client);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should mark deleted items with a deletion time and expiry', async () => {
+        const old = await service.delete<Ticket>({pk: 'USER#1', sk: 'T#2'}, local.client, {returnValues: 'ALL_OLD'});
+
+        expect(old).toEqual({pk: 'USER#1', sk: 'T#2', title: 'deleted'});
+        expect(local.items('tickets').find(item => item.sk.S === 'T#2')).toEqual({
+            pk: {S: 'USER#1'},
+            sk: {S: 'T#2'},
+            title: {S: 'deleted'},
+            deletedAt: {S: '2025-10-01T00:00:00.000Z'},
+            expiresAt: {N: String(NOW / 1000 + 30 * DAY)}
+        });
+        await expect(service.delete({pk: 'USER#1', sk: 'T#2'}, local.client))
+            .rejects.toThrow(DynamoConditionalCheckFailedError);
+        await expect(service.delete({pk: 'USER#1', sk: 'T#9'}, local.client))
+            .rejects.toThrow(DynamoConditionalCheckFailedError);
+        expect(local.items('tickets')).toHaveLength(4);
+    });
+
+    it('should exclude soft-deleted and expired items from queries unless included', async () => {
+        await service.delete({pk: 'USER#1', sk: 'T#2'}, local.client);
+
+        expect(await titles()).toEqual(['open', 'session']);
+        expect(await titles({includeDeleted: true})).toEqual(['open', 'deleted', 'expired', 'session']);
+    });
+
+    it('should restore soft-deleted items', async () => {
+        await service.delete({pk: 'USER#1', sk: 'T#2'}, local.client);
+
+        expect(await service.restore({pk: 'USER#1', sk: 'T#2'}, local.client))
+            .toEqual({pk: 'USER#1', sk: 'T#2', title: 'deleted'});
+        expect(await titles()).toEqual(['open', 'deleted', 'session']);
+        await expect(service.restore({pk: 'USER#1', sk: 'T#1'}, local.client))
+            .rejects.toThrow(DynamoConditionalCheckFailedError);
+    });
+
+    it('should delete permanently on request and soft-delete in transactions', async () => {
+        await service.delete({pk: 'USER#1', sk: 'T#1'}, local.client, {permanent: true});
+        await new DynamoTransaction().delete(service, {pk: 'USER#1', sk: 'T#4'}).execute(local.client);
+
+        expect(local.items('tickets').map(item => [item.sk.S, item.deletedAt?.S])).toEqual([
+            ['T#2', undefined],
+            ['T#3', undefined],
+            ['T#4', '2025-10-01T00:00:00.000Z']
+        ]);
+        await expect(new DynamoDBService('tickets', 'pk', {skName: 'sk'}).restore({pk: 'USER#1', sk: 'T#4'}, local.client))
+            .rejects.toThrow('Service for tickets has no lifecycle configured');
+    });
+
+    it('should only delete in batches when deletes are marked permanent', async () => {
+        await expect(service.batchWrite([], [{pk: 'USER#1', sk: 'T#1'}], local.client))
+            .rejects.toThrow(DynamoValidationError);
+        expect(local.items('tickets')).toHaveLength(4);
+
+        await service.batchWrite([], [{pk: 'USER#1', sk: 'T#1'}], local.client, {permanent: true});
+        expect(local.items('tickets').map(item => item.sk.S)).toEqual(['T#2', 'T#3', 'T#4']);
+    });
+});
@@ -0,0 +1,207 @@
+import {PutItemCommand, QueryCommand, ScanCommand, UpdateItemCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoEntity} from "../dynamodb/DynamoEntity";
+import {DynamoTransactionCanceledError} from "../dynamodb/DynamoErrors";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+import {DynamoUpdateAction} from "../dynamodb/DynamoUpdateExpressionBuilder";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+
+interface Task {
+    pk: string;
+    sk: string;
+    status: string;
+    points?: number;
+}
+
+describe('DynamoDB Local Client Tests', () => {
+    const service = new DynamoDBService('tasks', 'pk', {
+        skName: 'sk',
+        indexes: [{name: 'byStatus', pkName: 'status', skName: 'sk'}]
+    });
+    let local: DynamoLocal;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        local = new DynamoLocal();
+        local.createTable({name: 'tasks', pkName: 'pk', skName: 'sk', indexes: [{name: 'byStatus', pkName: 'status', skName: 'sk'}]});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const seed = async (count: number) => {
+        for (let i = 0; i < count; i++) {
+            await service.put<Task>({
+                pk: 'USER#1',
+                sk: `TASK#${i}`,
+                status: i % 2 ? 'done' : 'open',
+                points: i
+            }, local.client);
+        }
+    };
+
+    it('should create, read, update and delete items through the service', async () => {
+        const task: Task = {pk: 'USER#1', sk: 'TASK#1', status: 'open', points: 1};
+
+        await service.create(task, local.client);
+        await expect(service.create(task, local.client)).rejects.toThrow('The conditional request failed');
+        expect(await service.getById({pk: 'USER#1', sk: 'TASK#1'}, local.client)).toEqual(task);
+
+        const updated = await service.update<Task>({pk: 'USER#1', sk: 'TASK#1'}, {
+            points: DynamoUpdateAction.increment(2),
+            status: 'done'
+        }, local.client);
+        expect(updated).toEqual({...task, points: 3, status: 'done'});
+
+        const deleted = await service.delete<Task>({pk: 'USER#1', sk: 'TASK#1'}, local.client, {returnValues: 'ALL_OLD'});
+        expect(deleted).toEqual(updated);
+        expect(local.items('tasks')).toEqual([]);
+    });
+
+    it('should query by key conditions and filters across pages', async () => {
+        const paged = new DynamoLocal({pageSizeBytes: 1});
+        paged.createTable({name: 'tasks', pkName: 'pk', skName: 'sk'});
+        local = paged;
+        await seed(6);
+
+        const result = await service.fetchWithFiltersAndPagination<Task>({
+            filters: [
+                {field: 'pk', operator: '=', value: 'USER#1'},
+                {field: 'sk', operator: 'begins_with', value: 'TASK#'},
+                {field: 'points', operator: '>=', value: 2}
+            ],
+            where: {or: [{field: 'status', operator: '=', value: 'open'}, {field: 'points', operator: '=', value: 5}]},
+            pagination: {}
+        }, paged.client);
+
+        expect(result.data.map(task => task.sk)).toEqual(['TASK#2', 'TASK#4', 'TASK#5']);
+    });
+
+    it('should page with Limit, ExclusiveStartKey and ScanIndexForward', async () => {
+        await seed(3);
+        const input = {
+            TableName: 'tasks',
+            KeyConditionExpression: '#pk = :pk',
+            ExpressionAttributeNames: {'#pk': 'pk'},
+            ExpressionAttributeValues: {':pk': {S: 'USER#1'}},
+            ScanIndexForward: false,
+            Limit: 2
+        };
+
+        const first = await local.client.send(new QueryCommand(input));
+        const second = await local.client.send(new QueryCommand({...input, ExclusiveStartKey: first.LastEvaluatedKey}));
+
+        expect(first.Items!.map(item => item.sk.S)).toEqual(['TASK#2', 'TASK#1']);
+        expect(first.LastEvaluatedKey).toEqual({pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}});
+        expect(second.Items!.map(item => item.sk.S)).toEqual(['TASK#0']);
+        expect(second.LastEvaluatedKey).toBeUndefined();
+    });
+
+    it('should read sparse indexes and spread scans over segments', async () => {
+        await seed(4);
+        await local.client.send(new PutItemCommand({TableName: 'tasks', Item: {pk: {S: 'USER#2'}, sk: {S: 'NOTE#1'}}}));
+
+        const index = await local.client.send(new QueryCommand({
+            TableName: 'tasks',
+            IndexName: 'byStatus',
+            KeyConditionExpression: '#status = :status',
+            ExpressionAttributeNames: {'#status': 'status', '#points': 'points'},
+            ExpressionAttributeValues: {':status': {S: 'done'}},
+            ProjectionExpression: '#points'
+        }));
+        const segments = await Promise.all([0, 1, 2].map(Segment =>
+            local.client.send(new ScanCommand({TableName: 'tasks', Segment, TotalSegments: 3}))
+        ));
+
+        expect(index.Items).toEqual([{points: {N: '1'}}, {points: {N: '3'}}]);
+        expect(segments.reduce((sum, segment) => sum + segment.Count!, 0)).toBe(5);
+    });
+
+    it('should evaluate update expressions against the previous item', async () => {
+        await local.client.send(new PutItemCommand({
+            TableName: 'tasks',
+            Item: {
+                pk: {S: 'USER#1'},
+                sk: {S: 'TASK#1'},
+                tags: {SS: ['a', 'b']},
+                steps: {L: [{S: 'one'}, {S: 'two'}]},
+                meta: {M: {views: {N: '1.50'}}}
+            }
+        }));
+        const update = (UpdateExpression: string) => local.client.send(new UpdateItemCommand({
+            TableName: 'tasks',
+            Key: {pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}},
+            UpdateExpression,
+            ConditionExpression: 'size(steps) = :two AND contains(tags, :b)',
+            ExpressionAttributeValues: {':one': {N: '1'}, ':first': {L: [{S: 'zero'}]}, ':b': {S: 'b'}, ':two': {N: '2'}},
+            ReturnValues: 'UPDATED_NEW'
+        }));
+
+        await expect(update('SET steps = list_append(:first, steps), meta.views = :one REMOVE steps[1]'))
+            .rejects.toThrow('Two document paths overlap');
+        const result = await update('SET meta.views = meta.views + :one, steps = list_append(:first, steps) REMOVE tags');
+
+        expect(result.Attributes).toEqual({
+            meta: {M: {views: {N: '2.5'}}},
+            steps: {L: [{S: 'zero'}, {S: 'one'}, {S: 'two'}]}
+        });
+        expect(local.items('tasks')[0].tags).toBeUndefined();
+    });
+
+    it('should reject requests DynamoDB rejects', async () => {
+        const query = (input: object) => local.client.send(new QueryCommand({
+            TableName: 'tasks',
+            KeyConditionExpression: 'pk = :pk',
+            ExpressionAttributeValues: {':pk': {S: 'USER#1'}},
+            ...input
+        }));
+
+        await expect(query({ExpressionAttributeNames: {'#unused': 'x'}})).rejects.toThrow('unused in expressions');
+        await expect(query({FilterExpression: 'sk = :pk'})).rejects.toThrow('non-primary key attributes');
+        await expect(query({KeyConditionExpression: 'title = :pk'})).rejects.toThrow('missed key schema element: pk');
+        await expect(query({TableName: 'missing'})).rejects.toMatchObject({name: 'ResourceNotFoundException'});
+        await expect(local.client.send(new PutItemCommand({
+            TableName: 'tasks',
+            Item: {pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}, tags: {SS: []}}
+        }))).rejects.toMatchObject({name: 'ValidationException'});
+    });
+
+    it('should run batches and cancel transactions atomically', async () => {
+        await service.batchWrite<Task>([
+            {pk: 'USER#1', sk: 'TASK#1', status: 'open', points: 1},
+            {pk: 'USER#1', sk: 'TASK#2', status: 'open', points: 0}
+        ], [], local.client);
+
+        const error = await new DynamoTransaction()
+            .update(service, {pk: 'USER#1', sk: 'TASK#1'}, {points: DynamoUpdateAction.increment(-1)}, {
+                conditions: [{field: 'points', operator: '>', value: 0}]
+            })
+            .update(service, {pk: 'USER#1', sk: 'TASK#2'}, {points: DynamoUpdateAction.increment(-1)}, {
+                conditions: [{field: 'points', operator: '>', value: 0}]
+            })
+            .execute(local.client)
+            .catch(e => e);
+
+        expect(error).toBeInstanceOf(DynamoTransactionCanceledError);
+        const {items} = await service.batchGet<Task>([
+            {pk: 'USER#1', sk: 'TASK#1'},
+            {pk: 'USER#1', sk: 'TASK#2'}
+        ], local.client);
+        expect(items.map(task => task.points).sort()).toEqual([0, 1]);
+    });
+
+    it('should round trip entities', async () => {
+        const orders = new DynamoEntity<{ orderId: string; status: string }>(service, {
+            name: 'Order',
+            attributes: ['orderId', 'status'],
+            keys: {pk: 'ORDER#{orderId}', sk: 'DETAILS'}
+        });
+
+        await orders.create({orderId: 'o1', status: 'open'}, local.client);
+        await orders.update({orderId: 'o1'}, {status: 'paid'}, local.client);
+
+        expect(await orders.get({orderId: 'o1'}, local.client)).toEqual({orderId: 'o1', status: 'paid'});
+        expect((await orders.query({key: {orderId: 'o1'}}, local.client)).data).toEqual([{orderId: 'o1', status: 'paid'}]);
+    });
+});
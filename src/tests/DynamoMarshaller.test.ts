@@ -0,0 +1,103 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoMarshaller, DynamoNumber} from "../dynamodb/DynamoMarshaller";
+import {DynamoDBExpressionBuilder} from "../dynamodb/DynamoDBExpressionBuilder";
+import {DynamoUpdateAction, DynamoUpdateExpressionBuilder} from "../dynamodb/DynamoUpdateExpressionBuilder";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {fromDynamoDBValue, toDynamoDBValue} from "../dynamodb/DynamoUtils";
+
+describe('DynamoDB Marshaller Tests', () => {
+    it('should keep the default behaviour backward compatible', () => {
+        expect(toDynamoDBValue(['a', 'b'])).toEqual({SS: ['a', 'b']});
+        expect(toDynamoDBValue([1, 2])).toEqual({NS: ['1', '2']});
+        expect(() => toDynamoDBValue(null)).toThrow(DynamoValidationError);
+        expect(() => toDynamoDBValue([])).toThrow('Empty arrays not supported');
+        expect(fromDynamoDBValue({N: '12.5'})).toBe(12.5);
+        expect(fromDynamoDBValue({NS: ['1', '2']})).toEqual([1, 2]);
+    });
+
+    it('should read and write binary, NULL, dates and bigints', () => {
+        const marshaller = new DynamoMarshaller({nulls: 'null'});
+        const bytes = new Uint8Array([1, 2, 3]);
+
+        expect(marshaller.marshall(bytes)).toEqual({B: bytes});
+        expect(marshaller.marshall(new Set([bytes]))).toEqual({BS: [bytes]});
+        expect(marshaller.marshall(null)).toEqual({NULL: true});
+        expect(marshaller.marshall(12345678901234567890n)).toEqual({N: '12345678901234567890'});
+        expect(marshaller.marshall(new Date('2024-01-02T03:04:05.000Z'))).toEqual({S: '2024-01-02T03:04:05.000Z'});
+        expect(marshaller.marshall({a: 1, b: undefined})).toEqual({M: {a: {N: '1'}}});
+        expect(() => marshaller.marshall(NaN)).toThrow(DynamoValidationError);
+
+        expect(marshaller.unmarshall({B: bytes})).toBe(bytes);
+        expect(marshaller.unmarshall({NULL: true})).toBeNull();
+    });
+
+    it('should write dates as epoch numbers when configured', () => {
+        const date = new Date('2024-01-02T03:04:05.678Z');
+
+        expect(new DynamoMarshaller({dates: 'epochSeconds'}).marshall(date)).toEqual({N: '1704164645'});
+        expect(new DynamoMarshaller({dates: 'epochMillis'}).marshall(date)).toEqual({N: '1704164645678'});
+    });
+
+    it('should read numbers without losing precision', () => {
+        const big = '12345678901234567890';
+
+        expect(new DynamoMarshaller({numbers: 'string'}).unmarshall({N: big})).toBe(big);
+        expect(new DynamoMarshaller({numbers: 'bigint'}).unmarshall({N: big})).toBe(12345678901234567890n);
+        expect(new DynamoMarshaller({numbers: 'bigint'}).unmarshall({N: '1.5'})).toBe(1.5);
+
+        const decimal = new DynamoMarshaller({numbers: 'decimal'});
+        const amount = decimal.unmarshall({N: '0.10000000000000000001'});
+        expect(amount).toBeInstanceOf(DynamoNumber);
+        expect(amount.toString()).toBe('0.10000000000000000001');
+        expect(decimal.marshall(amount)).toEqual({N: '0.10000000000000000001'});
+    });
+
+    it('should distinguish sets from lists in explicit mode', () => {
+        const marshaller = new DynamoMarshaller({sets: 'explicit'});
+
+        expect(marshaller.marshall(['a', 'b'])).toEqual({L: [{S: 'a'}, {S: 'b'}]});
+        expect(marshaller.marshall([])).toEqual({L: []});
+        expect(marshaller.marshall(new Set(['a', 'b']))).toEqual({SS: ['a', 'b']});
+        expect(marshaller.unmarshall({SS: ['a', 'b']})).toEqual(new Set(['a', 'b']));
+        expect(() => marshaller.marshall(new Set())).toThrow('Empty sets not supported');
+        expect(() => marshaller.marshall(new Set(['a', 1]))).toThrow(DynamoValidationError);
+    });
+
+    it('should be used by the expression builders', () => {
+        const marshaller = new DynamoMarshaller({sets: 'explicit'});
+        const filter = new DynamoDBExpressionBuilder('id', undefined, marshaller)
+            .buildFilterExpression([{field: 'tags', operator: '=', value: ['a']}]);
+        const update = new DynamoUpdateExpressionBuilder(marshaller)
+            .buildUpdateExpression({tags: ['a'], labels: DynamoUpdateAction.addToSet(new Set(['x']))});
+
+        expect(filter.ExpressionAttributeValues![':val0']).toEqual({L: [{S: 'a'}]});
+        expect(update.ExpressionAttributeValues![':upd0']).toEqual({L: [{S: 'a'}]});
+        expect(update.ExpressionAttributeValues![':upd1']).toEqual({SS: ['x']});
+    });
+
+    it('should round-trip items through the service', async () => {
+        const send = jest.fn()
+            .mockResolvedValueOnce({})
+            .mockResolvedValueOnce({
+                Item: {
+                    id: {N: '9007199254740993'},
+                    note: {NULL: true},
+                    avatar: {B: new Uint8Array([7])}
+                }
+            });
+        const client = {send} as unknown as DynamoDBClient;
+        const service = new DynamoDBService('accounts', 'id', {marshaller: {numbers: 'bigint', nulls: 'null'}});
+
+        await service.put({id: 9007199254740993n, note: null, avatar: new Uint8Array([7])}, client);
+        const item = await service.getById<Record<string, any>>(9007199254740993n, client);
+
+        expect(send.mock.calls[0][0].input.Item).toEqual({
+            id: {N: '9007199254740993'},
+            note: {NULL: true},
+            avatar: {B: new Uint8Array([7])}
+        });
+        expect(send.mock.calls[1][0].input.Key).toEqual({id: {N: '9007199254740993'}});
+        expect(item).toEqual({id: 9007199254740993n, note: null, avatar: new Uint8Array([7])});
+    });
+});
@@ -0,0 +1,110 @@
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoMigrationRunner} from "../dynamodb/DynamoMigrations";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+import {DynamoMigration} from "../dynamodb/types/DynamoMigration";
+import {IDynamoLogger} from "../dynamodb/types/DynamoObservability";
+
+interface Order {
+    pk: string;
+    sk: string;
+    total: number;
+    status?: string;
+}
+
+const NOW = Date.UTC(2025, 9, 1);
+
+describe('DynamoDB Migration Tests', () => {
+    const orders = new DynamoDBService('orders', 'pk', {skName: 'sk'});
+    let local: DynamoLocal;
+    let runner: DynamoMigrationRunner;
+
+    const backfill: DynamoMigration<Order> = {
+        version: 1,
+        name: 'backfill-status',
+        service: orders,
+        migrate: order => order.status ? undefined : {...order, status: 'open'}
+    };
+    const reshape: DynamoMigration<Order> = {
+        version: 2,
+        name: 'orders-by-customer',
+        service: orders,
+        migrate: order => order.total === 0 ? null : {...order, pk: order.pk.replace('ORDER#', 'CUSTOMER#')}
+    };
+    const stored = () => local.items('orders').map(item => [item.pk.S, item.sk.S, item.status?.S]);
+
+    beforeEach(async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+        const logger: IDynamoLogger = {debug: jest.fn(), warn: jest.fn(), error: jest.fn()};
+        local = new DynamoLocal({pageSizeBytes: 1});
+        local.createTable({name: 'orders', pkName: 'pk', skName: 'sk'});
+        runner = new DynamoMigrationRunner({logger, ensureTable: {pollIntervalMs: 0}});
+        await orders.batchWrite<Order>([
+            {pk: 'ORDER#1', sk: 'A', total: 10},
+            {pk: 'ORDER#2', sk: 'A', total: 0},
+            {pk: 'ORDER#3', sk: 'A', total: 5, status: 'paid'}
+        ], [], local.client);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should apply migrations in version order and record them', async () => {
+        const reports = await runner.run([reshape, backfill], local.client);
+
+        expect(reports).toEqual([
+            {version: 1, name: 'backfill-status', status: 'applied', itemsRead: 3, itemsWritten: 2, itemsDeleted: 0},
+            {version: 2, name: 'orders-by-customer', status: 'applied', itemsRead: 3, itemsWritten: 2, itemsDeleted: 3}
+        ]);
+        expect(stored()).toEqual([['CUSTOMER#1', 'A', 'open'], ['CUSTOMER#3', 'A', 'paid']]);
+        expect(await runner.status(local.client)).toEqual([
+            expect.objectContaining({version: 1, status: 'completed', completedAt: '2025-10-01T00:00:00.000Z'}),
+            expect.objectContaining({version: 2, status: 'completed', itemsDeleted: 3})
+        ]);
+        expect((await runner.status(local.client))[0].checkpoint).toBeUndefined();
+
+        expect((await runner.run([backfill, reshape], local.client)).map(report => report.status))
+            .toEqual(['skipped', 'skipped']);
+    });
+
+    it('should resume an interrupted migration from its checkpoint', async () => {
+        const seen: string[] = [];
+        const tracked = (failOn?: string): DynamoMigration<Order> => ({
+            ...backfill,
+            migrate: order => {
+                if (order.pk === failOn) throw new Error('interrupted');
+                seen.push(order.pk);
+                return backfill.migrate(order);
+            }
+        });
+
+        await expect(runner.run([tracked('ORDER#2')], local.client)).rejects.toThrow('interrupted');
+        const [record] = await runner.status(local.client);
+        expect(record).toMatchObject({version: 1, status: 'running', itemsRead: 1, itemsWritten: 1});
+        expect(JSON.parse(record.checkpoint!).segments[0].lastEvaluatedKey).toEqual({pk: {S: 'ORDER#1'}, sk: {S: 'A'}});
+
+        const [report] = await runner.run([tracked()], local.client);
+        expect(report).toEqual({
+            version: 1,
+            name: 'backfill-status',
+            status: 'resumed',
+            itemsRead: 3,
+            itemsWritten: 2,
+            itemsDeleted: 0
+        });
+        expect(seen).toEqual(['ORDER#1', 'ORDER#2', 'ORDER#3']);
+        expect(stored().map(([, , status]) => status)).toEqual(['open', 'open', 'paid']);
+    });
+
+    it('should reject invalid, duplicate and renamed migrations', async () => {
+        await expect(runner.run([backfill, {...reshape, version: 1}], local.client))
+            .rejects.toThrow('Duplicate migration version: 1');
+        await expect(runner.run([{...backfill, version: 0}], local.client)).rejects.toThrow(DynamoValidationError);
+
+        await runner.run([backfill], local.client);
+        await expect(runner.run([{...backfill, name: 'renamed'}], local.client))
+            .rejects.toThrow('Migration 1 is recorded as backfill-status, not renamed');
+        expect(local.items('migrations')).toHaveLength(1);
+    });
+});
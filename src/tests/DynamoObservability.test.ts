@@ -0,0 +1,121 @@
+import {DynamoDBClient, GetItemCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+import {DynamoCommandResult, IDynamoLogger} from "../dynamodb/types/DynamoObservability";
+
+interface Task {
+    pk: string;
+    sk: string;
+    points: number;
+}
+
+describe('DynamoDB Observability Tests', () => {
+    let local: DynamoLocal;
+    let logger: jest.Mocked<IDynamoLogger>;
+
+    beforeEach(() => {
+        local = new DynamoLocal({pageSizeBytes: 1});
+        local.createTable({name: 'tasks', pkName: 'pk', skName: 'sk', indexes: [{name: 'byPoints', pkName: 'points'}]});
+        logger = {debug: jest.fn(), warn: jest.fn(), error: jest.fn()};
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should report commands with timings, item counts, pages and consumed capacity', async () => {
+        const results: DynamoCommandResult[] = [];
+        const beforeCommand = jest.fn();
+        const service = new DynamoDBService('tasks', 'pk', {
+            skName: 'sk',
+            indexes: [{name: 'byPoints', pkName: 'points'}],
+            logger,
+            hooks: {beforeCommand, afterCommand: result => results.push(result)}
+        });
+
+        await service.put<Task>({pk: 'USER#1', sk: 'TASK#1', points: 1}, local.client);
+        await service.put<Task>({pk: 'USER#1', sk: 'TASK#2', points: 1}, local.client);
+        await service.getById({pk: 'USER#1', sk: 'TASK#1'}, local.client);
+        await service.fetchWithFiltersAndPagination<Task>({
+            filters: [{field: 'points', operator: '=', value: 1}],
+            pagination: {}
+        }, local.client);
+
+        expect(beforeCommand).toHaveBeenCalledTimes(results.length);
+        expect(results.map(result => result.commandName)).toEqual([
+            'PutItemCommand', 'PutItemCommand', 'GetItemCommand', 'QueryCommand', 'QueryCommand'
+        ]);
+        expect(results[2]).toMatchObject({tableNames: ['tasks'], itemCount: 1});
+        expect(results.slice(3).map(result => [result.indexName, result.page, result.itemCount]))
+            .toEqual([['byPoints', 1, 1], ['byPoints', 2, 1]]);
+        expect(results.every(result => result.durationMs >= 0)).toBe(true);
+        expect(results[0].consumedCapacity).toEqual([{TableName: 'tasks', CapacityUnits: 1}]);
+    });
+
+    it('should observe batches and transactions through the service hooks', async () => {
+        const afterCommand = jest.fn();
+        const service = new DynamoDBService('tasks', 'pk', {skName: 'sk', hooks: {afterCommand}});
+
+        await service.batchWrite<Task>([{pk: 'USER#1', sk: 'TASK#1', points: 1}], [], local.client);
+        await new DynamoTransaction()
+            .delete(service, {pk: 'USER#1', sk: 'TASK#1'})
+            .execute(local.client);
+
+        expect(afterCommand.mock.calls.map(([result]) => [result.commandName, result.tableNames])).toEqual([
+            ['BatchWriteItemCommand', ['tasks']],
+            ['TransactWriteItemsCommand', ['tasks']]
+        ]);
+        expect(afterCommand.mock.calls[1][0].consumedCapacity).toEqual([{TableName: 'tasks', CapacityUnits: 2}]);
+    });
+
+    it('should leave the input of observed commands untouched', async () => {
+        const afterCommand = jest.fn();
+        const service = new DynamoDBService('tasks', 'pk', {skName: 'sk', hooks: {afterCommand}});
+        const command = new GetItemCommand({TableName: 'tasks', Key: {pk: {S: 'USER#1'}, sk: {S: 'TASK#1'}}});
+
+        await service.observer.observe(command, () => local.client.send(command));
+
+        expect(command.input.ReturnConsumedCapacity).toBeUndefined();
+        expect(afterCommand).toHaveBeenCalledWith(expect.objectContaining({commandName: 'GetItemCommand'}));
+        expect(service.observer.withConsumedCapacity({TableName: 'tasks', ReturnConsumedCapacity: 'INDEXES'}))
+            .toEqual({TableName: 'tasks', ReturnConsumedCapacity: 'INDEXES'});
+    });
+
+    it('should report failed commands and keep hook errors from failing them', async () => {
+        const afterCommand = jest.fn(() => {
+            throw new Error('hook failed');
+        });
+        const service = new DynamoDBService('tasks', 'pk', {skName: 'sk', logger, hooks: {afterCommand}});
+
+        await service.create({pk: 'USER#1', sk: 'TASK#1'}, local.client);
+        await expect(service.create({pk: 'USER#1', sk: 'TASK#1'}, local.client))
+            .rejects.toThrow('The conditional request failed');
+
+        const [[success], [failure]] = afterCommand.mock.calls as unknown as DynamoCommandResult[][];
+        expect(success.error).toBeUndefined();
+        expect(failure.error).toMatchObject({name: 'ConditionalCheckFailedException'});
+        expect(logger.error).toHaveBeenCalledWith('DynamoDB afterCommand hook failed', {error: expect.any(Error)});
+    });
+
+    it('should send errors and warnings to the logger instead of the console', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const send = jest.fn()
+            .mockResolvedValueOnce({Item: {pk: {S: 'USER#1'}, odd: {} as any}})
+            .mockRejectedValueOnce(new Error('boom'));
+        const client = {send} as unknown as DynamoDBClient;
+        const service = new DynamoDBService('tasks', 'pk', {logger});
+
+        await service.getById('USER#1', client);
+        await expect(service.getById('USER#2', client)).rejects.toThrow('boom');
+
+        expect(logger.warn).toHaveBeenCalledWith('Unrecognized AttributeValue', {value: {}});
+        expect(logger.error).toHaveBeenCalledWith('Error in DynamoDB operation', {
+            error: expect.any(Error),
+            tableName: 'tasks'
+        });
+        expect(consoleError).not.toHaveBeenCalled();
+        expect(consoleWarn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,99 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoConcurrencyError, DynamoConditionalCheckFailedError} from "../dynamodb/DynamoErrors";
+import {DynamoTransaction} from "../dynamodb/DynamoTransaction";
+
+function conditionalCheckFailed(item?: Record<string, any>) {
+    return Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException',
+        Item: item
+    });
+}
+
+describe('DynamoDB Optimistic Locking Tests', () => {
+    const service = new DynamoDBService('accounts', 'id', {versionAttribute: 'version'});
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+        send = jest.fn().mockResolvedValue({});
+        client = {send} as unknown as DynamoDBClient;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should start created items at version 1', async () => {
+        const created = await service.create({id: 'a-1', balance: 10}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.Item.version).toEqual({N: '1'});
+        expect(input.ConditionExpression).toBe('attribute_not_exists(#pk)');
+        expect(created).toEqual({id: 'a-1', balance: 10, version: 1});
+    });
+
+    it('should check and increment the version on put', async () => {
+        await service.put({id: 'a-1', balance: 20, version: 3}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.Item.version).toEqual({N: '4'});
+        expect(input.ConditionExpression).toBe('#ver = :expectedVer');
+        expect(input.ExpressionAttributeValues[':expectedVer']).toEqual({N: '3'});
+        expect(input.ReturnValuesOnConditionCheckFailure).toBe('ALL_OLD');
+    });
+
+    it('should check and increment the version on update', async () => {
+        await service.update('a-1', {balance: 30}, client, {
+            expectedVersion: 4,
+            conditions: [{field: 'balance', operator: '>=', value: 0}]
+        });
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.UpdateExpression).toBe('SET #upd0_0 = :upd0, #upd1_0 = :upd1');
+        expect(input.ExpressionAttributeNames['#upd1_0']).toBe('version');
+        expect(input.ExpressionAttributeValues[':upd1']).toEqual({N: '5'});
+        expect(input.ConditionExpression).toBe('#ver = :expectedVer AND (#key0_0 >= :val0)');
+    });
+
+    it('should require an expected version for updates and deletes', async () => {
+        await expect(service.update('a-1', {balance: 1}, client)).rejects.toThrow(DynamoValidationError);
+        await expect(service.delete('a-1', client)).rejects.toThrow(DynamoValidationError);
+        await expect(service.batchWrite([{id: 'a-1'}], [], client)).rejects.toThrow(DynamoValidationError);
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should raise a concurrency error when the stored version differs', async () => {
+        send.mockRejectedValue(conditionalCheckFailed({id: {S: 'a-1'}, version: {N: '6'}}));
+
+        const error = await service.delete('a-1', client, {expectedVersion: 5}).catch(e => e);
+
+        expect(error).toBeInstanceOf(DynamoConcurrencyError);
+        expect(error).toMatchObject({tableName: 'accounts', key: {id: 'a-1'}, expectedVersion: 5, actualVersion: 6});
+    });
+
+    it('should raise a concurrency error when the item is gone', async () => {
+        send.mockRejectedValue(conditionalCheckFailed());
+
+        await expect(service.update('a-1', {balance: 1, version: 2}, client)).rejects.toThrow(DynamoConcurrencyError);
+    });
+
+    it('should report failures of caller conditions as failed conditions', async () => {
+        const failure = conditionalCheckFailed({id: {S: 'a-1'}, version: {N: '2'}, balance: {N: '-1'}});
+        send.mockRejectedValue(failure);
+
+        const error = await service.update('a-1', {balance: 1}, client, {
+            expectedVersion: 2,
+            conditions: [{field: 'balance', operator: '>=', value: 0}]
+        }).catch(e => e);
+        expect(error).toBeInstanceOf(DynamoConditionalCheckFailedError);
+        expect(error).not.toBeInstanceOf(DynamoConcurrencyError);
+        expect(error).toMatchObject({item: {id: 'a-1', version: 2, balance: -1}, cause: failure});
+    });
+
+    it('should version transactional writes too', () => {
+        const [update] = new DynamoTransaction()
+            .update(service, 'a-1', {balance: 5}, {expectedVersion: 1})
+            .toTransactItems();
+
+        expect(update.Update?.ConditionExpression).toBe('#ver = :expectedVer');
+    });
+});
@@ -0,0 +1,119 @@
+import {DynamoDBClient, ScanCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoScanCheckpoint} from "../dynamodb/types/DynamoScan";
+
+/** Every segment holds two pages with one item each. */
+function segmentedClient(failOnSegment?: number) {
+    const send = jest.fn().mockImplementation((command) => {
+        const {Segment, ExclusiveStartKey} = command.input;
+        if (Segment === failOnSegment && ExclusiveStartKey) {
+            return Promise.reject(new Error('crashed'));
+        }
+        const page = ExclusiveStartKey ? 2 : 1;
+        return Promise.resolve({
+            Items: [{id: {S: `s${Segment}-p${page}`}}],
+            ScannedCount: 1,
+            LastEvaluatedKey: page === 1 ? {id: {S: `s${Segment}-p1`}} : undefined
+        });
+    });
+    return {send, client: {send} as unknown as DynamoDBClient};
+}
+
+describe('DynamoDB Parallel Scan Tests', () => {
+    const service = new DynamoDBService('events');
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should scan every segment with the filter and merge the results', async () => {
+        const {send, client} = segmentedClient();
+
+        const result = await service.parallelScan<{ id: string }>({
+            filters: [{field: 'id', operator: '!=', value: 'x'}]
+        }, client, {totalSegments: 3, concurrency: 2});
+
+        expect(send).toHaveBeenCalledTimes(6);
+        expect(send.mock.calls[0][0]).toBeInstanceOf(ScanCommand);
+        expect(send.mock.calls[0][0].input).toMatchObject({
+            TableName: 'events',
+            TotalSegments: 3,
+            FilterExpression: '#key0_0 <> :val0'
+        });
+        expect(result.items.map(item => item.id).sort()).toEqual(
+            ['s0-p1', 's0-p2', 's1-p1', 's1-p2', 's2-p1', 's2-p2']
+        );
+        expect(result.pagesRead).toBe(6);
+        expect(Object.values(result.checkpoint.segments).every(segment => segment.done)).toBe(true);
+    });
+
+    it('should scan at most four segments at a time by default', async () => {
+        const {send, client} = segmentedClient();
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const sendPage = send.getMockImplementation()!;
+        send.mockImplementation(async (command) => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await new Promise(resolve => setImmediate(resolve));
+            inFlight--;
+            return sendPage(command);
+        });
+
+        const result = await service.parallelScan({filters: []}, client, {totalSegments: 10});
+
+        expect(result.pagesRead).toBe(20);
+        expect(maxInFlight).toBe(4);
+    });
+
+    it('should stream items per segment', async () => {
+        const {client} = segmentedClient();
+        const streamed: string[] = [];
+
+        const result = await service.parallelScan<{ id: string }>({filters: []}, client, {
+            totalSegments: 2,
+            onItems: (items, segment) => {
+                streamed.push(...items.map(item => `${segment}:${item.id}`));
+            }
+        });
+
+        expect(result.items).toEqual([]);
+        expect(streamed.sort()).toEqual(['0:s0-p1', '0:s0-p2', '1:s1-p1', '1:s1-p2']);
+    });
+
+    it('should resume from the last checkpoint after a crash', async () => {
+        const crashing = segmentedClient(1);
+        let lastCheckpoint: DynamoScanCheckpoint | undefined;
+
+        await expect(service.parallelScan({filters: []}, crashing.client, {
+            totalSegments: 2,
+            concurrency: 1,
+            onCheckpoint: (checkpoint) => {
+                lastCheckpoint = checkpoint;
+            }
+        })).rejects.toThrow('crashed');
+        expect(lastCheckpoint?.segments[0]).toEqual({done: true, lastEvaluatedKey: undefined});
+        expect(lastCheckpoint?.segments[1]).toEqual({done: false, lastEvaluatedKey: {id: {S: 's1-p1'}}});
+
+        const {send, client} = segmentedClient();
+        const result = await service.parallelScan<{ id: string }>({filters: []}, client, {
+            totalSegments: 2,
+            checkpoint: lastCheckpoint
+        });
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send.mock.calls[0][0].input).toMatchObject({Segment: 1, ExclusiveStartKey: {id: {S: 's1-p1'}}});
+        expect(result.items).toEqual([{id: 's1-p2'}]);
+    });
+
+    it('should validate the segment settings', async () => {
+        const {client} = segmentedClient();
+
+        await expect(service.parallelScan({filters: []}, client, {totalSegments: 0}))
+            .rejects.toThrow(DynamoValidationError);
+        await expect(service.parallelScan({filters: []}, client, {
+            totalSegments: 2,
+            checkpoint: {totalSegments: 4, segments: {}}
+        })).rejects.toThrow(DynamoValidationError);
+    });
+});
@@ -0,0 +1,83 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBExpressionBuilder} from "../dynamodb/DynamoDBExpressionBuilder";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {mapDynamoDBItemToType, ProjectedItem} from "../dynamodb/DynamoUtils";
+
+interface Customer {
+    id: string;
+    name: string;
+    address: { city: string; zip: string };
+    orders: { total: number }[];
+}
+
+describe('DynamoDB Projection Tests', () => {
+    const builder = new DynamoDBExpressionBuilder('id');
+
+    it('should build placeholder-safe projections with nested paths and list indexes', () => {
+        const result = builder.buildProjectionExpression(['id', 'address.city', 'orders[0].total', 'id']);
+
+        expect(result.ProjectionExpression).toBe('#prj0_0, #prj1_0.#prj1_1, #prj2_0[0].#prj2_1');
+        expect(result.ExpressionAttributeNames).toEqual({
+            '#prj0_0': 'id',
+            '#prj1_0': 'address',
+            '#prj1_1': 'city',
+            '#prj2_0': 'orders',
+            '#prj2_1': 'total'
+        });
+    });
+
+    it('should reject invalid or overlapping paths', () => {
+        expect(() => builder.buildProjectionExpression(['orders[x]'])).toThrow(DynamoValidationError);
+        expect(() => builder.buildProjectionExpression(['__proto__'])).toThrow(DynamoValidationError);
+        expect(() => builder.buildProjectionExpression(['address', 'address.city'])).toThrow(/overlap/);
+        expect(() => builder.buildProjectionExpression(['orders', 'orders[1]'])).toThrow(/overlap/);
+        expect(() => builder.buildProjectionExpression(['tags', 'tags-x', 'tags[0]'])).toThrow('Projection paths overlap: tags and tags[0]');
+    });
+
+    it('should send projections with queries, gets and batch gets', async () => {
+        const send = jest.fn().mockResolvedValue({Items: [], Responses: {customers: []}});
+        const client = {send} as unknown as DynamoDBClient;
+        const service = new DynamoDBService('customers');
+
+        await service.fetchWithFiltersAndPagination({
+            filters: [{field: 'id', operator: '=', value: 'c-1'}],
+            pagination: {},
+            fields: ['name', 'address.city']
+        }, client);
+        await service.getById('c-1', client, {fields: ['name']});
+        await service.batchGet(['c-1'], client, {fields: ['name']});
+
+        const [query, get, batchGet] = send.mock.calls.map(call => call[0].input);
+        expect(query.ProjectionExpression).toBe('#prj0_0, #prj1_0.#prj1_1');
+        expect(query.ExpressionAttributeNames).toMatchObject({'#pk': 'id', '#prj1_1': 'city'});
+        expect(get.ProjectionExpression).toBe('#prj0_0');
+        expect(batchGet.RequestItems.customers.ProjectionExpression).toBe('#prj0_0');
+    });
+
+    it('should project the attribute used for in-memory sorting', async () => {
+        const send = jest.fn().mockResolvedValue({Items: []});
+        const service = new DynamoDBService('customers');
+
+        await service.fetchWithFiltersAndPagination({
+            filters: [],
+            pagination: {sortBy: 'name'},
+            fields: ['id']
+        }, {send} as unknown as DynamoDBClient);
+
+        expect(send.mock.calls[0][0].input.ExpressionAttributeNames).toEqual({'#prj0_0': 'id', '#prj1_0': 'name'});
+    });
+
+    it('should type projected items as partial', () => {
+        const item = mapDynamoDBItemToType<Customer, 'id' | 'address.city'>(
+            {id: {S: 'c-1'}, address: {M: {city: {S: 'Berlin'}}}},
+            ['id', 'address.city']
+        );
+        const typed: ProjectedItem<Customer, 'id' | 'address.city'> = item;
+
+        expect(typed.id).toBe('c-1');
+        expect(typed.address.city).toBe('Berlin');
+        // @ts-expect-error name was not projected
+        expect(typed.name).toBeUndefined();
+    });
+});
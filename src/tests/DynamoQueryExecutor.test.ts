@@ -0,0 +1,92 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoQueryExecutor} from "../dynamodb/DynamoQueryExecutor";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+
+function pagedClient(pageCount: number, itemsPerPage = 2) {
+    const send = jest.fn().mockImplementation((command) => {
+        const start = Number(command.input.ExclusiveStartKey?.id.N ?? 0);
+        const count = Math.min(itemsPerPage, command.input.Limit ?? itemsPerPage);
+        const items = Array.from({length: count}, (_, i) => ({id: {N: String(start + i + 1)}}));
+        const last = start + count;
+        return Promise.resolve({
+            Items: items,
+            ScannedCount: count,
+            ConsumedCapacity: {CapacityUnits: 0.5},
+            LastEvaluatedKey: last < pageCount * itemsPerPage ? {id: {N: String(last)}} : undefined
+        });
+    });
+    return {send, client: {send} as unknown as DynamoDBClient};
+}
+
+describe('DynamoQueryExecutor Tests', () => {
+    it('should follow LastEvaluatedKey until the table is exhausted', async () => {
+        const {send, client} = pagedClient(3);
+        const result = await new DynamoQueryExecutor().executeQueryPages({TableName: 'table'}, client);
+
+        expect(send).toHaveBeenCalledTimes(3);
+        expect(result.items).toHaveLength(6);
+        expect(result.lastEvaluatedKey).toBeUndefined();
+        expect(result.stoppedBy).toBeUndefined();
+    });
+
+    it('should stop once enough items for the target are read', async () => {
+        const {send, client} = pagedClient(10);
+        const result = await new DynamoQueryExecutor().executeQueryPages({TableName: 'table'}, client, {
+            targetItemCount: 3
+        });
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(result.items).toHaveLength(4);
+        expect(result.lastEvaluatedKey).toBeDefined();
+        expect(result.stoppedBy).toBeUndefined();
+    });
+
+    it('should report which budget stopped the read', async () => {
+        const {client} = pagedClient(10);
+        const executor = new DynamoQueryExecutor({maxPages: 2});
+
+        expect((await executor.executeQueryPages({TableName: 'table'}, client)).stoppedBy).toBe('maxPages');
+        expect((await executor.executeQueryPages({TableName: 'table'}, client, {
+            budget: {maxPages: undefined, maxItemsRead: 3}
+        })).stoppedBy).toBe('maxItemsRead');
+    });
+
+    it('should request consumed capacity only when it is budgeted', async () => {
+        const {send, client} = pagedClient(10);
+        const result = await new DynamoQueryExecutor({maxConsumedCapacity: 1}).executeQueryPages(
+            {TableName: 'table'},
+            client
+        );
+
+        expect(send.mock.calls[0][0].input.ReturnConsumedCapacity).toBe('TOTAL');
+        expect(result.consumedCapacity).toBe(1);
+        expect(result.stoppedBy).toBe('maxConsumedCapacity');
+    });
+
+    it('should expose budget truncation in the service response', async () => {
+        const {client} = pagedClient(10);
+        const service = new DynamoDBService('table', 'id', {readBudget: {maxPages: 1}});
+        const result = await service.fetchWithFiltersAndPagination<{ id: number }>({
+            filters: [],
+            pagination: {limit: 2, offset: 4}
+        }, client);
+
+        expect(result.data).toEqual([]);
+        expect(result.truncated).toBe(true);
+        expect(result.stoppedBy).toBe('maxPages');
+        expect(result.hasMore).toBe(true);
+    });
+
+    it('should report more items when a page read beyond offset and limit', async () => {
+        const {client} = pagedClient(1, 5);
+        const service = new DynamoDBService('table', 'id');
+        const result = await service.fetchWithFiltersAndPagination<{ id: number }>({
+            filters: [],
+            pagination: {limit: 2, offset: 1}
+        }, client);
+
+        expect(result.data).toEqual([{id: 2}, {id: 3}]);
+        expect(result.total).toBe(5);
+        expect(result.hasMore).toBe(true);
+    });
+});
@@ -0,0 +1,120 @@
+import {readFileSync} from "fs";
+import {join} from "path";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoEntity} from "../dynamodb/DynamoEntity";
+import {DynamoStreamProcessor, toChangeEvent} from "../dynamodb/DynamoStreamProcessor";
+import {DynamoChangeEvent, DynamoStreamEvent} from "../dynamodb/types/DynamoStream";
+import {IDynamoLogger} from "../dynamodb/types/DynamoObservability";
+
+interface Order {
+    orderId: string;
+    status: string;
+    total: number;
+    paidAt?: string;
+    note?: string;
+}
+
+function loadFixture(): DynamoStreamEvent {
+    return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'dynamodb-stream-event.json'), 'utf8'));
+}
+
+describe('DynamoDB Stream Processor Tests', () => {
+    const orders = new DynamoEntity<Order>(new DynamoDBService('orders', 'pk', {skName: 'sk'}), {
+        name: 'Order',
+        attributes: ['orderId', 'status', 'total', 'paidAt', 'note'],
+        keys: {pk: 'ORDER#{orderId}', sk: 'DETAILS'}
+    });
+    let logger: jest.Mocked<IDynamoLogger>;
+
+    beforeEach(() => {
+        logger = {debug: jest.fn(), warn: jest.fn(), error: jest.fn()};
+    });
+
+    it('should convert stream records into typed change events', () => {
+        const [insert, modify, remove] = loadFixture().Records.map(record => toChangeEvent<Order>(record));
+
+        expect(insert).toMatchObject({
+            type: 'INSERT',
+            keys: {pk: 'ORDER#o1', sk: 'DETAILS'},
+            newItem: {orderId: 'o1', status: 'open', total: 12.5},
+            changes: [],
+            sequenceNumber: '111',
+            approximateCreationTime: new Date(1760000000 * 1000),
+            expiredByTtl: false
+        });
+        expect(insert.oldItem).toBeUndefined();
+        expect(modify.changes).toEqual([
+            {attribute: 'status', type: 'changed', oldValue: 'open', newValue: 'paid'},
+            {attribute: 'note', type: 'removed', oldValue: 'gift'},
+            {attribute: 'paidAt', type: 'added', newValue: '2025-10-09T10:01:00Z'}
+        ]);
+        expect(remove).toMatchObject({type: 'REMOVE', oldItem: {expiresAt: 1760000000}, expiredByTtl: true});
+    });
+
+    it('should route records by entity and key prefix', async () => {
+        const orderEvents: DynamoChangeEvent<Order>[] = [];
+        const sessionEvents: DynamoChangeEvent[] = [];
+        const fallback = jest.fn();
+        const processor = new DynamoStreamProcessor({logger})
+            .onEntity(orders, event => {
+                orderEvents.push(event);
+            })
+            .onKeyPrefix('SESSION#', event => {
+                sessionEvents.push(event);
+            })
+            .onAny(fallback);
+
+        expect(await processor.process(loadFixture())).toEqual({batchItemFailures: []});
+
+        expect(orderEvents.map(event => event.type)).toEqual(['INSERT', 'MODIFY']);
+        expect(orderEvents[1].newItem).toEqual({orderId: 'o1', status: 'paid', total: 12.5, paidAt: '2025-10-09T10:01:00Z'});
+        expect(orderEvents[1].changes.map(change => change.attribute)).toEqual(['status', 'note', 'paidAt']);
+        expect(sessionEvents.map(event => event.keys.pk)).toEqual(['SESSION#s1']);
+        expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should match entities by name through the type attribute', async () => {
+        const handler = jest.fn();
+        await new DynamoStreamProcessor().onEntity('Order', handler).process(loadFixture());
+
+        expect(handler).toHaveBeenCalledTimes(2);
+        expect(handler.mock.calls[0][0].newItem).toMatchObject({pk: 'ORDER#o1', entityType: 'Order'});
+    });
+
+    it('should stop at the first failure and report it as a batch item failure', async () => {
+        const handled: string[] = [];
+        const processor = new DynamoStreamProcessor({logger}).onAny(event => {
+            if (event.type === 'MODIFY') {
+                throw new Error('downstream unavailable');
+            }
+            handled.push(event.sequenceNumber!);
+        });
+
+        expect(await processor.process(loadFixture())).toEqual({batchItemFailures: [{itemIdentifier: '222'}]});
+        expect(handled).toEqual(['111']);
+        expect(logger.error).toHaveBeenCalledWith('DynamoDB stream record failed', {
+            eventId: 'c81e728d9d4c2f636f067f89cc14862c',
+            sequenceNumber: '222',
+            error: expect.any(Error)
+        });
+    });
+
+    it('should log and skip records that are not DynamoDB stream records', async () => {
+        const handled: string[] = [];
+        const processor = new DynamoStreamProcessor({logger}).onAny(event => {
+            handled.push(event.sequenceNumber!);
+        });
+        const [insert] = loadFixture().Records!;
+
+        const response = await processor.process({Records: [{eventID: 'e1', eventName: 'INSERT'}, insert]});
+
+        expect(response).toEqual({batchItemFailures: []});
+        expect(handled).toEqual(['111']);
+        expect(logger.warn).toHaveBeenCalledWith('Skipping invalid DynamoDB stream record', {
+            eventId: 'e1',
+            sequenceNumber: undefined,
+            error: expect.any(Error)
+        });
+        expect(logger.error).not.toHaveBeenCalled();
+    });
+});
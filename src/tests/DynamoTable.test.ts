@@ -0,0 +1,101 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoResourceNotFoundError} from "../dynamodb/DynamoErrors";
+import {DynamoTable} from "../dynamodb/DynamoTable";
+import {DynamoLocal} from "../dynamodb/local/DynamoLocal";
+import {DynamoTableDefinition} from "../dynamodb/types/DynamoTable";
+
+describe('DynamoDB Table Definition Tests', () => {
+    const definition: DynamoTableDefinition = {
+        name: 'users',
+        pkName: 'pk',
+        skName: 'sk',
+        indexes: [
+            {name: 'byEmail', pkName: 'email', projection: 'KEYS_ONLY'},
+            {name: 'byAge', pkName: 'pk', skName: 'age', skType: 'N', type: 'LSI', projection: ['name']}
+        ],
+        ttlAttribute: 'expiresAt'
+    };
+    let local: DynamoLocal;
+
+    beforeEach(() => {
+        local = new DynamoLocal();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should create the table, wait until it is active and enable TTL', async () => {
+        const send = jest.spyOn(local.client, 'send');
+        const table = new DynamoTable(definition);
+
+        expect(await table.ensureTable(local.client, {pollIntervalMs: 0})).toEqual({created: true, differences: []});
+        expect(send.mock.calls.map(([command]) => command.constructor.name)).toEqual([
+            'DescribeTableCommand',
+            'CreateTableCommand',
+            'DescribeTableCommand',
+            'DescribeTableCommand',
+            'UpdateTimeToLiveCommand'
+        ]);
+        expect(table.toCreateTableInput()).toMatchObject({
+            KeySchema: [{AttributeName: 'pk', KeyType: 'HASH'}, {AttributeName: 'sk', KeyType: 'RANGE'}],
+            AttributeDefinitions: [
+                {AttributeName: 'pk', AttributeType: 'S'},
+                {AttributeName: 'sk', AttributeType: 'S'},
+                {AttributeName: 'email', AttributeType: 'S'},
+                {AttributeName: 'age', AttributeType: 'N'}
+            ],
+            BillingMode: 'PAY_PER_REQUEST',
+            GlobalSecondaryIndexes: [{IndexName: 'byEmail', Projection: {ProjectionType: 'KEYS_ONLY'}}],
+            LocalSecondaryIndexes: [{IndexName: 'byAge', Projection: {ProjectionType: 'INCLUDE', NonKeyAttributes: ['name']}}]
+        });
+
+        expect(await table.ensureTable(local.client)).toEqual({created: false, differences: []});
+        expect(await table.describe(local.client)).toMatchObject({name: 'users', ttlAttribute: 'expiresAt', billingMode: 'PAY_PER_REQUEST'});
+    });
+
+    it('should report drift from the deployed table', async () => {
+        local.createTable({
+            name: 'users',
+            pkName: 'pk',
+            skName: 'id',
+            indexes: [{name: 'byEmail', pkName: 'email'}, {name: 'legacy', pkName: 'oldKey'}]
+        });
+
+        expect(await new DynamoTable(definition).diff(local.client)).toEqual([
+            {path: 'skName', expected: 'sk', actual: 'id'},
+            {path: 'ttlAttribute', expected: 'expiresAt', actual: undefined},
+            {path: 'indexes.byEmail.projection', expected: 'KEYS_ONLY', actual: 'ALL'},
+            {path: 'indexes.byAge', expected: expect.objectContaining({type: 'LSI', skName: 'age'})},
+            {path: 'indexes.legacy', actual: expect.objectContaining({type: 'GSI', pkName: 'oldKey'})}
+        ]);
+        await expect(new DynamoTable({...definition, name: 'missing'}).diff(local.client))
+            .rejects.toThrow(DynamoResourceNotFoundError);
+    });
+
+    it('should configure services with the declared keys and TTL attribute', async () => {
+        const table = new DynamoTable(definition);
+        await table.ensureTable(local.client, {pollIntervalMs: 0});
+        const service = table.createService({lifecycle: {retentionSeconds: 60}});
+
+        await service.put({pk: 'USER#1', sk: 'PROFILE', email: 'a@example.com'}, local.client);
+        await service.delete({pk: 'USER#1', sk: 'PROFILE'}, local.client);
+
+        expect(service.keySchemaFor('byEmail')).toEqual(expect.objectContaining({pkName: 'email'}));
+        expect(local.items('users')[0]).toHaveProperty('expiresAt');
+    });
+
+    it('should reject inconsistent definitions and time out on tables that stay inactive', async () => {
+        expect(() => new DynamoTable({name: 'a', pkName: 'pk', billingMode: 'PROVISIONED'}))
+            .toThrow('Provisioned table a needs a throughput');
+        expect(() => new DynamoTable({name: 'a', pkName: 'pk', indexes: [{name: 'x', pkName: 'pk', pkType: 'N'}]}))
+            .toThrow('Key attribute pk of table a is declared as S and N');
+        expect(() => new DynamoTable({name: 'a', pkName: 'pk', indexes: [{name: 'x', pkName: 'other', skName: 's', type: 'LSI'}]}))
+            .toThrow(DynamoValidationError);
+
+        const client = {send: jest.fn().mockResolvedValue({Table: {TableStatus: 'UPDATING'}})} as unknown as DynamoDBClient;
+        await expect(new DynamoTable(definition).ensureTable(client, {timeoutMs: 0, pollIntervalMs: 0}))
+            .rejects.toThrow('Table users is not ACTIVE after 0 ms');
+    });
+});
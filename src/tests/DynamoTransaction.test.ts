@@ -0,0 +1,140 @@
+import {DynamoDBClient, TransactGetItemsCommand, TransactWriteItemsCommand} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoTransaction, DynamoTransactionGet} from "../dynamodb/DynamoTransaction";
+import {DynamoThrottlingError, DynamoTransactionCanceledError} from "../dynamodb/DynamoErrors";
+import {DynamoUpdateAction} from "../dynamodb/DynamoUpdateExpressionBuilder";
+
+describe('DynamoDB Transaction Tests', () => {
+    const orders = new DynamoDBService('orders', 'orderId');
+    const inventory = new DynamoDBService('inventory', 'sku');
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+        send = jest.fn().mockResolvedValue({});
+        client = {send} as unknown as DynamoDBClient;
+    });
+
+    it('should send all operations in one TransactWriteItems call', async () => {
+        await new DynamoTransaction()
+            .create(orders, {orderId: 'o-1', status: 'open'})
+            .update(inventory, 'sku-1', {stock: DynamoUpdateAction.increment(-1)}, {
+                conditions: [{field: 'stock', operator: '>', value: 0}]
+            })
+            .conditionCheck(orders, 'o-0', [{field: 'status', operator: '=', value: 'paid'}])
+            .delete(orders, 'o-2')
+            .execute(client, {clientRequestToken: 'token'});
+
+        const command = send.mock.calls[0][0];
+        expect(command).toBeInstanceOf(TransactWriteItemsCommand);
+        expect(command.input.ClientRequestToken).toBe('token');
+
+        const [put, update, check, remove] = command.input.TransactItems;
+        expect(put.Put.ConditionExpression).toBe('attribute_not_exists(#pk)');
+        expect(update.Update).toMatchObject({
+            TableName: 'inventory',
+            Key: {sku: {S: 'sku-1'}},
+            UpdateExpression: 'SET #upd0_0 = if_not_exists(#upd0_0, :upd0_0) + :upd0',
+            ConditionExpression: '#key0_0 > :val0'
+        });
+        expect(check.ConditionCheck.ConditionExpression).toBe('#key0_0 = :val0');
+        expect(remove.Delete.Key).toEqual({orderId: {S: 'o-2'}});
+    });
+
+    it('should name the operation whose condition failed', async () => {
+        send.mockRejectedValue(Object.assign(new Error('Transaction cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [
+                {Code: 'None'},
+                {Code: 'ConditionalCheckFailed', Message: 'The conditional request failed', Item: {sku: {S: 'sku-1'}, stock: {N: '0'}}}
+            ]
+        }));
+
+        const error = await new DynamoTransaction()
+            .put(orders, {orderId: 'o-1'})
+            .update(inventory, 'sku-1', {stock: DynamoUpdateAction.increment(-1)}, {
+                conditions: [{field: 'stock', operator: '>', value: 0}],
+                returnItemOnConditionFailure: true
+            })
+            .execute(client)
+            .catch(e => e);
+
+        expect(send.mock.calls[0][0].input.TransactItems[1].Update.ReturnValuesOnConditionCheckFailure).toBe('ALL_OLD');
+        expect(error).toBeInstanceOf(DynamoTransactionCanceledError);
+        expect(error.failedOperations).toEqual([{
+            index: 1,
+            operation: 'update',
+            tableName: 'inventory',
+            code: 'ConditionalCheckFailed',
+            message: 'The conditional request failed',
+            item: {sku: 'sku-1', stock: 0}
+        }]);
+        expect(error.message).toContain('#1 update on inventory: ConditionalCheckFailed');
+    });
+
+    it('should unmarshall items of cancellation reasons with the service of their operation', async () => {
+        const exact = new DynamoDBService('inventory', 'sku', {marshaller: {numbers: 'string'}});
+        send.mockRejectedValue(Object.assign(new Error('Transaction cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [
+                {Code: 'ConditionalCheckFailed', Item: {orderId: {S: 'o-1'}, total: {N: '10.50'}}},
+                {Code: 'ConditionalCheckFailed', Item: {sku: {S: 'sku-1'}, stock: {N: '10.50'}}}
+            ]
+        }));
+
+        const error = await new DynamoTransaction()
+            .conditionCheck(orders, 'o-1', [{field: 'total', operator: '>', value: 0}])
+            .conditionCheck(exact, 'sku-1', [{field: 'stock', operator: '>', value: 0}])
+            .execute(client)
+            .catch(e => e);
+
+        expect(error.failedOperations.map((reason: { item: unknown }) => reason.item)).toEqual([
+            {orderId: 'o-1', total: 10.5},
+            {sku: 'sku-1', stock: '10.50'}
+        ]);
+    });
+
+    it('should name the table of typed errors when all operations use one', async () => {
+        send.mockRejectedValue(Object.assign(new Error('Rate exceeded'), {name: 'ThrottlingException'}));
+
+        const single = await new DynamoTransaction().delete(orders, 'o-1').delete(orders, 'o-2').execute(client).catch(e => e);
+        const mixed = await new DynamoTransaction().delete(orders, 'o-1').delete(inventory, 'sku-1').execute(client).catch(e => e);
+
+        expect(single).toBeInstanceOf(DynamoThrottlingError);
+        expect(single.tableName).toBe('orders');
+        expect(mixed).toBeInstanceOf(DynamoThrottlingError);
+        expect(mixed.tableName).toBeUndefined();
+    });
+
+    it('should rethrow other errors unchanged', async () => {
+        const failure = new Error('boom');
+        send.mockRejectedValue(failure);
+
+        await expect(new DynamoTransaction().delete(orders, 'o-1').execute(client)).rejects.toBe(failure);
+    });
+
+    it('should enforce the operation limits', async () => {
+        const transaction = new DynamoTransaction();
+        for (let i = 0; i < 100; i++) {
+            transaction.delete(orders, `o-${i}`);
+        }
+
+        expect(() => transaction.delete(orders, 'o-100')).toThrow(DynamoValidationError);
+        await expect(new DynamoTransaction().execute(client)).rejects.toThrow(DynamoValidationError);
+        expect(() => new DynamoTransaction().conditionCheck(orders, 'o-1', [])).toThrow(DynamoValidationError);
+    });
+
+    it('should read items consistently in the order they were added', async () => {
+        send.mockResolvedValue({Responses: [{Item: {orderId: {S: 'o-1'}}}, {}]});
+
+        const [order, missing] = await new DynamoTransactionGet()
+            .get(orders, 'o-1')
+            .get(inventory, 'sku-9')
+            .execute(client);
+
+        expect(send.mock.calls[0][0]).toBeInstanceOf(TransactGetItemsCommand);
+        expect(order).toEqual({orderId: 'o-1'});
+        expect(missing).toBeUndefined();
+    });
+});
@@ -0,0 +1,67 @@
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoUpdateAction, DynamoUpdateExpressionBuilder} from "../dynamodb/DynamoUpdateExpressionBuilder";
+
+describe('DynamoUpdateExpressionBuilder Tests', () => {
+    const builder = new DynamoUpdateExpressionBuilder();
+
+    it('should set plain values on nested paths', () => {
+        const result = builder.buildUpdateExpression({'address.city': 'Berlin', name: 'Ada'});
+
+        expect(result.UpdateExpression).toBe('SET #upd0_0.#upd0_1 = :upd0, #upd1_0 = :upd1');
+        expect(result.ExpressionAttributeNames).toEqual({
+            '#upd0_0': 'address',
+            '#upd0_1': 'city',
+            '#upd1_0': 'name'
+        });
+        expect(result.ExpressionAttributeValues).toEqual({':upd0': {S: 'Berlin'}, ':upd1': {S: 'Ada'}});
+    });
+
+    it('should remove undefined and explicitly removed attributes', () => {
+        const result = builder.buildUpdateExpression({
+            nickname: undefined,
+            'address.zip': DynamoUpdateAction.remove(),
+            name: 'Ada'
+        });
+
+        expect(result.UpdateExpression).toBe('SET #upd2_0 = :upd2 REMOVE #upd0_0, #upd1_0.#upd1_1');
+    });
+
+    it('should build atomic counters, list appends and defaults', () => {
+        const result = builder.buildUpdateExpression({
+            views: DynamoUpdateAction.increment(),
+            history: DynamoUpdateAction.appendToList(['created']),
+            createdAt: DynamoUpdateAction.ifNotExists('2024-01-01')
+        });
+
+        expect(result.UpdateExpression).toBe(
+            'SET #upd0_0 = if_not_exists(#upd0_0, :upd0_0) + :upd0, ' +
+            '#upd1_0 = list_append(if_not_exists(#upd1_0, :upd1_0), :upd1), ' +
+            '#upd2_0 = if_not_exists(#upd2_0, :upd2)'
+        );
+        expect(result.ExpressionAttributeValues?.[':upd0']).toEqual({N: '1'});
+        expect(result.ExpressionAttributeValues?.[':upd1']).toEqual({L: [{S: 'created'}]});
+        expect(result.ExpressionAttributeValues?.[':upd1_0']).toEqual({L: []});
+    });
+
+    it('should add to and delete from sets', () => {
+        const result = builder.buildUpdateExpression({
+            tags: DynamoUpdateAction.addToSet(['new']),
+            scores: DynamoUpdateAction.removeFromSet([1, 2])
+        });
+
+        expect(result.UpdateExpression).toBe('ADD #upd0_0 :upd0 DELETE #upd1_0 :upd1');
+        expect(result.ExpressionAttributeValues?.[':upd0']).toEqual({SS: ['new']});
+        expect(result.ExpressionAttributeValues?.[':upd1']).toEqual({NS: ['1', '2']});
+    });
+
+    it('should reject invalid patches', () => {
+        expect(() => builder.buildUpdateExpression({})).toThrow(DynamoValidationError);
+        expect(() => builder.buildUpdateExpression({address: {}, 'address.city': 'x'})).toThrow(/overlap/);
+        expect(() => builder.buildUpdateExpression({a: {}, 'a-b': 1, 'a.b': 2})).toThrow('Update paths overlap: a and a.b');
+        expect(() => builder.buildUpdateExpression({'a.tags': DynamoUpdateAction.addToSet(['x'])}))
+            .toThrow(DynamoValidationError);
+        expect(() => builder.buildUpdateExpression({views: DynamoUpdateAction.increment(NaN)}))
+            .toThrow(DynamoValidationError);
+        expect(() => builder.buildUpdateExpression({name: {$ne: 1}})).toThrow(DynamoValidationError);
+    });
+});
@@ -0,0 +1,86 @@
+import {DynamoDBClient} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBExpressionBuilder} from "../dynamodb/DynamoDBExpressionBuilder";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+import {DynamoUpdateAction} from "../dynamodb/DynamoUpdateExpressionBuilder";
+import {DynamoValidationPolicy, validateFieldName, validateValue} from "../dynamodb/DynamoValidator";
+
+describe('DynamoDB Validation Policy Tests', () => {
+    const policy = new DynamoValidationPolicy({
+        fields: {
+            pk: {types: ['S']},
+            status: {types: ['S'], operators: ['=', 'in']},
+            points: {types: ['N']},
+            address: {}
+        }
+    });
+
+    beforeEach(() => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should accept attribute names that merely contain keywords or reserved words', () => {
+        ['isDeleted', 'lastUpdatedAt', 'insertedBy', 'delete', 'status', 'name', 'order-id', 'GSI1#pk', '_internal']
+            .forEach(field => expect(() => validateFieldName(field)).not.toThrow());
+
+        const expr = new DynamoDBExpressionBuilder('pk').buildFilterExpression([
+            {field: 'isDeleted', operator: '=', value: false},
+            {field: 'delete', operator: 'exists'}
+        ]);
+        expect(Object.values(expr.ExpressionAttributeNames!)).toEqual(['isDeleted', 'delete']);
+    });
+
+    it('should still refuse prototype names and operator-like names and keys', () => {
+        ['__proto__', 'address.constructor', '$where', 'a b', 'x.'].forEach(field =>
+            expect(() => validateFieldName(field)).toThrow(DynamoValidationError));
+        expect(() => validateValue({profile: {$gt: 1}})).toThrow('Potential NoSQL injection detected');
+
+        ['see constructor docs', 'price in $in units', {note: 'prototype'}].forEach(value =>
+            expect(() => validateValue(value)).not.toThrow());
+    });
+
+    it('should apply configurable limits', () => {
+        const strict = new DynamoValidationPolicy({maxFieldDepth: 2, maxFieldLength: 5, maxValueLength: 3, fieldPattern: /^[a-z]+$/});
+
+        expect(() => strict.validateFieldName('a.b.c')).toThrow('Field depth exceeds maximum of 2');
+        expect(() => strict.validateFieldName('abcdef')).toThrow('Field part length exceeds maximum of 5');
+        expect(() => strict.validateFieldName('Abc')).toThrow('Invalid characters in field name: Abc');
+        expect(() => strict.validateValue('abcd')).toThrow('Value length exceeds maximum of 3');
+        expect(() => validateValue('x'.repeat(1000))).not.toThrow();
+    });
+
+    it('should check filters against the allowlist, operators and types', () => {
+        const builder = new DynamoDBExpressionBuilder('pk', undefined, undefined, policy);
+
+        expect(() => builder.buildFilterExpression([
+            {field: 'status', operator: 'in', value: ['open', 'done']},
+            {field: 'address.city', operator: 'begins_with', value: 'Ber'}
+        ])).not.toThrow();
+        expect(() => builder.buildFilterExpression([{field: 'owner', operator: '=', value: 'me'}]))
+            .toThrow('Field owner is not allowed');
+        expect(() => builder.buildFilterExpression([{field: 'status', operator: 'like', value: 'op'}]))
+            .toThrow('Operator like is not allowed on status');
+        expect(() => builder.buildFilterExpression([{field: 'points', operator: 'between', value: [1, '9']}]))
+            .toThrow('points expects N, got S');
+        expect(() => builder.buildProjectionExpression(['secret'])).toThrow('Field secret is not allowed');
+    });
+
+    it('should check writes and updates of services with a policy', async () => {
+        const send = jest.fn().mockResolvedValue({});
+        const client = {send} as unknown as DynamoDBClient;
+        const service = new DynamoDBService('tasks', 'pk', {validation: policy});
+
+        await service.put({pk: 'USER#1', status: 'open', points: 3}, client);
+        await expect(service.put({pk: 'USER#1', points: '3'}, client)).rejects.toThrow('points expects N, got S');
+        await expect(service.put({pk: 'USER#1', owner: 'me'}, client)).rejects.toThrow('Field owner is not allowed');
+        await expect(service.update('USER#1', {status: DynamoUpdateAction.increment()}, client))
+            .rejects.toThrow('status expects S, got N');
+        await service.update('USER#1', {points: DynamoUpdateAction.increment(), 'address.city': 'Berlin'}, client);
+
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,106 @@
+import {
+    DeleteItemCommand,
+    DynamoDBClient,
+    GetItemCommand,
+    PutItemCommand,
+    UpdateItemCommand
+} from "@aws-sdk/client-dynamodb";
+import {DynamoValidationError} from "@denis_bruns/core";
+import {DynamoDBService} from "../dynamodb/DynamoDBService";
+
+interface Order {
+    customerId: string;
+    orderId: string;
+    status: string;
+    total?: number;
+}
+
+describe('DynamoDB Write API Tests', () => {
+    const service = new DynamoDBService('orders', 'customerId', {skName: 'orderId'});
+    const key = {customerId: 'c-1', orderId: 'o-1'};
+    let send: jest.Mock;
+    let client: DynamoDBClient;
+
+    beforeEach(() => {
+        send = jest.fn().mockResolvedValue({});
+        client = {send} as unknown as DynamoDBClient;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    it('should get an item by its composite key', async () => {
+        send.mockResolvedValueOnce({Item: {customerId: {S: 'c-1'}, orderId: {S: 'o-1'}, status: {S: 'open'}}});
+
+        const order = await service.getById<Order>(key, client, {consistentRead: true});
+
+        expect(send.mock.calls[0][0]).toBeInstanceOf(GetItemCommand);
+        expect(send.mock.calls[0][0].input).toEqual({
+            TableName: 'orders',
+            Key: {customerId: {S: 'c-1'}, orderId: {S: 'o-1'}},
+            ConsistentRead: true
+        });
+        expect(order).toEqual({customerId: 'c-1', orderId: 'o-1', status: 'open'});
+    });
+
+    it('should return undefined for missing items', async () => {
+        expect(await service.getById<Order>(key, client)).toBeUndefined();
+    });
+
+    it('should reject incomplete keys', async () => {
+        await expect(service.getById('c-1', client)).rejects.toThrow(DynamoValidationError);
+    });
+
+    it('should create items only if they do not exist yet', async () => {
+        await service.create<Order>({...key, status: 'open'}, client, {
+            conditions: [{field: 'status', operator: '!=', value: 'closed'}]
+        });
+
+        const input = send.mock.calls[0][0].input;
+        expect(send.mock.calls[0][0]).toBeInstanceOf(PutItemCommand);
+        expect(input.Item.status).toEqual({S: 'open'});
+        expect(input.ConditionExpression).toBe('attribute_not_exists(#pk) AND (#key0_0 <> :val0)');
+        expect(input.ExpressionAttributeNames).toEqual({'#pk': 'customerId', '#key0_0': 'status'});
+    });
+
+    it('should put items and return the old image', async () => {
+        send.mockResolvedValueOnce({Attributes: {customerId: {S: 'c-1'}, orderId: {S: 'o-1'}, status: {S: 'new'}}});
+
+        const old = await service.put<Order>({...key, status: 'open', total: undefined}, client, {returnValues: 'ALL_OLD'});
+
+        const input = send.mock.calls[0][0].input;
+        expect(input.Item).toEqual({customerId: {S: 'c-1'}, orderId: {S: 'o-1'}, status: {S: 'open'}});
+        expect(input.ConditionExpression).toBeUndefined();
+        expect(input.ExpressionAttributeNames).toBeUndefined();
+        expect(old?.status).toBe('new');
+    });
+
+    it('should update the given attributes and skip key attributes', async () => {
+        send.mockResolvedValueOnce({Attributes: {customerId: {S: 'c-1'}, orderId: {S: 'o-1'}, total: {N: '5'}}});
+
+        const updated = await service.update<Order>(key, {...key, total: 5}, client);
+
+        const input = send.mock.calls[0][0].input;
+        expect(send.mock.calls[0][0]).toBeInstanceOf(UpdateItemCommand);
+        expect(input.UpdateExpression).toBe('SET #upd0_0 = :upd0');
+        expect(input.ExpressionAttributeNames).toEqual({'#upd0_0': 'total'});
+        expect(input.ReturnValues).toBe('ALL_NEW');
+        expect(updated?.total).toBe(5);
+    });
+
+    it('should delete with conditions', async () => {
+        await service.delete(key, client, {
+            conditions: [{field: 'status', operator: '=', value: 'closed'}],
+            returnValues: 'ALL_OLD'
+        });
+
+        const input = send.mock.calls[0][0].input;
+        expect(send.mock.calls[0][0]).toBeInstanceOf(DeleteItemCommand);
+        expect(input.ConditionExpression).toBe('#key0_0 = :val0');
+        expect(input.ReturnValues).toBe('ALL_OLD');
+    });
+
+    it('should validate items before writing', async () => {
+        await expect(service.put({customerId: 'c-1', status: 'open'}, client)).rejects.toThrow(DynamoValidationError);
+        await expect(service.put({...key, $where: 'x'}, client)).rejects.toThrow(DynamoValidationError);
+        expect(send).not.toHaveBeenCalled();
+    });
+});